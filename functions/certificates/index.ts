@@ -0,0 +1,66 @@
+/**
+ * Cloudflare Pages Function that issues quiz completion certificates
+ *
+ * This function:
+ * - Grades the finished quiz itself: it draws the session's questions again from the seed
+ *   and scores the first answer to each, so the browser can't claim a score it didn't get
+ * - Stamps the certificate with today's date (UTC), so it can't be backdated
+ * - Signs it with an HMAC, which becomes the verification code printed on the certificate
+ *
+ * Nothing is stored: /certificates/verify recomputes the HMAC to check a certificate.
+ *
+ * Route: POST /certificates
+ * Body: { "name": string, "seed": number, "answers": [questionId, answer][] }
+ * Response: { "code": string, "date": string, "score": number, "total": number }
+ *
+ * Environment variables required:
+ * - CERTIFICATE_SECRET: Long random string used to sign certificates. Changing it invalidates every code issued before.
+ */
+
+import { createCertificateCode, getCertificateDate, gradeCertificateRequest } from '../../src/utils/certificate';
+import { toQuizQuestions } from '../../src/utils/quizSession';
+import en from '../../src/i18n/locales/en.json';
+
+interface Env {
+  CERTIFICATE_SECRET?: string;
+}
+
+// Every language has the same questions and answers, so the English pool grades them all
+const QUESTION_POOL = toQuizQuestions(en.quiz.questions);
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+
+export async function onRequestPost(
+  context: {
+    request: Request;
+    env: Env;
+  }
+): Promise<Response> {
+  const { request, env } = context;
+
+  if (!env.CERTIFICATE_SECRET) {
+    return json({ error: 'Certificate service not configured' }, 503);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+
+  const certificate = gradeCertificateRequest(body, QUESTION_POOL, getCertificateDate());
+  if (!certificate) {
+    return json({ error: 'Invalid certificate details' }, 400);
+  }
+
+  const code = await createCertificateCode(certificate, env.CERTIFICATE_SECRET);
+  return json({ code, date: certificate.date, score: certificate.score, total: certificate.total }, 200);
+}
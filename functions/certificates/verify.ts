@@ -0,0 +1,57 @@
+/**
+ * Cloudflare Pages Function that checks a quiz completion certificate
+ *
+ * The verification code is an HMAC of the certificate's details, so checking it
+ * needs no database: the HMAC is computed again and compared with the code.
+ *
+ * Route: POST /certificates/verify
+ * Body: { "code": string, "name": string, "score": number, "total": number, "date": "YYYY-MM-DD" }
+ * Response: { "valid": boolean }
+ *
+ * Environment variables required:
+ * - CERTIFICATE_SECRET: The secret certificates were issued with (see ./index.ts)
+ */
+
+import { isCertificateCode, parseCertificateClaims, verifyCertificateCode } from '../../src/utils/certificate';
+
+interface Env {
+  CERTIFICATE_SECRET?: string;
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+
+export async function onRequestPost(
+  context: {
+    request: Request;
+    env: Env;
+  }
+): Promise<Response> {
+  const { request, env } = context;
+
+  if (!env.CERTIFICATE_SECRET) {
+    return json({ error: 'Certificate service not configured' }, 503);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+
+  const code = typeof body === 'object' && body !== null ? (body as { code?: unknown }).code : undefined;
+  const certificate = parseCertificateClaims(body);
+  // Details that could never have been signed are simply not a valid certificate
+  if (typeof code !== 'string' || !isCertificateCode(code) || !certificate) {
+    return json({ valid: false }, 200);
+  }
+
+  return json({ valid: await verifyCertificateCode(certificate, code, env.CERTIFICATE_SECRET) }, 200);
+}
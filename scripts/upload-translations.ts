@@ -5,6 +5,9 @@
  * Usage:
  *   npm run upload-translations
  * 
+ * The quiz questions in every locale are checked first (see src/utils/quizValidation.ts),
+ * and nothing is uploaded if they have drifted apart.
+ *
  * Environment variables required:
  *   B2_APPLICATION_KEY_ID - Your B2 application key ID
  *   B2_APPLICATION_KEY - Your B2 application key
@@ -15,6 +18,7 @@
 import { readFileSync, readdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { formatQuizValidationReport, validateQuizLocales } from '../src/utils/quizValidation';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -138,7 +142,34 @@ async function getBucketId(
   return bucket.bucketId;
 }
 
+/**
+ * Reads every locale file and checks that their quiz questions still line up
+ */
+function validateLocales(localesDir: string, files: string[]): boolean {
+  const locales = Object.fromEntries(
+    files.map((file) => [file.replace('.json', ''), JSON.parse(readFileSync(join(localesDir, file), 'utf-8'))])
+  );
+  const reports = validateQuizLocales(locales);
+  const isValid = reports.every(({ errors }) => errors.length === 0);
+
+  if (isValid) {
+    console.log(`✓ ${formatQuizValidationReport(reports)}`);
+  } else {
+    console.error(`✗ ${formatQuizValidationReport(reports)}`);
+  }
+  return isValid;
+}
+
 async function main() {
+  const localesDir = join(__dirname, '../src/i18n/locales');
+  const files = readdirSync(localesDir).filter((f) => f.endsWith('.json'));
+
+  console.log('Checking quiz questions...');
+  if (!validateLocales(localesDir, files)) {
+    console.error('\nFix the quiz questions above before uploading.');
+    process.exit(1);
+  }
+
   const keyId = process.env.B2_APPLICATION_KEY_ID;
   const key = process.env.B2_APPLICATION_KEY;
   const bucketName = process.env.B2_BUCKET_NAME;
@@ -170,10 +201,6 @@ async function main() {
     const uploadUrlData = await getUploadUrl(auth.apiUrl, auth.authorizationToken, finalBucketId);
     console.log('✓ Got upload URL');
 
-    // Read translation files
-    const localesDir = join(__dirname, '../src/i18n/locales');
-    const files = readdirSync(localesDir).filter((f) => f.endsWith('.json'));
-
     console.log(`\nFound ${files.length} translation file(s):`);
 
     // Upload each file
@@ -1,14 +1,46 @@
-import { useMemo, useState, useEffect } from 'react';
+import { useMemo, useState, useEffect, useRef } from 'react';
 import i18n from './i18n/config';
 import { ControlsBar } from './components/ControlsBar';
 import { ChatExample } from './components/ChatExample';
+import { ChatComparisonTimeline } from './components/ChatComparisonTimeline';
+import { NotificationPreview } from './components/NotificationPreview';
+import { ConversationPath } from './components/ConversationPath';
+import { AntiPatternGallery } from './components/AntiPatternGallery';
+import { PlatformSwitcher } from './components/PlatformSwitcher';
+import { TimeZoneSwitcher } from './components/TimeZoneSwitcher';
+import { SendTimeSimulator } from './components/SendTimeSimulator';
 import { RotatingText } from './components/RotatingText';
 import { Quiz } from './components/Quiz';
+import { MessageLinter } from './components/MessageLinter';
+import { MessageMerge } from './components/MessageMerge';
+import { ConversationBuilder } from './components/ConversationBuilder';
+import { ChatMarkup } from './components/ChatMarkup';
+import { CertificateVerification } from './components/CertificateVerification';
+import { BUILDER_PATH, isBuilderPath } from './utils/conversationPermalink';
+import { getVerifyCode } from './utils/certificate';
+import { parseAntiPatternGallery } from './utils/antiPatternGallery';
+import { QUIZ_QUESTION_COUNT, toQuizQuestions } from './utils/quizSession';
+import { clearQuizProgress, loadQuizProgress } from './utils/quizProgress';
+import { CHAT_PLATFORM_STORAGE_KEY, DEFAULT_CHAT_PLATFORM, isChatPlatform } from './data/chatPlatforms';
+import type { ChatPlatform, SendTime } from './types/chat';
+import type { QuizProgress } from './types/quiz';
+
+// Restore the chat platform picked on a previous visit
+function getInitialPlatform(): ChatPlatform {
+  const savedPlatform = localStorage.getItem(CHAT_PLATFORM_STORAGE_KEY);
+  return isChatPlatform(savedPlatform) ? savedPlatform : DEFAULT_CHAT_PLATFORM;
+}
 
 function App() {
   // Only subscribe to language changes, not all i18n updates
   const [currentLanguage, setCurrentLanguage] = useState(i18n.language);
   const [showQuiz, setShowQuiz] = useState(false);
+  const [quizResume, setQuizResume] = useState<QuizProgress | null>(null);
+  const [chatPlatform, setChatPlatform] = useState<ChatPlatform>(getInitialPlatform);
+  const [theirTimeZone, setTheirTimeZone] = useState<string | null>(null);
+  const [sendTime, setSendTime] = useState<SendTime | null>(null);
+  const [galleryIndex, setGalleryIndex] = useState(0);
+  const galleryRef = useRef<HTMLDivElement>(null);
   
   useEffect(() => {
     const handleLanguageChange = (lng: string) => {
@@ -22,6 +54,11 @@ function App() {
     };
   }, []);
 
+  const handlePlatformChange = (platform: ChatPlatform) => {
+    setChatPlatform(platform);
+    localStorage.setItem(CHAT_PLATFORM_STORAGE_KEY, platform);
+  };
+
   // Memoize translations to prevent recalculation on every render
   const translations = useMemo(() => ({
     intro: i18n.t('intro'),
@@ -39,11 +76,66 @@ function App() {
     badExamples: i18n.t('examples.bad', { returnObjects: true }) as string[],
     goodExamples: i18n.t('examples.good', { returnObjects: true }) as string[],
     benefits: i18n.t('solution.benefits', { returnObjects: true }) as string[],
+    linterTitle: i18n.t('linter.title'),
+    linterDescription: i18n.t('linter.description'),
+    mergeTitle: i18n.t('merge.title'),
+    mergeDescription: i18n.t('merge.description'),
     quizCtaTitle: i18n.t('quiz.cta.title'),
     quizCtaDescription: i18n.t('quiz.cta.description'),
     quizCtaButton: i18n.t('quiz.cta.button'),
+    quizCtaResume: i18n.t('quiz.cta.resume'),
+    quizCtaStartOver: i18n.t('quiz.cta.startOver'),
+    builderLink: i18n.t('builder.link'),
+    pathTitle: i18n.t('path.title'),
+    pathDescription: i18n.t('path.description'),
   }), [currentLanguage]); // Re-compute only when language changes
 
+  // Cards that fail validation are left out, so their openers stay plain quotes
+  const galleryCards = useMemo(() => parseAntiPatternGallery(
+    i18n.t('examples.gallery.cards', { returnObjects: true }),
+    { badCount: translations.badExamples.length, goodCount: translations.goodExamples.length }
+  ).cards, [translations]);
+
+  // A quiz left unfinished, read again whenever the quiz is closed
+  const quizPool = useMemo(() => toQuizQuestions(i18n.t('quiz.questions', { returnObjects: true })), [currentLanguage]);
+  const savedQuizProgress = useMemo(() => (showQuiz ? null : loadQuizProgress(quizPool)), [quizPool, showQuiz]);
+
+  const startQuiz = (progress: QuizProgress | null) => {
+    if (!progress) clearQuizProgress();
+    setQuizResume(progress);
+    setShowQuiz(true);
+  };
+
+  const openGalleryCard = (cardIndex: number) => {
+    setGalleryIndex(cardIndex);
+    galleryRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'start' });
+  };
+
+  // The conversation builder is its own page, with the conversations in the URL hash
+  if (isBuilderPath(window.location.pathname)) {
+    return (
+      <div className="min-h-screen transition-colors duration-[500ms] ease-in-out" style={{ backgroundColor: 'var(--color-bg-primary)', color: 'var(--color-text-primary)' }}>
+        <ControlsBar />
+        <main className="max-w-5xl mx-auto px-4 py-12 md:py-20 pb-24 md:pb-20 relative">
+          <ConversationBuilder />
+        </main>
+      </div>
+    );
+  }
+
+  // Quiz certificates are checked on their own page, with the code in the path
+  const verifyCode = getVerifyCode(window.location.pathname);
+  if (verifyCode !== null) {
+    return (
+      <div className="min-h-screen transition-colors duration-[500ms] ease-in-out" style={{ backgroundColor: 'var(--color-bg-primary)', color: 'var(--color-text-primary)' }}>
+        <ControlsBar />
+        <main className="max-w-5xl mx-auto px-4 py-12 md:py-20 pb-24 md:pb-20 relative">
+          <CertificateVerification code={verifyCode} />
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen transition-colors duration-[500ms] ease-in-out" style={{ backgroundColor: 'var(--color-bg-primary)', color: 'var(--color-text-primary)' }}>
       <ControlsBar />
@@ -69,7 +161,7 @@ function App() {
           </p>
         </header>
 
-        <section className="mb-16 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>
+        <section id="problem" className="mb-16 scroll-mt-8 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>
           <h2 className="text-4xl md:text-5xl font-bold mb-8 text-gray-900 dark:text-gray-100 flex items-center gap-3">
             <span className="text-5xl">💬</span>
             {translations.problemTitle}
@@ -78,13 +170,44 @@ function App() {
             {translations.problemDescription}
           </p>
           
+          <div className="flex flex-wrap items-start gap-x-8">
+            <PlatformSwitcher value={chatPlatform} onChange={handlePlatformChange} />
+            <TimeZoneSwitcher value={theirTimeZone} onChange={setTheirTimeZone} />
+            <SendTimeSimulator value={sendTime} onChange={setSendTime} />
+          </div>
           <div className="grid md:grid-cols-2 gap-8 mb-8">
-            <ChatExample type="bad" />
-            <ChatExample type="good" />
+            <div>
+              <ChatExample type="bad" platform={chatPlatform} theirTimeZone={theirTimeZone} sendTime={sendTime} />
+              <NotificationPreview type="bad" platform={chatPlatform} />
+            </div>
+            <div>
+              <ChatExample type="good" platform={chatPlatform} theirTimeZone={theirTimeZone} sendTime={sendTime} />
+              <NotificationPreview type="good" platform={chatPlatform} />
+            </div>
+          </div>
+          <ChatComparisonTimeline sendTime={sendTime} />
+          <a
+            href={BUILDER_PATH}
+            className="inline-block text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-semibold underline decoration-2 underline-offset-4"
+          >
+            ✏️ {translations.builderLink}
+          </a>
+        </section>
+
+        <section id="path" className="mb-16 scroll-mt-8 animate-fade-in-up" style={{ animationDelay: '0.15s' }}>
+          <h2 className="text-4xl md:text-5xl font-bold mb-8 text-gray-900 dark:text-gray-100 flex items-center gap-3">
+            <span className="text-5xl">🧭</span>
+            {translations.pathTitle}
+          </h2>
+          <p className="text-xl mb-8 text-gray-700 dark:text-gray-300 leading-relaxed max-w-3xl">
+            {translations.pathDescription}
+          </p>
+          <div className="max-w-2xl">
+            <ConversationPath platform={chatPlatform} sendTime={sendTime} />
           </div>
         </section>
 
-        <section className="mb-16 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
+        <section id="solution" className="mb-16 scroll-mt-8 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
           <h2 className="text-4xl md:text-5xl font-bold mb-8 text-gray-900 dark:text-gray-100 flex items-center gap-3">
             <span className="text-5xl">✨</span>
             {translations.solutionTitle}
@@ -107,7 +230,7 @@ function App() {
           </div>
         </section>
 
-        <section className="mb-16 animate-fade-in-up" style={{ animationDelay: '0.3s' }}>
+        <section id="examples" className="mb-16 scroll-mt-8 animate-fade-in-up" style={{ animationDelay: '0.3s' }}>
           <h2 className="text-4xl md:text-5xl font-bold mb-10 text-gray-900 dark:text-gray-100 flex items-center gap-3">
             <span className="text-5xl">📝</span>
             {translations.examplesTitle}
@@ -120,14 +243,27 @@ function App() {
                 {translations.badTitle}
               </h3>
               <ul className="space-y-3">
-                {translations.badExamples.map((example, index) => (
-                  <li
-                    key={index}
-                    className="p-4 bg-gradient-to-r from-red-50 to-red-100/50 dark:from-red-900/20 dark:to-red-800/10 rounded-xl border-l-4 border-red-500 shadow-sm hover:shadow-md transition-all duration-200 hover:translate-x-1"
-                  >
-                    <span className="text-gray-800 dark:text-gray-200 italic">"{example}"</span>
-                  </li>
-                ))}
+                {translations.badExamples.map((example, index) => {
+                  const cardIndex = galleryCards.findIndex((card) => card.bad === index);
+                  const quote = <span className="text-gray-800 dark:text-gray-200 italic">"{example}"</span>;
+
+                  return (
+                    <li
+                      key={index}
+                      className="p-4 bg-gradient-to-r rtl:bg-gradient-to-l from-red-50 to-red-100/50 dark:from-red-900/20 dark:to-red-800/10 rounded-xl border-s-4 border-red-500 shadow-sm hover:shadow-md transition-all duration-200 hover:translate-x-1 rtl:hover:-translate-x-1"
+                    >
+                      {cardIndex === -1 ? quote : (
+                        <button
+                          type="button"
+                          onClick={() => openGalleryCard(cardIndex)}
+                          className="w-full text-start cursor-pointer"
+                        >
+                          {quote}
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
               </ul>
             </div>
             
@@ -140,14 +276,45 @@ function App() {
                 {translations.goodExamples.map((example, index) => (
                   <li
                     key={index}
-                    className="p-4 bg-gradient-to-r from-green-50 to-green-100/50 dark:from-green-900/20 dark:to-green-800/10 rounded-xl border-l-4 border-green-500 shadow-sm hover:shadow-md transition-all duration-200 hover:translate-x-1"
+                    className="p-4 bg-gradient-to-r rtl:bg-gradient-to-l from-green-50 to-green-100/50 dark:from-green-900/20 dark:to-green-800/10 rounded-xl border-s-4 border-green-500 shadow-sm hover:shadow-md transition-all duration-200 hover:translate-x-1 rtl:hover:-translate-x-1"
                   >
-                    <span className="text-gray-800 dark:text-gray-200 italic">"{example}"</span>
+                    <span className="text-gray-800 dark:text-gray-200 italic">"<ChatMarkup text={example} />"</span>
                   </li>
                 ))}
               </ul>
             </div>
           </div>
+
+          <div ref={galleryRef} className="scroll-mt-8">
+            <AntiPatternGallery
+              cards={galleryCards}
+              index={galleryIndex}
+              onIndexChange={setGalleryIndex}
+              platform={chatPlatform}
+            />
+          </div>
+        </section>
+
+        <section id="linter" className="mb-16 scroll-mt-8 animate-fade-in-up" style={{ animationDelay: '0.35s' }}>
+          <h2 className="text-4xl md:text-5xl font-bold mb-8 text-gray-900 dark:text-gray-100 flex items-center gap-3">
+            <span className="text-5xl">🔍</span>
+            {translations.linterTitle}
+          </h2>
+          <p className="text-xl mb-8 text-gray-700 dark:text-gray-300 leading-relaxed max-w-3xl">
+            {translations.linterDescription}
+          </p>
+          <MessageLinter />
+        </section>
+
+        <section id="merge" className="mb-16 scroll-mt-8 animate-fade-in-up" style={{ animationDelay: '0.375s' }}>
+          <h2 className="text-4xl md:text-5xl font-bold mb-8 text-gray-900 dark:text-gray-100 flex items-center gap-3">
+            <span className="text-5xl">🧩</span>
+            {translations.mergeTitle}
+          </h2>
+          <p className="text-xl mb-8 text-gray-700 dark:text-gray-300 leading-relaxed max-w-3xl">
+            {translations.mergeDescription}
+          </p>
+          <MessageMerge />
         </section>
 
         {/* Quiz CTA Section */}
@@ -161,12 +328,37 @@ function App() {
               <p className="text-lg md:text-xl mb-8 text-gray-700 dark:text-gray-300 max-w-2xl mx-auto">
                 {translations.quizCtaDescription}
               </p>
-              <button
-                onClick={() => setShowQuiz(true)}
-                className="px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold text-lg rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl hover:scale-105 transform cursor-pointer"
-              >
-                {translations.quizCtaButton}
-              </button>
+              {savedQuizProgress ? (
+                <>
+                  <p className="mb-4 font-semibold text-gray-800 dark:text-gray-200" data-testid="quiz-resume-prompt">
+                    {i18n.t('quiz.cta.resumePrompt', {
+                      current: savedQuizProgress.currentQuestionIndex + 1,
+                      total: Math.min(QUIZ_QUESTION_COUNT, quizPool.length),
+                    })}
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-3">
+                    <button
+                      onClick={() => startQuiz(savedQuizProgress)}
+                      className="px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold text-lg rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl hover:scale-105 transform cursor-pointer"
+                    >
+                      {translations.quizCtaResume}
+                    </button>
+                    <button
+                      onClick={() => startQuiz(null)}
+                      className="px-8 py-4 bg-white dark:bg-gray-800 border-2 border-blue-600 text-blue-600 dark:text-blue-400 font-bold text-lg rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl cursor-pointer"
+                    >
+                      {translations.quizCtaStartOver}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <button
+                  onClick={() => startQuiz(null)}
+                  className="px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold text-lg rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl hover:scale-105 transform cursor-pointer"
+                >
+                  {translations.quizCtaButton}
+                </button>
+              )}
             </div>
           </div>
         </section>
@@ -190,7 +382,7 @@ function App() {
       </main>
 
       {/* Quiz Modal */}
-      {showQuiz && <Quiz onClose={() => setShowQuiz(false)} />}
+      {showQuiz && <Quiz savedProgress={quizResume} onClose={() => setShowQuiz(false)} />}
     </div>
   );
 }
@@ -1,8 +1,13 @@
-import { describe, it, expect } from 'vitest';
-import { render, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import App from '../App';
 import i18n from '../i18n/config';
+import { LANDING_SECTIONS } from '../data/landingSections';
+import { buildQuizSession, toQuizQuestions } from '../utils/quizSession';
+import { QUIZ_PROGRESS_STORAGE_KEY, QUIZ_PROGRESS_VERSION, getQuestionSetFingerprint } from '../utils/quizProgress';
+import en from '../i18n/locales/en.json';
 
 const createTestQueryClient = () => {
   return new QueryClient({
@@ -25,6 +30,10 @@ const TestWrapper = ({ children }: { children: React.ReactNode }) => {
 };
 
 describe('App', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
   it('should render', async () => {
     render(
       <TestWrapper>
@@ -89,5 +98,192 @@ describe('App', () => {
       expect(document.body).toBeTruthy();
     });
   });
-});
 
+  it('should remember the selected chat platform', async () => {
+    const user = userEvent.setup();
+    render(
+      <TestWrapper>
+        <App />
+      </TestWrapper>
+    );
+
+    await user.click(screen.getByRole('radio', { name: 'Discord' }));
+
+    expect(screen.getByRole('radio', { name: 'Discord' })).toHaveAttribute('aria-checked', 'true');
+    expect(localStorage.getItem('chatPlatform')).toBe('discord');
+  });
+
+  it('should restore the chat platform from localStorage', () => {
+    localStorage.setItem('chatPlatform', 'whatsapp');
+    render(
+      <TestWrapper>
+        <App />
+      </TestWrapper>
+    );
+
+    expect(screen.getByRole('radio', { name: 'WhatsApp' })).toHaveAttribute('aria-checked', 'true');
+  });
+
+  it('should ignore unknown saved chat platforms', () => {
+    localStorage.setItem('chatPlatform', 'myspace');
+    render(
+      <TestWrapper>
+        <App />
+      </TestWrapper>
+    );
+
+    expect(screen.getByRole('radio', { name: 'Slack' })).toHaveAttribute('aria-checked', 'true');
+  });
+
+  it('should format the good examples', () => {
+    i18n.changeLanguage('en');
+    render(
+      <TestWrapper>
+        <App />
+      </TestWrapper>
+    );
+
+    // The gallery shows the same rewrite further down
+    const [step] = screen.getAllByText('step 3');
+    expect(step.tagName).toBe('STRONG');
+    expect(step.closest('li')).toHaveTextContent("It's failing on step 3.");
+  });
+
+  it('should open the gallery card for a bad example', async () => {
+    i18n.changeLanguage('en');
+    const user = userEvent.setup();
+    render(
+      <TestWrapper>
+        <App />
+      </TestWrapper>
+    );
+
+    await user.click(screen.getByRole('button', { name: '"Got a minute?"' }));
+
+    const card = screen.getByTestId('gallery-card');
+    expect(card).toHaveAccessibleName('4 of 6');
+    expect(card).toHaveTextContent('Nobody can promise a minute');
+  });
+
+  it('should link to the conversation builder', () => {
+    i18n.changeLanguage('en');
+    render(
+      <TestWrapper>
+        <App />
+      </TestWrapper>
+    );
+
+    expect(screen.getByRole('link', { name: /write your own conversations/i })).toHaveAttribute('href', '/builder');
+  });
+
+  it('should have a section for every quiz "learn more" link', () => {
+    i18n.changeLanguage('en');
+    const { container } = render(
+      <TestWrapper>
+        <App />
+      </TestWrapper>
+    );
+
+    LANDING_SECTIONS.forEach((section) => {
+      expect(container.querySelector(`section#${section}`)).toHaveTextContent(i18n.t(`${section}.title`));
+    });
+  });
+
+  it('should check certificates on their own page', () => {
+    i18n.changeLanguage('en');
+    window.history.replaceState(null, '', '/verify/ABCD-1234-WXYZ');
+    try {
+      render(
+        <TestWrapper>
+          <App />
+        </TestWrapper>
+      );
+
+      expect(screen.getByRole('heading', { level: 1, name: 'Check a Certificate' })).toBeInTheDocument();
+      expect(screen.getByText('ABCD-1234-WXYZ')).toBeInTheDocument();
+    } finally {
+      window.history.replaceState(null, '', '/');
+    }
+  });
+
+  describe('quiz resume', () => {
+    const pool = toQuizQuestions(en.quiz.questions);
+    const session = buildQuizSession(pool, { seed: 6 });
+    const saveQuiz = (fingerprint = getQuestionSetFingerprint(pool)) => {
+      localStorage.setItem(QUIZ_PROGRESS_STORAGE_KEY, JSON.stringify({
+        version: QUIZ_PROGRESS_VERSION,
+        fingerprint,
+        seed: 6,
+        currentQuestionIndex: 2,
+        answers: [],
+        answeredQuestionIds: [session[0].id, session[1].id],
+        results: [],
+        pendingQuestionIndex: null,
+        currentQuestionTimeMs: 0,
+      }));
+    };
+
+    it('should offer to resume an unfinished quiz', async () => {
+      i18n.changeLanguage('en');
+      saveQuiz();
+      const user = userEvent.setup();
+      render(
+        <TestWrapper>
+          <App />
+        </TestWrapper>
+      );
+
+      expect(screen.getByTestId('quiz-resume-prompt')).toHaveTextContent(`You stopped at question 3 of ${session.length}.`);
+      await user.click(screen.getByRole('button', { name: 'Resume Where You Left Off' }));
+
+      expect(screen.getByText(session[2].question)).toBeInTheDocument();
+    });
+
+    it('should start a new quiz over a saved one', async () => {
+      i18n.changeLanguage('en');
+      saveQuiz();
+      const user = userEvent.setup();
+      render(
+        <TestWrapper>
+          <App />
+        </TestWrapper>
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Start Over' }));
+
+      expect(screen.getByText(`Question 1 of ${session.length}`, { selector: 'span' })).toBeInTheDocument();
+      expect(JSON.parse(localStorage.getItem(QUIZ_PROGRESS_STORAGE_KEY)!).currentQuestionIndex).toBe(0);
+    });
+
+    it('should discard a quiz saved for another question set', () => {
+      i18n.changeLanguage('en');
+      saveQuiz('single:4:1');
+      render(
+        <TestWrapper>
+          <App />
+        </TestWrapper>
+      );
+
+      expect(screen.queryByTestId('quiz-resume-prompt')).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Start Quiz' })).toBeInTheDocument();
+      expect(localStorage.getItem(QUIZ_PROGRESS_STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  it('should show the conversation builder on its own page', () => {
+    i18n.changeLanguage('en');
+    window.history.replaceState(null, '', '/builder');
+    try {
+      render(
+        <TestWrapper>
+          <App />
+        </TestWrapper>
+      );
+
+      expect(screen.getByRole('heading', { level: 1, name: 'Conversation Builder' })).toBeInTheDocument();
+      expect(screen.queryByRole('radio', { name: 'Slack' })).not.toBeInTheDocument();
+    } finally {
+      window.history.replaceState(null, '', '/');
+    }
+  });
+});
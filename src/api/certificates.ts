@@ -0,0 +1,39 @@
+import type { CertificateRequest } from '../utils/certificate';
+import type { QuizCertificate } from '../types/quiz';
+
+export interface IssuedCertificate {
+  code: string;
+  date: string; // The server's date, which the code signs
+  score: number; // The server's grading of the answers, which the code signs
+  total: number;
+}
+
+/**
+ * Asks the certificates Pages Function to grade the session and sign a certificate.
+ * There is no function in `npm run dev`; use `npm run pages:dev` to try it locally.
+ */
+export async function issueCertificate({ name, seed, answers }: CertificateRequest): Promise<IssuedCertificate> {
+  const response = await fetch('/certificates', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, seed, answers }),
+  });
+  if (!response.ok) {
+    throw new Error(`Certificate request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Whether the code was issued for exactly these details
+export async function checkCertificate(certificate: QuizCertificate, code: string): Promise<boolean> {
+  const response = await fetch('/certificates/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...certificate, code }),
+  });
+  if (!response.ok) {
+    throw new Error(`Certificate check failed: ${response.status}`);
+  }
+  const { valid } = await response.json();
+  return valid === true;
+}
@@ -0,0 +1,112 @@
+import { memo, useId, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChatExample } from './ChatExample';
+import { DEFAULT_CHAT_PLATFORM } from '../data/chatPlatforms';
+import type { AntiPatternCard, ChatPlatform, ConversationMessage } from '../types/chat';
+
+interface AntiPatternGalleryProps {
+  cards: AntiPatternCard[];
+  index: number; // The card on show
+  onIndexChange: (index: number) => void;
+  platform?: ChatPlatform;
+}
+
+const navButtonClassName =
+  'px-4 py-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white/70 dark:bg-gray-800/70 text-gray-800 dark:text-gray-200 hover:border-blue-500 dark:hover:border-blue-400 transition-colors duration-200 cursor-pointer';
+
+/**
+ * A carousel of the bad openers, each with the conversation it leads to,
+ * why it hurts and the message to send instead
+ */
+export const AntiPatternGallery = memo(function AntiPatternGallery({
+  cards,
+  index,
+  onIndexChange,
+  platform = DEFAULT_CHAT_PLATFORM,
+}: AntiPatternGalleryProps) {
+  const { t, i18n } = useTranslation();
+  const titleId = useId();
+  const language = i18n.language;
+
+  const openers = useMemo(() => t('examples.bad', { returnObjects: true }) as string[], [t, language]);
+  const rewrites = useMemo(() => t('examples.good', { returnObjects: true }) as string[], [t, language]);
+
+  const current = cards.length > 0 ? ((index % cards.length) + cards.length) % cards.length : 0;
+  const card: AntiPatternCard | undefined = cards[current];
+  const rewrite = useMemo<ConversationMessage[]>(
+    () => (card ? [{ sender: 'you', text: rewrites[card.good] }] : []),
+    [card, rewrites]
+  );
+
+  if (!card) {
+    return null;
+  }
+
+  const slideLabel = (slide: number) => t('examples.gallery.slide', { index: slide + 1, count: cards.length });
+
+  return (
+    <section
+      data-testid="anti-pattern-gallery"
+      aria-roledescription="carousel"
+      aria-labelledby={titleId}
+      className="mt-12"
+    >
+      <h3 id={titleId} className="text-2xl font-bold mb-6 text-gray-900 dark:text-gray-100">
+        {t('examples.gallery.title')}
+      </h3>
+
+      <div
+        key={current}
+        role="group"
+        aria-roledescription="slide"
+        aria-label={slideLabel(current)}
+        data-testid="gallery-card"
+        className="p-6 rounded-2xl border-2 border-gray-200 dark:border-gray-700 bg-white/60 dark:bg-gray-900/40 shadow-sm animate-fade-in"
+      >
+        <p className="text-3xl font-bold italic mb-4 text-red-600 dark:text-red-400">"{openers[card.bad]}"</p>
+        <h4 className="font-semibold text-gray-900 dark:text-gray-100">{t('examples.gallery.whyTitle')}</h4>
+        <p data-testid="gallery-why" className="mb-6 text-gray-700 dark:text-gray-300 leading-relaxed">
+          {card.why}
+        </p>
+        <div className="grid md:grid-cols-2 gap-6">
+          <ChatExample type="bad" platform={platform} messages={card.messages} />
+          <div>
+            <h4 className="font-semibold mb-3 text-green-600 dark:text-green-400">{t('examples.gallery.insteadTitle')}</h4>
+            <ChatExample type="good" platform={platform} messages={rewrite} />
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-center justify-center gap-3">
+        <button
+          type="button"
+          onClick={() => onIndexChange((current - 1 + cards.length) % cards.length)}
+          className={navButtonClassName}
+        >
+          <span aria-hidden="true" className="inline-block rtl:-scale-x-100">←</span> {t('examples.gallery.previous')}
+        </button>
+        <div className="flex gap-2">
+          {cards.map((_, slide) => (
+            <button
+              key={slide}
+              type="button"
+              aria-label={slideLabel(slide)}
+              aria-current={slide === current}
+              onClick={() => onIndexChange(slide)}
+              className={`w-3 h-3 rounded-full cursor-pointer transition-colors duration-200 ${
+                slide === current ? 'bg-blue-600 dark:bg-blue-400' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+            />
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onIndexChange((current + 1) % cards.length)}
+          className={navButtonClassName}
+        >
+          {t('examples.gallery.next')} <span aria-hidden="true" className="inline-block rtl:-scale-x-100">→</span>
+        </button>
+      </div>
+    </section>
+  );
+});
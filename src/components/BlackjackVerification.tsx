@@ -4,7 +4,7 @@ import i18n from '../i18n/config';
 import type { BlackjackGameState, BlackjackHand } from '../types/quiz';
 
 interface BlackjackVerificationProps {
-  onVerificationPassed: () => void;
+  onVerificationPassed: (rounds: number) => void; // Hands dealt, including the one that was won
 }
 
 // Get a random card value (1-13, where 1 is Ace, 11-13 are face cards worth 10)
@@ -53,6 +53,7 @@ function createHand(): BlackjackHand {
 export function BlackjackVerification({ onVerificationPassed }: BlackjackVerificationProps) {
   const { t } = useTranslation();
   const [currentLanguage, setCurrentLanguage] = useState(i18n.language);
+  const [rounds, setRounds] = useState(1);
   
   // Subscribe to language changes
   useEffect(() => {
@@ -198,7 +199,7 @@ export function BlackjackVerification({ onVerificationPassed }: BlackjackVerific
     if (gameState.gameStatus === 'player-won') {
       // Player won, verification passed
       const timer = setTimeout(() => {
-        onVerificationPassed();
+        onVerificationPassed(rounds);
       }, 1500);
       return () => clearTimeout(timer);
     } else if (gameState.gameStatus === 'dealer-won' || gameState.gameStatus === 'tie') {
@@ -212,10 +213,11 @@ export function BlackjackVerification({ onVerificationPassed }: BlackjackVerific
           gameStatus: 'playing',
           isDealerRevealed: false,
         });
+        setRounds(prev => prev + 1);
       }, 2000);
       return () => clearTimeout(timer);
     }
-  }, [gameState.gameStatus, onVerificationPassed]);
+  }, [gameState.gameStatus, onVerificationPassed, rounds]);
 
   const renderCard = (value: number, index: number) => {
     let displayValue: string;
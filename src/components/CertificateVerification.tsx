@@ -0,0 +1,176 @@
+import { useId, useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { checkCertificate } from '../api/certificates';
+import {
+  CERTIFICATE_NAME_MAX_LENGTH,
+  formatCertificateCode,
+  isCertificateCode,
+  parseCertificateClaims,
+  readVerifyClaims,
+} from '../utils/certificate';
+import type { QuizCertificate } from '../types/quiz';
+
+interface CertificateVerificationProps {
+  code: string; // From the /verify/:code path
+}
+
+type CertificateFields = Record<'name' | 'score' | 'total' | 'date', string>;
+
+const toFields = (certificate: QuizCertificate | null): CertificateFields => ({
+  name: certificate?.name ?? '',
+  score: certificate ? String(certificate.score) : '',
+  total: certificate ? String(certificate.total) : '',
+  date: certificate?.date ?? '',
+});
+
+/**
+ * Checks a certificate against its code. A link from the quiz carries the details and is checked
+ * straight away; the short link printed on the certificate asks for them instead.
+ */
+export function CertificateVerification({ code }: CertificateVerificationProps) {
+  const { t, i18n } = useTranslation();
+  const formId = useId();
+  const [checked, setChecked] = useState<QuizCertificate | null>(() => readVerifyClaims(window.location.search));
+  const [fields, setFields] = useState<CertificateFields>(() => toFields(checked));
+  const [hasImpossibleDetails, setHasImpossibleDetails] = useState(false);
+  const isValidCode = isCertificateCode(code);
+
+  const { data: isValid, isFetching, isError } = useQuery({
+    queryKey: ['certificate', code, checked],
+    queryFn: () => checkCertificate(checked!, code),
+    enabled: isValidCode && checked !== null,
+    retry: false,
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    // Details no certificate could have, e.g. a score above the total, can't match any code
+    const certificate = parseCertificateClaims({
+      name: fields.name,
+      score: fields.score === '' ? NaN : Number(fields.score),
+      total: fields.total === '' ? NaN : Number(fields.total),
+      date: fields.date,
+    });
+    setHasImpossibleDetails(certificate === null);
+    setChecked(certificate);
+  };
+
+  const setField = (field: keyof CertificateFields, value: string) => setFields((prev) => ({ ...prev, [field]: value }));
+
+  const inputClass =
+    'mt-1 block w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 font-normal';
+  const labelClass = 'block text-sm font-semibold text-gray-700 dark:text-gray-300';
+  const resultClass = 'p-4 rounded-xl';
+  const failedClass = 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400';
+
+  const renderResult = () => {
+    if (!hasImpossibleDetails) {
+      if (!checked) return null;
+      if (isFetching) {
+        return <p role="status" className="text-gray-600 dark:text-gray-400">{t('verify.checking')}</p>;
+      }
+      if (isError) {
+        return <p role="alert" className={`${resultClass} ${failedClass}`}>{t('verify.failed')}</p>;
+      }
+      if (isValid) {
+        const date = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'long', timeZone: 'UTC' }).format(
+          new Date(`${checked.date}T00:00:00Z`)
+        );
+        return (
+          <p role="status" className={`${resultClass} bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 font-semibold`}>
+            ✓ {t('verify.valid', { name: checked.name, score: checked.score, total: checked.total, date })}
+          </p>
+        );
+      }
+    }
+    return <p role="alert" className={`${resultClass} ${failedClass}`}>✗ {t('verify.invalid')}</p>;
+  };
+
+  return (
+    <div className="animate-fade-in max-w-2xl">
+      <a
+        href="/"
+        className="inline-block mb-8 text-blue-600 dark:text-blue-400 hover:underline font-semibold"
+      >
+        <span aria-hidden="true" className="inline-block rtl:-scale-x-100">←</span> {t('verify.back')}
+      </a>
+      <h1 className="text-4xl md:text-5xl font-bold mb-6 text-gray-900 dark:text-gray-100">
+        {t('verify.title')}
+      </h1>
+
+      {!isValidCode ? (
+        <p role="alert" className={`${resultClass} ${failedClass}`}>
+          {t('verify.badCode')}
+        </p>
+      ) : (
+        <>
+          <p className="text-xl mb-8 text-gray-700 dark:text-gray-300 leading-relaxed">{t('verify.description')}</p>
+          <p className="mb-6 text-lg text-gray-800 dark:text-gray-200">
+            {t('verify.code')}: <span className="font-mono font-bold">{formatCertificateCode(code)}</span>
+          </p>
+
+          <form onSubmit={handleSubmit} className="grid sm:grid-cols-2 gap-4 mb-8">
+            <label htmlFor={`${formId}-name`} className={`${labelClass} sm:col-span-2`}>
+              {t('verify.name')}
+              <input
+                id={`${formId}-name`}
+                type="text"
+                required
+                maxLength={CERTIFICATE_NAME_MAX_LENGTH}
+                value={fields.name}
+                onChange={(e) => setField('name', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label htmlFor={`${formId}-score`} className={labelClass}>
+              {t('verify.score')}
+              <input
+                id={`${formId}-score`}
+                type="number"
+                min={0}
+                required
+                value={fields.score}
+                onChange={(e) => setField('score', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label htmlFor={`${formId}-total`} className={labelClass}>
+              {t('verify.total')}
+              <input
+                id={`${formId}-total`}
+                type="number"
+                min={1}
+                required
+                value={fields.total}
+                onChange={(e) => setField('total', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label htmlFor={`${formId}-date`} className={labelClass}>
+              {t('verify.date')}
+              <input
+                id={`${formId}-date`}
+                type="date"
+                required
+                value={fields.date}
+                onChange={(e) => setField('date', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl transition-colors duration-200 shadow-md cursor-pointer"
+              >
+                {t('verify.submit')}
+              </button>
+            </div>
+          </form>
+
+          <div aria-live="polite">{renderResult()}</div>
+        </>
+      )}
+    </div>
+  );
+}
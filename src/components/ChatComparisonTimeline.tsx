@@ -0,0 +1,164 @@
+import { memo, useId, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { parseConversation } from '../utils/conversationSchema';
+import { scheduleConversation } from '../utils/chatTimeline';
+import { buildComparisonTimeline } from '../utils/chatComparison';
+import { formatElapsed } from '../utils/chatPlayback';
+import { createWorkingCalendar, type WorkingCalendar } from '../utils/workingCalendar';
+import type { ConversationType, SendTime } from '../types/chat';
+
+interface ChatComparisonTimelineProps {
+  calendar?: WorkingCalendar; // Defaults to the current language's working week
+  sendTime?: SendTime | null; // Replay both conversations from when the first message was sent
+}
+
+const CONVERSATION_TYPES: ConversationType[] = ['bad', 'good'];
+
+const trackColors: Record<ConversationType, string> = {
+  bad: 'var(--color-chat-bad-text)',
+  good: 'var(--color-chat-good-text)',
+};
+
+const percent = (fraction: number) => `${fraction * 100}%`;
+
+export const ChatComparisonTimeline = memo(function ChatComparisonTimeline({
+  calendar,
+  sendTime = null,
+}: ChatComparisonTimelineProps) {
+  const { t, i18n } = useTranslation();
+  const titleId = useId();
+  const language = i18n.language;
+
+  // Both conversations are timed exactly like the chat examples above
+  const timeline = useMemo(() => {
+    const workingCalendar = calendar ?? createWorkingCalendar(language);
+    const conversations = Object.fromEntries(CONVERSATION_TYPES.map((type) => {
+      const { messages } = parseConversation(t(`problem.example.${type}.messages`, { returnObjects: true }));
+      return [type, scheduleConversation(messages, sendTime, workingCalendar)];
+    }));
+    return buildComparisonTimeline(conversations);
+  }, [t, language, calendar, sendTime]);
+
+  const pointFormat = useMemo(
+    () => new Intl.DateTimeFormat(language, { weekday: 'short', hour: 'numeric', minute: '2-digit' }),
+    [language]
+  );
+
+  // Real dates when both conversations start on the same day, otherwise "Day 1", "Day 2"…
+  const dayLabels = useMemo(() => Array.from({ length: timeline.dayCount }, (_, index) => {
+    if (!timeline.sharedStart) {
+      return t('chat.comparison.day', { count: index + 1 });
+    }
+    const day = new Date(timeline.sharedStart);
+    day.setDate(day.getDate() + index);
+    return new Intl.DateTimeFormat(language, { weekday: 'short', day: 'numeric' }).format(day);
+  }), [timeline, t, language]);
+
+  return (
+    <section
+      data-testid="chat-comparison"
+      aria-labelledby={titleId}
+      className="mb-8 p-6 rounded-2xl border-2 border-gray-200 dark:border-gray-700 bg-white/60 dark:bg-gray-800/60 shadow-lg"
+    >
+      <h3 id={titleId} className="text-xl font-bold mb-1 text-gray-900 dark:text-gray-100">
+        {t('chat.comparison.title')}
+      </h3>
+      <p className="text-sm mb-6 text-gray-600 dark:text-gray-400">
+        {t('chat.comparison.description')}
+      </p>
+
+      {timeline.tracks.map((track) => {
+        const color = trackColors[track.type];
+        const title = t(`problem.example.${track.type}.title`);
+        const lastPosition = Math.max(0, ...track.points.map((point) => point.position));
+
+        return (
+          <div key={track.type} data-testid="comparison-track" data-type={track.type} className="mb-6">
+            <div className="flex flex-wrap justify-between gap-2 text-sm font-semibold mb-1">
+              <span style={{ color }}>{title}</span>
+              <span data-testid="comparison-summary" className="text-gray-600 dark:text-gray-400">
+                {track.answerElapsedMs === null
+                  ? t('chat.comparison.notAnswered')
+                  : t('chat.comparison.answeredAfter', { elapsed: formatElapsed(track.answerElapsedMs, language) })}
+              </span>
+            </div>
+            <div className="relative h-16">
+              {/* Day columns */}
+              {dayLabels.map((_, index) => index > 0 && (
+                <div
+                  key={index}
+                  aria-hidden="true"
+                  className="absolute top-0 bottom-0 border-s border-dashed border-gray-300 dark:border-gray-600"
+                  style={{ insetInlineStart: percent(index / timeline.dayCount) }}
+                />
+              ))}
+              {/* Time from the first message to the last */}
+              <div
+                aria-hidden="true"
+                className="absolute top-1/2 h-1 -translate-y-1/2 rounded-full opacity-40"
+                style={{ insetInlineStart: 0, width: percent(lastPosition), backgroundColor: color }}
+              />
+              <ol aria-label={title} className="absolute inset-0 list-none m-0 p-0">
+                {track.points.map((point) => {
+                  const isQuestion = point.index === track.questionIndex;
+                  const isAnswer = point.index === track.answerIndex;
+                  const time = pointFormat.format(point.sentAt);
+
+                  return (
+                    <li
+                      key={point.index}
+                      data-testid="comparison-point"
+                      data-sender={point.sender}
+                      title={`${time} · ${point.text}`}
+                      className="absolute top-1/2 -translate-x-1/2 rtl:translate-x-1/2 -translate-y-1/2"
+                      style={{ insetInlineStart: percent(point.position) }}
+                    >
+                      <span
+                        aria-hidden="true"
+                        className="block w-3 h-3 rounded-full border-2"
+                        style={{
+                          borderColor: color,
+                          backgroundColor: point.sender === 'you' ? color : 'var(--color-bg-primary)',
+                        }}
+                      />
+                      <span className="sr-only">{`${time}: ${point.text}`}</span>
+                      {isQuestion && (
+                        <span
+                          data-testid="comparison-question"
+                          className="absolute bottom-full start-1/2 -translate-x-1/2 rtl:translate-x-1/2 mb-1 text-xs font-semibold whitespace-nowrap text-gray-700 dark:text-gray-300"
+                        >
+                          ❓ {t('chat.comparison.question')}
+                        </span>
+                      )}
+                      {isAnswer && (
+                        <span
+                          data-testid="comparison-answer"
+                          className="absolute top-full start-1/2 -translate-x-1/2 rtl:translate-x-1/2 mt-1 text-xs font-semibold whitespace-nowrap text-gray-700 dark:text-gray-300"
+                        >
+                          ✅ {t('chat.comparison.answer')}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          </div>
+        );
+      })}
+
+      <div aria-hidden="true" className="relative h-5 border-t border-gray-300 dark:border-gray-600">
+        {dayLabels.map((label, index) => (
+          <span
+            key={index}
+            data-testid="comparison-day"
+            className="absolute top-1 -translate-x-1/2 rtl:translate-x-1/2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap"
+            style={{ insetInlineStart: percent((index + 0.5) / timeline.dayCount) }}
+          >
+            {label}
+          </span>
+        ))}
+      </div>
+    </section>
+  );
+});
@@ -1,477 +1,53 @@
-import { memo, useMemo, useState, useEffect } from 'react';
+import { Fragment, memo, useCallback, useMemo, useState, useEffect } from 'react';
 import i18n from '../i18n/config';
 import yesGif from '../assets/yes.gif';
 import noPng from '../assets/no.png';
+import { ChatMessage, ChatDateSeparator, ChatThreadStub, ChatTypingIndicator } from './ChatMessage';
+import { ChatPlaybackControls } from './ChatPlaybackControls';
+import { platformStyles, DEFAULT_CHAT_PLATFORM } from '../data/chatPlatforms';
+import { buildPlaybackTimeline, formatElapsed, getPlaybackFrame, PLAYBACK_TICK_MS } from '../utils/chatPlayback';
+import {
+  formatDateForPlatform,
+  formatMessageTime,
+  scheduleConversation,
+  startOfDay,
+} from '../utils/chatTimeline';
+import { createWorkingCalendar, type WorkingCalendar } from '../utils/workingCalendar';
+import { parseConversation } from '../utils/conversationSchema';
+import { chatMarkupToPlainText } from '../utils/chatMarkup';
+import { getChatParticipants, type ChatParticipantOverrides } from '../data/chatParticipants';
+import {
+  buildChatSvg,
+  createColorResolver,
+  createTextMeasurer,
+  downloadBlob,
+  svgToPngBlob,
+  type ChatImageFormat,
+} from '../utils/chatImage';
+import { ChatExportControls } from './ChatExportControls';
+import type { AssignedMessage, ChatPlatform, ConversationMessage, ConversationType, SendTime } from '../types/chat';
 
 interface ChatExampleProps {
-  type: 'bad' | 'good';
+  type: ConversationType;
+  platform?: ChatPlatform;
+  theirTimeZone?: string | null; // Show the other person's local time next to yours
+  calendar?: WorkingCalendar; // Defaults to the current language's working week
+  sendTime?: SendTime | null; // Replay the conversation from when the first message was sent
+  participants?: ChatParticipantOverrides; // Own personas, on top of the translated names
+  messages?: ConversationMessage[]; // Show this conversation instead of the locale's example
 }
 
-type Platform = 'slack';
-
-interface PlatformStyles {
-  container: {
-    background: string;
-    borderRadius: string;
-    padding: string;
-  };
-  userMessage: {
-    background: string;
-    color: string;
-    borderRadius: string;
-    marginLeft: string;
-    marginRight: string;
-    padding: string;
-    boxShadow?: string;
-  };
-  otherMessage: {
-    background: string;
-    color: string;
-    borderRadius: string;
-    marginLeft: string;
-    marginRight: string;
-    padding: string;
-    boxShadow?: string;
-  };
-  timePassage: {
-    color: string;
-    fontSize: string;
-  };
-}
-
-const platformStyles: Record<Platform, PlatformStyles> = {
-  slack: {
-    container: {
-      background: 'var(--color-bg-secondary)',
-      borderRadius: '0px',
-      padding: '16px 20px',
-    },
-    userMessage: {
-      background: 'transparent',
-      color: 'var(--color-text-primary)',
-      borderRadius: '0px',
-      marginLeft: '0',
-      marginRight: '0',
-      padding: '0px',
-    },
-    otherMessage: {
-      background: 'transparent',
-      color: 'var(--color-text-primary)',
-      borderRadius: '0px',
-      marginLeft: '0',
-      marginRight: '0',
-      padding: '0px',
-    },
-    timePassage: {
-      color: 'var(--color-text-tertiary)',
-      fontSize: '0.8125rem',
-    },
-  },
-};
-
-// Only Slack platform now
-
-// Helper function to format dates for Slack
-function formatDateForPlatform(date: Date, locale: string): string {
-  // Check if date is today or yesterday
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const checkDate = new Date(date);
-  checkDate.setHours(0, 0, 0, 0);
-  const yesterday = new Date(today);
-  yesterday.setDate(yesterday.getDate() - 1);
-  
-  const isToday = checkDate.getTime() === today.getTime();
-  const isYesterday = checkDate.getTime() === yesterday.getTime();
-  
-  if (isToday) {
-    // Use Intl.RelativeTimeFormat for "Today" in user's locale
-    // Capitalize first letter to match Slack's format
-    const rtf = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
-    const formatted = rtf.format(0, 'day');
-    return formatted.charAt(0).toUpperCase() + formatted.slice(1);
-  } else if (isYesterday) {
-    // Use Intl.RelativeTimeFormat for "Yesterday" in user's locale
-    // Capitalize first letter to match Slack's format
-    const rtf = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
-    const formatted = rtf.format(-1, 'day');
-    return formatted.charAt(0).toUpperCase() + formatted.slice(1);
-  } else {
-    // Format: "Weekday, Month Day" (e.g., "Monday, January 15th")
-    // Use Intl.DateTimeFormat with weekday, month, and day
-    const formatter = new Intl.DateTimeFormat(locale, {
-      weekday: 'long',
-      month: 'long',
-      day: 'numeric',
-    });
-    return formatter.format(date);
-  }
-}
-
-// Generate dates spanning at least 3 days, extending if there's a weekend
-// Ensures we have enough weekdays for supporter messages
-function generateDates(): Date[] {
-  const dates: Date[] = [];
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  // Start from today and go back
-  // We need at least 3 days, but if there's a weekend, we need to extend
-  // to ensure we have enough weekdays for supporter messages
-  let daysBack = 0;
-  let weekdayCount = 0;
-  const minDays = 3;
-  
-  // First, count how many days we need to go back to get at least 3 weekdays
-  while (weekdayCount < minDays || daysBack < minDays) {
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() - daysBack);
-    const dayOfWeek = checkDate.getDay();
-    
-    // Count weekdays (Monday = 1, Friday = 5)
-    if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-      weekdayCount++;
-    }
-    
-    daysBack++;
-    
-    // Safety limit to prevent infinite loop
-    if (daysBack > 14) break;
-  }
-  
-  // Generate dates from daysBack days ago to today
-  for (let i = daysBack; i >= 0; i--) {
-    const date = new Date(today);
-    date.setDate(today.getDate() - i);
-    dates.push(date);
-  }
-  
-  return dates;
-}
-
-// Check if a date is a weekend
-function isWeekend(date: Date): boolean {
-  const dayOfWeek = date.getDay();
-  return dayOfWeek === 0 || dayOfWeek === 6; // Sunday = 0, Saturday = 6
-}
-
-
-// Business hours: 9AM - 5PM (Monday-Friday)
-const BUSINESS_HOUR_START = 9; // 9 AM
-const BUSINESS_HOUR_END = 17; // 5 PM
-
-/**
- * Parses a time string (e.g., "9:07 AM", "2:00 PM") and returns the hour in 24-hour format
- */
-function parseTimeToHour(timeString: string): number {
-  const match = timeString.match(/(\d+):(\d+)\s*(AM|PM)/i);
-  if (!match) return BUSINESS_HOUR_START; // Default to 9 AM if parsing fails
-  
-  let hour = parseInt(match[1], 10);
-  const period = match[3].toUpperCase();
-  
-  if (period === 'PM' && hour !== 12) {
-    hour += 12;
-  } else if (period === 'AM' && hour === 12) {
-    hour = 0;
-  }
-  
-  return hour;
-}
-
-/**
- * Checks if a time string is within business hours (9AM - 5PM)
- * Includes 5:00 PM as the last valid hour
- */
-function isWithinBusinessHours(timeString: string): boolean {
-  const hour = parseTimeToHour(timeString);
-  return hour >= BUSINESS_HOUR_START && hour <= BUSINESS_HOUR_END;
-}
-
-/**
- * Gets the next business day (Monday-Friday) at 9AM from a given date
- * If the date is already a weekday, moves to the next day if needed
- */
-function getNextBusinessDay(date: Date): Date {
-  const nextDate = new Date(date);
-  nextDate.setDate(date.getDate() + 1);
-  nextDate.setHours(BUSINESS_HOUR_START, 0, 0, 0);
-  
-  while (isWeekend(nextDate)) {
-    nextDate.setDate(nextDate.getDate() + 1);
-  }
-  
-  return nextDate;
-}
-
-/**
- * Adjusts a date and time to ensure it's within business hours
- * If the time is outside business hours or on a weekend, moves to next business day at 9AM
- */
-function adjustToBusinessHours(date: Date, timeString: string): { date: Date; time: string } {
-  // First check if it's a weekend
-  if (isWeekend(date)) {
-    const nextBusinessDay = getNextBusinessDay(date);
-    return { date: nextBusinessDay, time: '9:00 AM' };
-  }
-  
-  // Check if time is within business hours
-  if (!isWithinBusinessHours(timeString)) {
-    const nextBusinessDay = getNextBusinessDay(date);
-    return { date: nextBusinessDay, time: '9:00 AM' };
-  }
-  
-  // Already within business hours on a weekday
-  return { date, time: timeString };
-}
-
-// Message assignment interface
-interface AssignedMessage {
-  text: string;
-  sender: 'you' | 'support';
-  date: Date;
-  timestamp: string;
-  dateBreakIndex: number; // Index for date breaks
-}
-
-/**
- * Conversation script: Defines sender assignments for each conversation type
- * This is separate from translations - translations only contain message text
- */
-const conversationScript: Record<'bad' | 'good', ('you' | 'support')[]> = {
-  bad: ['you', 'support', 'you', 'support', 'you', 'support', 'you', 'support'],
-  good: ['you', 'support'],
-};
-
-/**
- * Gets the sender for a message based on conversation type and index
- */
-function getSenderForMessage(type: 'bad' | 'good', index: number): 'you' | 'support' {
-  const script = conversationScript[type];
-  // If script has assignment for this index, use it; otherwise alternate
-  if (script && index < script.length) {
-    return script[index];
-  }
-  // Default: alternate starting with "you"
-  return index % 2 === 0 ? 'you' : 'support';
-}
-
-/**
- * Generates timestamps for messages based on date progression
- */
-function generateTimestamps(messages: AssignedMessage[], availableDates: Date[]): AssignedMessage[] {
-  // Group messages by date breaks (every 2 messages or when sender changes after support)
-  const dateBreaks: number[] = [0]; // Always show date at start
-  
-  for (let i = 1; i < messages.length; i++) {
-    const currentSender = messages[i].sender;
-    const prevSender = messages[i - 1].sender;
-    
-    // Add date break when:
-    // 1. Every 2 messages (roughly)
-    // 2. When switching from support back to you (time has passed)
-    if (i % 2 === 0 || (prevSender === 'support' && currentSender === 'you')) {
-      dateBreaks.push(i);
-    }
-  }
-  
-  // Assign dates to messages
-  const totalDateBreaks = dateBreaks.length;
-  
-  // Track time progression within each date to ensure chronological order
-  // Maps date key to the last time index used on that date
-  const lastTimeIndexByDate = new Map<string, number>();
-  
-  messages.forEach((msg, index) => {
-    // Find which date break this message belongs to
-    let dateBreakIndex = 0;
-    for (let i = dateBreaks.length - 1; i >= 0; i--) {
-      if (index >= dateBreaks[i]) {
-        dateBreakIndex = i;
-        break;
-      }
-    }
-    
-    // Map date break to available dates (working backwards from today)
-    let mappedDateIndex = totalDateBreaks > 0
-      ? Math.max(0, Math.min(
-          availableDates.length - 1 - (totalDateBreaks - 1 - dateBreakIndex),
-          availableDates.length - 1
-        ))
-      : availableDates.length - 1;
-    
-    // For support messages, ensure we never assign a weekend date
-    // CRITICAL: Filter out weekends BEFORE assignment
-    if (msg.sender === 'support') {
-      // First, check if the initially mapped date is a weekend
-      const initialDate = availableDates[mappedDateIndex];
-      const initialDayOfWeek = initialDate?.getDay();
-      
-      // If the initial date is a weekend, we MUST find a weekday
-      // Even if it means the support message is on a different date than the user message
-      if (initialDayOfWeek === 0 || initialDayOfWeek === 6) {
-        // Find the next weekday after the initial date
-        let foundWeekday = false;
-        for (let i = mappedDateIndex + 1; i < availableDates.length; i++) {
-          const dayOfWeek = availableDates[i].getDay();
-          if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-            mappedDateIndex = i;
-            foundWeekday = true;
-            break;
-          }
-        }
-        
-        // If not found going forward, search backwards
-        if (!foundWeekday) {
-          for (let i = mappedDateIndex - 1; i >= 0; i--) {
-            const dayOfWeek = availableDates[i].getDay();
-            if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-              mappedDateIndex = i;
-              foundWeekday = true;
-              break;
-            }
-          }
-        }
-        // Note: generateDates() guarantees at least 3 weekdays exist,
-        // so if forward and backward searches both fail, there's a logic error.
-        // In that case, we'll use the last found weekday from the backward search.
-      }
-      // Note: If we're here, the date is already guaranteed to be a weekday
-      // (either it was initially a weekday, or we found one in the checks above)
-    }
-    
-    msg.date = availableDates[mappedDateIndex];
-    msg.dateBreakIndex = dateBreakIndex;
-    
-    // Generate timestamp (time of day) with chronological ordering
-    // Business hours only: 9AM - 5PM (exclude times after 5PM)
-    const businessHoursTimes = ['9:07 AM', '11:19 AM', '2:00 PM', '4:07 PM'];
-    const allTimes = ['9:07 AM', '11:19 AM', '2:00 PM', '4:07 PM', '5:26 PM', '6:31 PM', '7:15 PM'];
-    
-    // For support messages, only use business hours times
-    // For user messages, can use any time
-    const times = msg.sender === 'support' ? businessHoursTimes : allTimes;
-    
-    // Create a date key for tracking time progression within the same date
-    const normalizeDate = (d: Date) => {
-      const normalized = new Date(d);
-      normalized.setHours(0, 0, 0, 0);
-      return normalized.getTime();
-    };
-    const dateKey = normalizeDate(msg.date).toString();
-    
-    // Get the last time index used on this date
-    const lastTimeIndex = lastTimeIndexByDate.get(dateKey);
-    
-    // Assign time ensuring chronological progression
-    let timeIndex: number;
-    if (lastTimeIndex === undefined) {
-      // First message on this date - use a base time based on date break
-      timeIndex = Math.min(dateBreakIndex, times.length - 1);
-    } else {
-      // Subsequent messages on same date - must be after the last time
-      timeIndex = lastTimeIndex + 1;
-      
-      // If we've exceeded available times, we need to handle it
-      // This can only happen for support messages (user messages are spread across dates)
-      if (timeIndex >= times.length) {
-        // Support messages can't wrap around - move to next business day
-        // This will be handled by business hours adjustment below
-        // For now, use the last available time and let the adjustment move it to next day
-        timeIndex = times.length - 1;
-      }
-    }
-    
-    let assignedTime = times[timeIndex];
-    
-    // Update the last time index for this date
-    lastTimeIndexByDate.set(dateKey, timeIndex);
-    
-    // For support messages, ensure the time is within business hours
-    // Date is already guaranteed to be a weekday by the checks above
-    if (msg.sender === 'support') {
-      // Check if time is outside business hours and adjust if needed
-      if (!isWithinBusinessHours(assignedTime)) {
-        const adjusted = adjustToBusinessHours(msg.date, assignedTime);
-        assignedTime = adjusted.time;
-        
-        // Find the adjusted date in available dates
-        const normalizeDate = (d: Date) => {
-          const normalized = new Date(d);
-          normalized.setHours(0, 0, 0, 0);
-          return normalized;
-        };
-        
-        const normalizedAdjusted = normalizeDate(adjusted.date);
-        let foundDate = false;
-        
-        // Try to find the adjusted date in available dates
-        for (let i = 0; i < availableDates.length; i++) {
-          const availableDate = availableDates[i];
-          const normalizedAvailable = normalizeDate(availableDate);
-          if (normalizedAvailable.getTime() === normalizedAdjusted.getTime() && !isWeekend(availableDate)) {
-            msg.date = availableDate;
-            foundDate = true;
-            break;
-          }
-        }
-        
-        // If not found, find the next available weekday that's >= adjusted date
-        if (!foundDate) {
-          for (let i = 0; i < availableDates.length; i++) {
-            const availableDate = availableDates[i];
-            const normalizedAvailable = normalizeDate(availableDate);
-            if (normalizedAvailable.getTime() >= normalizedAdjusted.getTime() && !isWeekend(availableDate)) {
-              msg.date = availableDate;
-              foundDate = true;
-              break;
-            }
-          }
-        }
-        // Note: adjustToBusinessHours returns a future date, and generateDates generates dates going back from today.
-        // If the adjusted date is beyond availableDates, we use the most recent available weekday from the search above.
-        // Searching backwards for a past date doesn't make sense when adjusting to a future business day.
-      }
-    }
-    
-    msg.timestamp = assignedTime;
-  });
-  
-  return messages;
-}
-
-/**
- * Processes messages and assigns them to "You" or "Support" with timestamps
- * Uses conversation script to determine sender assignments
- */
-function assignMessagesToUsers(
-  rawMessages: string[],
-  availableDates: Date[],
-  conversationType: 'bad' | 'good'
-): AssignedMessage[] {
-  const assignedMessages: AssignedMessage[] = [];
-  
-  // First pass: assign senders using conversation script
-  rawMessages.forEach((text, index) => {
-    const sender = getSenderForMessage(conversationType, index);
-    
-    assignedMessages.push({
-      text,
-      sender,
-      date: new Date(), // Will be assigned in second pass
-      timestamp: '', // Will be assigned in second pass
-      dateBreakIndex: 0, // Will be assigned in second pass
-    });
-  });
-  
-  // Second pass: assign dates and timestamps
-  return generateTimestamps(assignedMessages, availableDates);
-}
-
-export const ChatExample = memo(function ChatExample({ type }: ChatExampleProps) {
+export const ChatExample = memo(function ChatExample({
+  type,
+  platform = DEFAULT_CHAT_PLATFORM,
+  theirTimeZone = null,
+  calendar,
+  sendTime = null,
+  participants: participantOverrides,
+  messages,
+}: ChatExampleProps) {
   // Only subscribe to language changes, not all i18n updates
   const [currentLanguage, setCurrentLanguage] = useState(i18n.language);
-  const currentPlatform: Platform = 'slack';
   
   useEffect(() => {
     const handleLanguageChange = (lng: string) => {
@@ -486,22 +62,48 @@ export const ChatExample = memo(function ChatExample({ type }: ChatExampleProps)
   }, []);
   
   // Use i18n directly instead of hook to avoid unnecessary subscriptions
-  const rawMessages = useMemo(() => 
-    i18n.t(`problem.example.${type}.messages`, { returnObjects: true }) as string[],
-    [type, currentLanguage] // Only re-compute when language actually changes
+  // Messages that don't match the conversation schema are left out
+  const conversation = useMemo(() => 
+    messages ?? parseConversation(i18n.t(`problem.example.${type}.messages`, { returnObjects: true })).messages,
+    [messages, type, currentLanguage] // Only re-compute when language actually changes
   );
   const title = useMemo(() => 
     i18n.t(`problem.example.${type}.title`),
     [type, currentLanguage] // Only re-compute when language actually changes
   );
 
-  // Generate dates and assign messages to users with timestamps using conversation script
-  const availableDates = useMemo(() => generateDates(), []);
-  const assignedMessages = useMemo(() => 
-    assignMessagesToUsers(rawMessages, availableDates, type),
-    [rawMessages, availableDates, type]
+  // Names, initials and avatars come from the locale, so they are translated too
+  const participants = useMemo(() =>
+    getChatParticipants(i18n.t('chat.participants', { returnObjects: true }), participantOverrides),
+    [participantOverrides, currentLanguage] // Only re-compute when language actually changes
   );
 
+  // Support replies follow the working calendar, e.g. no replies on a Friday-Saturday weekend
+  const workingCalendar = useMemo(
+    () => calendar ?? createWorkingCalendar(currentLanguage),
+    [calendar, currentLanguage]
+  );
+
+  // Generate dates and assign timestamps to the conversation's messages,
+  // or work the timeline out from the chosen send time
+  const assignedMessages = useMemo(
+    () => scheduleConversation(conversation, sendTime, workingCalendar),
+    [conversation, workingCalendar, sendTime]
+  );
+
+  // With a chosen send time, point out when the last reply - the real answer - arrived
+  const answerArrival = useMemo(() => {
+    const answer = [...assignedMessages].reverse().find(msg => msg.sender === 'support');
+    if (!sendTime || !answer) {
+      return null;
+    }
+    return i18n.t('chat.sendTime.answerArrived', {
+      day: new Intl.DateTimeFormat(currentLanguage, { weekday: 'long' }).format(answer.sentAt),
+      time: formatMessageTime(answer.sentAt, currentLanguage),
+      elapsed: formatElapsed(answer.sentAt.getTime() - assignedMessages[0].sentAt.getTime(), currentLanguage),
+    });
+  }, [assignedMessages, sendTime, currentLanguage]);
+
   // Track which date breaks we've shown to determine when to show date separators
   // For support messages, also check if the date changed from previous message
   const shownDateBreaks = useMemo(() => {
@@ -514,13 +116,8 @@ export const ChatExample = memo(function ChatExample({ type }: ChatExampleProps)
       } else if (!prevMsg || prevMsg.sender !== msg.sender) {
         // Also show date if sender changed and dates are different
         // This ensures support messages on different dates get their own date header
-        const normalizeDate = (d: Date) => {
-          const normalized = new Date(d);
-          normalized.setHours(0, 0, 0, 0);
-          return normalized;
-        };
-        const prevDate = prevMsg ? normalizeDate(prevMsg.date) : null;
-        const currDate = normalizeDate(msg.date);
+        const prevDate = prevMsg ? startOfDay(prevMsg.sentAt) : null;
+        const currDate = startOfDay(msg.sentAt);
         if (prevDate && prevDate.getTime() !== currDate.getTime()) {
           breaks.add(index);
         }
@@ -529,10 +126,190 @@ export const ChatExample = memo(function ChatExample({ type }: ChatExampleProps)
     return breaks;
   }, [assignedMessages]);
 
-  const styles = platformStyles[currentPlatform];
+  // Playback mode replays the conversation on a compressed clock
+  const [isPlaybackMode, setIsPlaybackMode] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackPosition, setPlaybackPosition] = useState(0);
+
+  const playbackTimeline = useMemo(() =>
+    buildPlaybackTimeline(assignedMessages.map(msg => msg.sentAt)),
+    [assignedMessages]
+  );
+  const playbackFrame = useMemo(() =>
+    getPlaybackFrame(playbackTimeline, playbackPosition),
+    [playbackTimeline, playbackPosition]
+  );
+
+  // Playback belongs to one timeline: when the conversation changes, start over from showing everything
+  const [playbackTimelineShown, setPlaybackTimelineShown] = useState(playbackTimeline);
+  if (playbackTimelineShown !== playbackTimeline) {
+    setPlaybackTimelineShown(playbackTimeline);
+    setIsPlaybackMode(false);
+    setIsPlaying(false);
+    setPlaybackPosition(0);
+  }
+
+  // Playback stops by itself once the last message has been sent
+  const isPlaybackRunning = isPlaying && playbackPosition < playbackTimeline.totalMs;
+
+  useEffect(() => {
+    if (!isPlaybackRunning) return;
+
+    const interval = setInterval(() => {
+      setPlaybackPosition(prev => Math.min(prev + PLAYBACK_TICK_MS, playbackTimeline.totalMs));
+    }, PLAYBACK_TICK_MS);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [isPlaybackRunning, playbackTimeline.totalMs]);
+
+  const handleStartPlayback = useCallback(() => {
+    setIsPlaybackMode(true);
+    setPlaybackPosition(0);
+    setIsPlaying(true);
+  }, []);
+
+  const handlePlayPause = useCallback(() => {
+    if (isPlaybackRunning) {
+      setIsPlaying(false);
+      return;
+    }
+    // Start over once the conversation has finished
+    if (playbackPosition >= playbackTimeline.totalMs) {
+      setPlaybackPosition(0);
+    }
+    setIsPlaying(true);
+  }, [isPlaybackRunning, playbackPosition, playbackTimeline.totalMs]);
+
+  const handleSeek = useCallback((positionMs: number) => {
+    setPlaybackPosition(positionMs);
+  }, []);
+
+  const handleShowAll = useCallback(() => {
+    setIsPlaying(false);
+    setIsPlaybackMode(false);
+  }, []);
+
+  const visibleCount = isPlaybackMode ? playbackFrame.visibleCount : assignedMessages.length;
+  const nextMessage = isPlaybackMode ? assignedMessages[visibleCount] : undefined;
+
+  // While waiting for the next message, its date separator appears as soon as the clock reaches that day
+  const showUpcomingDate = useMemo(() => {
+    if (!nextMessage || !shownDateBreaks.has(visibleCount)) {
+      return false;
+    }
+    // The first date is shown straight away
+    if (!playbackFrame.currentInstant) {
+      return visibleCount === 0;
+    }
+    return playbackFrame.currentInstant.getTime() >= startOfDay(nextMessage.sentAt).getTime();
+  }, [nextMessage, playbackFrame.currentInstant, shownDateBreaks, visibleCount]);
+
+  const styles = platformStyles[platform];
+  const titleColor = type === 'bad' ? 'var(--color-chat-bad-text)' : 'var(--color-chat-good-text)';
+
+  // Everything needed to show each message, shared by the chat panel and image export
+  const messageViews = useMemo(() => {
+    const toView = (assignedMsg: AssignedMessage) => {
+      // Dates and timestamps are already validated by generateTimestamps
+      // Support messages are guaranteed to be on working days and within business hours
+      const remoteTimestamp = theirTimeZone
+        ? i18n.t('chat.timezone.theirTime', { time: formatMessageTime(assignedMsg.sentAt, currentLanguage, theirTimeZone) })
+        : undefined;
+      
+      const participant = participants[assignedMsg.sender];
+      
+      return {
+        sender: assignedMsg.sender,
+        senderName: participant.name,
+        senderRole: participant.role,
+        avatarInitial: participant.initials,
+        avatarColor: participant.avatarColor,
+        avatarUrl: participant.avatarUrl,
+        timestamp: formatMessageTime(assignedMsg.sentAt, currentLanguage),
+        remoteTimestamp,
+        text: assignedMsg.text,
+        presence: assignedMsg.presence,
+        presenceLabel: i18n.t(`chat.presence.${assignedMsg.presence}`),
+        editedLabel: assignedMsg.edited ? i18n.t('chat.edited') : undefined,
+        reactions: assignedMsg.reactions?.map(reaction => ({
+          ...reaction,
+          label: i18n.t('chat.reaction', { count: reaction.count, emoji: reaction.emoji }),
+        })),
+      };
+    };
+    
+    return assignedMessages.map((assignedMsg, index) => {
+      const thread = (assignedMsg.thread ?? []).map(toView);
+      const lastReply = thread[thread.length - 1];
+      
+      return {
+        ...toView(assignedMsg),
+        dateLabel: shownDateBreaks.has(index)
+          ? formatDateForPlatform(assignedMsg.sentAt, currentLanguage, styles)
+          : undefined,
+        thread,
+        threadSummary: lastReply && {
+          replyCountLabel: i18n.t('chat.thread.replies', { count: thread.length }),
+          lastReplyLabel: i18n.t('chat.thread.lastReply', { time: lastReply.timestamp }),
+          // One avatar per person taking part in the thread
+          avatars: Array.from(new Set(thread.map(reply => reply.sender))).map(sender => participants[sender]),
+        },
+      };
+    });
+  }, [assignedMessages, shownDateBreaks, theirTimeZone, currentLanguage, styles, participants]);
+
+  // Threads start collapsed behind their "N replies" stub, like Slack.
+  // They are tracked by message index, so they collapse again when the messages change.
+  const [expandedThreads, setExpandedThreads] = useState<Set<number>>(() => new Set());
+  const [expandedThreadsMessages, setExpandedThreadsMessages] = useState(assignedMessages);
+  if (expandedThreadsMessages !== assignedMessages) {
+    setExpandedThreadsMessages(assignedMessages);
+    setExpandedThreads(new Set());
+  }
+
+  const handleToggleThread = useCallback((index: number) => {
+    setExpandedThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  }, []);
+
+  // Draw the full conversation in the current language, theme and platform style
+  const handleExport = useCallback(async (format: ChatImageFormat, transparent: boolean) => {
+    const image = buildChatSvg({
+      styles,
+      title,
+      titleColor,
+      messages: messageViews.map(({ remoteTimestamp, editedLabel, reactions, threadSummary, ...view }) => ({
+        ...view,
+        text: editedLabel ? `${chatMarkupToPlainText(view.text)} ${editedLabel}` : chatMarkupToPlainText(view.text),
+        timestamp: remoteTimestamp ? `${view.timestamp} · ${remoteTimestamp}` : view.timestamp,
+        details: [
+          reactions?.map(reaction => `${reaction.emoji} ${reaction.count}`).join('   '),
+          threadSummary && `${threadSummary.replyCountLabel} · ${threadSummary.lastReplyLabel}`,
+        ].filter((detail): detail is string => Boolean(detail)),
+      })),
+      transparent,
+      resolveColor: createColorResolver(),
+      measureText: createTextMeasurer(),
+      direction: i18n.dir(currentLanguage),
+    });
+    const blob = format === 'svg'
+      ? new Blob([image.svg], { type: 'image/svg+xml' })
+      : await svgToPngBlob(image);
+    downloadBlob(blob, `nohello-${type}-${platform}.${format}`);
+  }, [messageViews, styles, title, titleColor, type, platform, currentLanguage]);
 
   return (
     <div 
+      data-testid="chat-example"
       className="shadow-lg hover:shadow-xl transition-all duration-500 transform hover:-translate-y-1 border-2"
       style={{
         ...styles.container,
@@ -542,7 +319,7 @@ export const ChatExample = memo(function ChatExample({ type }: ChatExampleProps)
     >
       <h3 
         className="text-xl font-bold mb-6 flex items-center gap-2"
-        style={{ color: type === 'bad' ? 'var(--color-chat-bad-text)' : 'var(--color-chat-good-text)' }}
+        style={{ color: titleColor }}
       >
         <img 
           src={type === 'bad' ? noPng : yesGif}
@@ -551,7 +328,28 @@ export const ChatExample = memo(function ChatExample({ type }: ChatExampleProps)
           style={{ width: '1.5rem', height: '1.5rem', objectFit: 'contain' }}
         />
         {title}
+        {!isPlaybackMode && assignedMessages.length > 0 && (
+          <button
+            type="button"
+            onClick={handleStartPlayback}
+            className="ms-auto px-3 py-1 text-sm font-semibold rounded-lg border transition-colors duration-200 cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/20"
+            style={{ borderColor: 'var(--color-border-dark)', color: 'var(--color-text-secondary)' }}
+          >
+            ▶ {i18n.t('chat.playback.play')}
+          </button>
+        )}
       </h3>
+      {isPlaybackMode && (
+        <ChatPlaybackControls
+          isPlaying={isPlaybackRunning}
+          positionMs={playbackPosition}
+          totalMs={playbackTimeline.totalMs}
+          elapsedLabel={formatElapsed(playbackFrame.elapsedMs, currentLanguage)}
+          onPlayPause={handlePlayPause}
+          onSeek={handleSeek}
+          onShowAll={handleShowAll}
+        />
+      )}
       <div 
         className="transition-all duration-500"
         style={{
@@ -560,122 +358,104 @@ export const ChatExample = memo(function ChatExample({ type }: ChatExampleProps)
           gap: '4px'
         }}
       >
-        {assignedMessages.map((assignedMsg, index) => {
-          const isUser = assignedMsg.sender === 'you';
-          const showDate = shownDateBreaks.has(index);
-          
-          // Dates and timestamps are already validated by generateTimestamps
-          // Support messages are guaranteed to be on weekdays and within business hours
-          const dateForIndex = assignedMsg.date;
-          const timestamp = assignedMsg.timestamp;
-          
-          // Generate avatar colors based on user - use consistent colors for same sender
-          const avatarColors = isUser 
-            ? ['#007A5A', '#4A154B', '#1264A3', '#2EB886', '#ECB22E']
-            : ['#E01E5A', '#36C5F0', '#2EB67D', '#FF6B6B', '#4ECDC4'];
-          // Use first color for each sender type to ensure consistency
-          const avatarColor = avatarColors[0];
-          const avatarInitial = isUser ? 'Y' : 'S'; // 'S' for Support
-          
-          // Format date for Slack using user's locale
-          const slackDateText = formatDateForPlatform(dateForIndex, currentLanguage);
+        {messageViews.slice(0, visibleCount).map((view, index) => {
+          const isThreadExpanded = expandedThreads.has(index);
           
           return (
-            <>
-              {showDate && (
-                <div style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  width: '100%',
-                  gap: '1rem',
-                  paddingTop: index === 0 ? '0' : '1rem',
-                  paddingBottom: '1rem',
-                }}>
-                  <div style={{
-                    flex: 1,
-                    height: '1px',
-                    backgroundColor: 'var(--color-border)',
-                  }}></div>
-                  <span style={{
-                    fontSize: '0.8125rem',
-                    color: 'var(--color-text-tertiary)',
-                    fontWeight: 500,
-                    padding: '0 0.5rem',
-                    whiteSpace: 'nowrap',
-                  }}>
-                    {slackDateText}
-                  </span>
-                  <div style={{
-                    flex: 1,
-                    height: '1px',
-                    backgroundColor: 'var(--color-border)',
-                  }}></div>
-                </div>
+            <Fragment key={index}>
+              {view.dateLabel && (
+                <ChatDateSeparator
+                  styles={styles}
+                  label={view.dateLabel}
+                  isFirst={index === 0}
+                />
               )}
-              <div
-                key={index}
-                className="transition-all duration-500"
-                style={{
-                  animation: `fadeIn 0.3s ease-out ${index * 0.1}s both`,
-                  display: 'flex',
-                  gap: '12px',
-                  alignItems: 'flex-start',
-                  paddingBottom: '4px',
-                  paddingTop: '2px',
-                }}
+              <ChatMessage
+                styles={styles}
+                sender={view.sender}
+                senderName={view.senderName}
+                senderRole={view.senderRole}
+                avatarInitial={view.avatarInitial}
+                avatarColor={view.avatarColor}
+                avatarUrl={view.avatarUrl}
+                timestamp={view.timestamp}
+                remoteTimestamp={view.remoteTimestamp}
+                text={view.text}
+                animationDelay={isPlaybackMode ? 0 : index * 0.1}
+                presence={view.presence}
+                presenceLabel={view.presenceLabel}
+                editedLabel={view.editedLabel}
+                reactions={view.reactions}
               >
-                <div
-                  style={{
-                    width: '36px',
-                    height: '36px',
-                    borderRadius: '50%',
-                    backgroundColor: avatarColor,
-                    color: '#ffffff',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    fontSize: '0.875rem',
-                    fontWeight: 700,
-                    flexShrink: 0,
-                  }}
-                >
-                  {avatarInitial}
-                </div>
-                <div style={{ flex: 1, minWidth: 0 }}>
-                  <div style={{ display: 'flex', alignItems: 'baseline', gap: '8px', marginBottom: '2px' }}>
-                    <span style={{
-                      fontSize: '0.9375rem',
-                      fontWeight: 700,
-                      color: 'var(--color-text-primary)',
-                    }}>
-                      {isUser ? 'You' : 'Them'}
-                    </span>
-                    <span style={{
-                      fontSize: '0.75rem',
-                      color: 'var(--color-text-tertiary)',
-                      fontWeight: 400,
-                    }}>
-                      {timestamp}
-                    </span>
-                  </div>
-                  <div style={{ 
-                    fontSize: '0.9375rem',
-                    lineHeight: '1.5rem',
-                    color: 'var(--color-text-primary)',
-                  }}>
-                    {assignedMsg.text}
+                {view.threadSummary && (
+                  <ChatThreadStub
+                    styles={styles}
+                    replyCountLabel={view.threadSummary.replyCountLabel}
+                    lastReplyLabel={view.threadSummary.lastReplyLabel}
+                    avatars={view.threadSummary.avatars}
+                    isExpanded={isThreadExpanded}
+                    onToggle={() => handleToggleThread(index)}
+                  />
+                )}
+                {isThreadExpanded && (
+                  <div
+                    data-testid="chat-thread"
+                    style={{ borderInlineStart: '2px solid var(--color-border)', paddingInlineStart: '12px', marginTop: '4px' }}
+                  >
+                    {view.thread.map((reply, replyIndex) => (
+                      <ChatMessage
+                        key={replyIndex}
+                        styles={styles}
+                        sender={reply.sender}
+                        senderName={reply.senderName}
+                        senderRole={reply.senderRole}
+                        avatarInitial={reply.avatarInitial}
+                        avatarColor={reply.avatarColor}
+                        avatarUrl={reply.avatarUrl}
+                        timestamp={reply.timestamp}
+                        remoteTimestamp={reply.remoteTimestamp}
+                        text={reply.text}
+                        animationDelay={0}
+                        presence={reply.presence}
+                        presenceLabel={reply.presenceLabel}
+                        editedLabel={reply.editedLabel}
+                        reactions={reply.reactions}
+                      />
+                    ))}
                   </div>
-                </div>
-              </div>
-            </>
+                )}
+              </ChatMessage>
+            </Fragment>
           );
         })}
+        {showUpcomingDate && nextMessage && (
+          <ChatDateSeparator
+            styles={styles}
+            label={formatDateForPlatform(nextMessage.sentAt, currentLanguage, styles)}
+            isFirst={visibleCount === 0}
+          />
+        )}
+        {isPlaybackMode && playbackFrame.typingIndex !== null && (
+          <ChatTypingIndicator
+            styles={styles}
+            sender={assignedMessages[playbackFrame.typingIndex].sender}
+            label={i18n.t('chat.playback.typing')}
+          />
+        )}
       </div>
+      {answerArrival && visibleCount === assignedMessages.length && (
+        <p
+          className="mt-4 font-semibold"
+          style={{ color: titleColor }}
+          data-testid="chat-answer-arrival"
+        >
+          {answerArrival}
+        </p>
+      )}
+      {!isPlaybackMode && messageViews.length > 0 && (
+        <ChatExportControls onExport={handleExport} />
+      )}
     </div>
   );
-}, (prevProps, nextProps) => {
-  // Custom comparison: only re-render if type prop changes
-  // Language changes are handled internally via state
-  return prevProps.type === nextProps.type;
 });
 
@@ -0,0 +1,66 @@
+import { memo, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ChatImageFormat } from '../utils/chatImage';
+
+interface ChatExportControlsProps {
+  onExport: (format: ChatImageFormat, transparent: boolean) => Promise<void>;
+}
+
+const FORMATS: { format: ChatImageFormat; label: string }[] = [
+  { format: 'svg', label: 'SVG' },
+  { format: 'png', label: 'PNG' },
+];
+
+export const ChatExportControls = memo(function ChatExportControls({ onExport }: ChatExportControlsProps) {
+  const { t } = useTranslation();
+  const [transparent, setTransparent] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+  const transparentId = useId();
+
+  const handleExport = async (format: ChatImageFormat) => {
+    setIsExporting(true);
+    setHasFailed(false);
+    try {
+      await onExport(format, transparent);
+    } catch {
+      setHasFailed(true);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-3 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+      <span className="font-semibold">{t('chat.export.label')}</span>
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={isExporting}
+          aria-label={t('chat.export.download', { format: label })}
+          className="px-3 py-1 font-semibold rounded-lg border transition-colors duration-200 cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-wait"
+          style={{ borderColor: 'var(--color-border-dark)' }}
+        >
+          {label}
+        </button>
+      ))}
+      <label htmlFor={transparentId} className="flex items-center gap-2 cursor-pointer">
+        <input
+          id={transparentId}
+          type="checkbox"
+          checked={transparent}
+          onChange={(e) => setTransparent(e.target.checked)}
+          className="accent-blue-600 cursor-pointer"
+        />
+        {t('chat.export.transparent')}
+      </label>
+      {hasFailed && (
+        <span role="alert" className="text-red-600 dark:text-red-400">
+          {t('chat.export.failed')}
+        </span>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,66 @@
+import { memo, useMemo, type CSSProperties, type ReactNode } from 'react';
+import { parseChatMarkup, type MarkupInline } from '../utils/chatMarkup';
+
+interface ChatMarkupProps {
+  text: string;
+}
+
+// Tinted with the text color, so code and mentions read well on every bubble and theme
+const tint = (percent: number) => `color-mix(in srgb, currentColor ${percent}%, transparent)`;
+
+const codeStyle: CSSProperties = {
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+  fontSize: '0.85em',
+  fontStyle: 'normal',
+  background: tint(10),
+  border: `1px solid ${tint(15)}`,
+  borderRadius: '4px',
+};
+
+const mentionStyle: CSSProperties = {
+  fontWeight: 600,
+  background: tint(12),
+  borderRadius: '4px',
+  padding: '0 2px',
+};
+
+function renderInline(node: MarkupInline, key: number): ReactNode {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'bold':
+      return <strong key={key}>{node.children.map(renderInline)}</strong>;
+    case 'italic':
+      return <em key={key}>{node.children.map(renderInline)}</em>;
+    case 'code':
+      return <code key={key} style={{ ...codeStyle, padding: '0 4px' }}>{node.text}</code>;
+    case 'mention':
+      return <span key={key} data-testid="chat-mention" style={mentionStyle}>@{node.name}</span>;
+    case 'link':
+      return (
+        <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" style={{ color: 'inherit', textDecoration: 'underline' }}>
+          {node.text}
+        </a>
+      );
+  }
+}
+
+/**
+ * Renders Slack-style markup (see utils/chatMarkup) as React elements
+ */
+export const ChatMarkup = memo(function ChatMarkup({ text }: ChatMarkupProps) {
+  const nodes = useMemo(() => parseChatMarkup(text), [text]);
+
+  return (
+    <>
+      {nodes.map((node, index) => node.type === 'codeBlock' ? (
+        <pre
+          key={index}
+          style={{ ...codeStyle, display: 'block', margin: '4px 0', padding: '8px', whiteSpace: 'pre-wrap', overflowWrap: 'anywhere' }}
+        >
+          <code>{node.text}</code>
+        </pre>
+      ) : renderInline(node, index))}
+    </>
+  );
+});
@@ -0,0 +1,411 @@
+import { memo, type ReactNode } from 'react';
+import { ChatMarkup } from './ChatMarkup';
+import type { AvatarShape, ChatParticipant, ChatSender, PlatformStyles, Presence } from '../types/chat';
+
+export interface ChatReactionView {
+  emoji: string;
+  count: number;
+  label: string; // Accessible description, e.g. "1 reaction with 👀"
+}
+
+interface ChatMessageProps {
+  styles: PlatformStyles;
+  sender: ChatSender;
+  senderName: string;
+  senderRole?: string; // Shown as a tooltip on the name and avatar
+  avatarInitial: string;
+  avatarColor: string;
+  avatarUrl?: string; // Avatar image, shown instead of the initial
+  timestamp: string;
+  remoteTimestamp?: string; // The same instant in the other person's time zone
+  text: string; // Slack-style markup, see utils/chatMarkup
+  animationDelay: number; // Seconds before the fade-in starts
+  presence?: Presence;
+  presenceLabel?: string;
+  editedLabel?: string; // Shown after the text when the message was edited
+  reactions?: ChatReactionView[];
+  children?: ReactNode; // Thread stub and replies, shown under the message
+}
+
+interface ChatThreadStubProps {
+  styles: PlatformStyles;
+  replyCountLabel: string;
+  lastReplyLabel: string;
+  avatars: Pick<ChatParticipant, 'avatarColor' | 'avatarUrl'>[]; // One small avatar per person in the thread
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+interface ChatTypingIndicatorProps {
+  styles: PlatformStyles;
+  sender: ChatSender;
+  label: string;
+}
+
+interface ChatDateSeparatorProps {
+  styles: PlatformStyles;
+  label: string;
+  isFirst: boolean;
+}
+
+const avatarRadius: Record<Exclude<AvatarShape, 'none'>, string> = {
+  circle: '50%',
+  rounded: '8px',
+  square: '2px',
+};
+
+export const ChatMessage = memo(function ChatMessage({
+  styles,
+  sender,
+  senderName,
+  senderRole,
+  avatarInitial,
+  avatarColor,
+  avatarUrl,
+  timestamp,
+  remoteTimestamp,
+  text,
+  animationDelay,
+  presence,
+  presenceLabel,
+  editedLabel,
+  reactions,
+  children,
+}: ChatMessageProps) {
+  const isUser = sender === 'you';
+  const isBubble = styles.layout === 'bubble';
+  const alignEnd = isBubble && isUser;
+  const showAvatar = styles.avatarShape !== 'none' && (!isUser || styles.showOwnAvatar);
+  const showName = !isUser || styles.showOwnName;
+  const messageStyles = isUser ? styles.userMessage : styles.otherMessage;
+
+  const timestampElement = (
+    <span
+      data-testid="chat-timestamp"
+      style={{
+        fontSize: '0.75rem',
+        color: 'var(--color-text-tertiary)',
+        fontWeight: 400,
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {timestamp}
+      {remoteTimestamp && (
+        <span data-testid="chat-remote-timestamp" style={{ opacity: 0.8 }}> · {remoteTimestamp}</span>
+      )}
+    </span>
+  );
+
+  const presenceDot = presence && (
+    <span
+      data-testid="chat-presence"
+      data-presence={presence}
+      role="img"
+      aria-label={presenceLabel}
+      title={presenceLabel}
+      style={{
+        display: 'inline-block',
+        width: '10px',
+        height: '10px',
+        borderRadius: '50%',
+        backgroundColor: presence === 'active' ? '#2BAC76' : 'transparent',
+        border: presence === 'active' ? '2px solid var(--color-bg-secondary)' : '2px solid var(--color-text-tertiary)',
+        boxSizing: 'border-box',
+        flexShrink: 0,
+      }}
+    />
+  );
+
+  const header = (showName || styles.timestampPlacement === 'header') && (
+    <div style={{ display: 'flex', alignItems: 'baseline', gap: '8px', marginBottom: '2px' }}>
+      {/* Without an avatar to sit on, the presence dot goes next to the name */}
+      {!showAvatar && showName && presenceDot && (
+        <span style={{ alignSelf: 'center', display: 'flex' }}>{presenceDot}</span>
+      )}
+      {showName && (
+        <span title={senderRole} style={{
+          fontSize: styles.senderName.fontSize,
+          fontWeight: 700,
+          color: styles.senderName.color,
+        }}>
+          {senderName}
+        </span>
+      )}
+      {styles.timestampPlacement === 'header' && timestampElement}
+    </div>
+  );
+
+  const body = (
+    <div style={{
+      fontSize: '0.9375rem',
+      lineHeight: '1.5rem',
+      color: messageStyles.color,
+      overflowWrap: 'anywhere',
+    }}>
+      <ChatMarkup text={text} />
+      {editedLabel && (
+        <span data-testid="chat-edited" style={{ fontSize: '0.75rem', color: 'var(--color-text-tertiary)', marginInlineStart: '4px' }}>
+          {editedLabel}
+        </span>
+      )}
+      {styles.timestampPlacement === 'inside' && (
+        // Floated so short messages keep the time on the same line, like WhatsApp
+        <span style={{ float: 'inline-end', marginInlineStart: '8px', marginTop: '6px', lineHeight: '1rem' }}>
+          {timestampElement}
+        </span>
+      )}
+    </div>
+  );
+
+  const reactionList = reactions && reactions.length > 0 && (
+    <ul style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px', listStyle: 'none', padding: 0 }}>
+      {reactions.map((reaction) => (
+        <li
+          key={reaction.emoji}
+          data-testid="chat-reaction"
+          aria-label={reaction.label}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: '0 6px',
+            height: '24px',
+            borderRadius: '12px',
+            fontSize: '0.75rem',
+            color: 'var(--color-text-secondary)',
+            border: '1px solid var(--color-border-dark)',
+            background: 'var(--color-bg-secondary)',
+          }}
+        >
+          <span aria-hidden="true">{reaction.emoji}</span>
+          <span aria-hidden="true">{reaction.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div
+      data-testid="chat-message"
+      data-sender={sender}
+      className="transition-all duration-500"
+      style={{
+        animation: `fadeIn 0.3s ease-out ${animationDelay}s both`,
+        display: 'flex',
+        flexDirection: alignEnd ? 'row-reverse' : 'row',
+        gap: isBubble ? '8px' : '12px',
+        alignItems: 'flex-start',
+        paddingBottom: '4px',
+        paddingTop: '2px',
+      }}
+    >
+      {showAvatar && (
+        <div style={{ position: 'relative', flexShrink: 0 }}>
+          <div
+            data-testid="chat-avatar"
+            title={senderRole ? `${senderName} · ${senderRole}` : senderName}
+            style={{
+              width: '36px',
+              height: '36px',
+              borderRadius: avatarRadius[styles.avatarShape as Exclude<AvatarShape, 'none'>],
+              backgroundColor: avatarColor,
+              color: '#ffffff',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '0.875rem',
+              fontWeight: 700,
+              flexShrink: 0,
+              overflow: 'hidden',
+            }}
+          >
+            {avatarUrl ? (
+              <img
+                data-testid="chat-avatar-image"
+                src={avatarUrl}
+                alt=""
+                style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+              />
+            ) : avatarInitial}
+          </div>
+          {presenceDot && (
+            <span style={{ position: 'absolute', insetInlineEnd: '-3px', bottom: '-3px', display: 'flex' }}>{presenceDot}</span>
+          )}
+        </div>
+      )}
+      {isBubble ? (
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: alignEnd ? 'flex-end' : 'flex-start',
+          flex: 1,
+          minWidth: 0,
+        }}>
+          <div style={{
+            background: messageStyles.background,
+            borderRadius: messageStyles.borderRadius,
+            marginInlineStart: messageStyles.marginStart,
+            marginInlineEnd: messageStyles.marginEnd,
+            padding: messageStyles.padding,
+            boxShadow: messageStyles.boxShadow,
+            maxWidth: '85%',
+          }}>
+            {header}
+            {body}
+          </div>
+          {styles.timestampPlacement === 'below' && (
+            <div style={{ padding: '2px 6px 0' }}>{timestampElement}</div>
+          )}
+          {reactionList}
+          {children}
+        </div>
+      ) : (
+        <div style={{ flex: 1, minWidth: 0 }}>
+          {header}
+          {body}
+          {styles.timestampPlacement === 'below' && timestampElement}
+          {reactionList}
+          {children}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const ChatDateSeparator = memo(function ChatDateSeparator({ styles, label, isFirst }: ChatDateSeparatorProps) {
+  const { style, uppercase } = styles.dateSeparator;
+  const text = uppercase ? label.toLocaleUpperCase() : label;
+
+  const labelElement = (
+    <span style={{
+      fontSize: style === 'pill' ? '0.75rem' : styles.timePassage.fontSize,
+      color: styles.timePassage.color,
+      fontWeight: 500,
+      padding: style === 'pill' ? '4px 12px' : '0 0.5rem',
+      whiteSpace: 'nowrap',
+      ...(style === 'pill' && {
+        borderRadius: '8px',
+        background: 'var(--color-bg-secondary)',
+        boxShadow: '0 1px 0.5px rgba(0, 0, 0, 0.13)',
+      }),
+    }}>
+      {text}
+    </span>
+  );
+
+  return (
+    <div
+      data-testid="chat-date-separator"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '100%',
+        gap: '1rem',
+        paddingTop: isFirst ? '0' : '1rem',
+        paddingBottom: '1rem',
+      }}
+    >
+      {style === 'line' && (
+        <div style={{ flex: 1, height: '1px', backgroundColor: 'var(--color-border)' }}></div>
+      )}
+      {labelElement}
+      {style === 'line' && (
+        <div style={{ flex: 1, height: '1px', backgroundColor: 'var(--color-border)' }}></div>
+      )}
+    </div>
+  );
+});
+
+export const ChatTypingIndicator = memo(function ChatTypingIndicator({ styles, sender, label }: ChatTypingIndicatorProps) {
+  const isBubble = styles.layout === 'bubble';
+  const messageStyles = sender === 'you' ? styles.userMessage : styles.otherMessage;
+
+  return (
+    <div
+      data-testid="chat-typing-indicator"
+      role="status"
+      aria-label={label}
+      style={{
+        display: 'flex',
+        justifyContent: isBubble && sender === 'you' ? 'flex-end' : 'flex-start',
+        padding: '4px 0',
+      }}
+    >
+      <div style={{
+        display: 'flex',
+        gap: '4px',
+        alignItems: 'center',
+        ...(isBubble && {
+          background: messageStyles.background,
+          borderRadius: messageStyles.borderRadius,
+          padding: '10px 12px',
+          boxShadow: messageStyles.boxShadow,
+        }),
+        ...(!isBubble && { paddingInlineStart: '48px' }),
+      }}>
+        {[0, 1, 2].map((dot) => (
+          <span
+            key={dot}
+            className="animate-typing-dot"
+            style={{
+              width: '6px',
+              height: '6px',
+              borderRadius: '50%',
+              backgroundColor: isBubble ? messageStyles.color : styles.timePassage.color,
+              animationDelay: `${dot * 0.2}s`,
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+export const ChatThreadStub = memo(function ChatThreadStub({
+  styles,
+  replyCountLabel,
+  lastReplyLabel,
+  avatars,
+  isExpanded,
+  onToggle,
+}: ChatThreadStubProps) {
+  const avatarShape = styles.avatarShape === 'none' ? 'rounded' : styles.avatarShape;
+
+  return (
+    <button
+      type="button"
+      data-testid="chat-thread-stub"
+      onClick={onToggle}
+      aria-expanded={isExpanded}
+      className="cursor-pointer hover:underline"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        marginTop: '4px',
+        padding: '2px 0',
+        background: 'none',
+        border: 'none',
+        fontSize: '0.8125rem',
+      }}
+    >
+      {avatars.map((avatar, index) => (
+        <span
+          key={index}
+          aria-hidden="true"
+          style={{
+            width: '20px',
+            height: '20px',
+            borderRadius: avatarShape === 'circle' ? '50%' : '4px',
+            backgroundColor: avatar.avatarColor,
+            backgroundImage: avatar.avatarUrl ? `url(${JSON.stringify(avatar.avatarUrl)})` : undefined,
+            backgroundSize: 'cover',
+          }}
+        />
+      ))}
+      <span style={{ fontWeight: 700, color: 'var(--color-chat-link)' }}>{replyCountLabel}</span>
+      <span style={{ color: 'var(--color-text-tertiary)' }}>{lastReplyLabel}</span>
+    </button>
+  );
+});
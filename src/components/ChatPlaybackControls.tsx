@@ -0,0 +1,67 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface ChatPlaybackControlsProps {
+  isPlaying: boolean;
+  positionMs: number;
+  totalMs: number;
+  elapsedLabel: string;
+  onPlayPause: () => void;
+  onSeek: (positionMs: number) => void;
+  onShowAll: () => void;
+}
+
+export const ChatPlaybackControls = memo(function ChatPlaybackControls({
+  isPlaying,
+  positionMs,
+  totalMs,
+  elapsedLabel,
+  onPlayPause,
+  onSeek,
+  onShowAll,
+}: ChatPlaybackControlsProps) {
+  const { t } = useTranslation();
+  const isFinished = positionMs >= totalMs;
+
+  let playLabel = t('chat.playback.play');
+  if (isPlaying) {
+    playLabel = t('chat.playback.pause');
+  } else if (isFinished) {
+    playLabel = t('chat.playback.replay');
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={onPlayPause}
+          aria-label={playLabel}
+          className="w-9 h-9 flex-shrink-0 rounded-full bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold shadow-md transition-colors duration-200 cursor-pointer"
+        >
+          {isPlaying ? '❚❚' : isFinished ? '↺' : '▶'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={totalMs}
+          step={100}
+          value={Math.min(positionMs, totalMs)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          aria-label={t('chat.playback.scrub')}
+          className="flex-1 accent-blue-600 cursor-pointer"
+        />
+        <button
+          type="button"
+          onClick={onShowAll}
+          className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline cursor-pointer whitespace-nowrap"
+        >
+          {t('chat.playback.showAll')}
+        </button>
+      </div>
+      <p className="text-sm font-semibold tabular-nums" style={{ color: 'var(--color-text-secondary)' }} role="timer">
+        {t('chat.playback.elapsed', { time: elapsedLabel })}
+      </p>
+    </div>
+  );
+});
@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChatExample } from './ChatExample';
+import { ConversationEditor } from './ConversationEditor';
+import { parseConversation } from '../utils/conversationSchema';
+import {
+  buildPermalink,
+  decodeConversations,
+  encodeConversations,
+  readPermalinkCode,
+  type ConversationPair,
+} from '../utils/conversationPermalink';
+import type { ConversationMessage, ConversationType } from '../types/chat';
+
+type LoadStatus = 'loading' | 'ready' | 'invalid';
+type ShareStatus = 'idle' | 'copied' | 'created' | 'failed';
+
+const CONVERSATION_TYPES: ConversationType[] = ['bad', 'good'];
+
+const titleColors: Record<ConversationType, string> = {
+  bad: 'var(--color-chat-bad-text)',
+  good: 'var(--color-chat-good-text)',
+};
+
+export function ConversationBuilder() {
+  const { t } = useTranslation();
+
+  // Start from the locale's examples, so there is something to edit straight away
+  const [conversations, setConversations] = useState<ConversationPair>(() => ({
+    bad: parseConversation(t('problem.example.bad.messages', { returnObjects: true })).messages,
+    good: parseConversation(t('problem.example.good.messages', { returnObjects: true })).messages,
+  }));
+  const [loadStatus, setLoadStatus] = useState<LoadStatus>(() =>
+    readPermalinkCode(window.location.hash) ? 'loading' : 'ready'
+  );
+  const [shareStatus, setShareStatus] = useState<ShareStatus>('idle');
+  const [shareLink, setShareLink] = useState('');
+
+  // Re-enact the conversations from a shared link
+  useEffect(() => {
+    const code = readPermalinkCode(window.location.hash);
+    if (!code) return;
+
+    let isCancelled = false;
+    decodeConversations(code).then((decoded) => {
+      if (isCancelled) return;
+      if (decoded) {
+        setConversations(decoded);
+        setLoadStatus('ready');
+      } else {
+        setLoadStatus('invalid');
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const handleChange = useCallback((type: ConversationType, messages: ConversationMessage[]) => {
+    setConversations((prev) => ({ ...prev, [type]: messages }));
+    // The old link no longer matches what is on screen
+    setShareStatus('idle');
+    setShareLink('');
+  }, []);
+
+  // Incomplete messages are left out of the preview and the link until they are fixed
+  const parsed = useMemo(() => ({
+    bad: parseConversation(conversations.bad),
+    good: parseConversation(conversations.good),
+  }), [conversations]);
+  const invalidCount = parsed.bad.errors.length + parsed.good.errors.length;
+
+  const handleShare = async () => {
+    try {
+      const code = await encodeConversations({ bad: parsed.bad.messages, good: parsed.good.messages });
+      const link = buildPermalink(code, window.location.origin);
+      window.history.replaceState(null, '', link);
+      setShareLink(link);
+      try {
+        await navigator.clipboard.writeText(link);
+        setShareStatus('copied');
+      } catch {
+        // No clipboard access - the link is still shown to copy by hand
+        setShareStatus('created');
+      }
+    } catch {
+      setShareStatus('failed');
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <a
+        href="/"
+        className="inline-block mb-8 text-blue-600 dark:text-blue-400 hover:underline font-semibold"
+      >
+        <span aria-hidden="true" className="inline-block rtl:-scale-x-100">←</span> {t('builder.back')}
+      </a>
+      <h1 className="text-4xl md:text-5xl font-bold mb-6 text-gray-900 dark:text-gray-100">
+        {t('builder.title')}
+      </h1>
+      <p className="text-xl mb-10 text-gray-700 dark:text-gray-300 leading-relaxed max-w-3xl">
+        {t('builder.description')}
+      </p>
+
+      {loadStatus === 'loading' ? (
+        <p role="status" className="text-gray-600 dark:text-gray-400">{t('builder.loading')}</p>
+      ) : (
+        <>
+          {loadStatus === 'invalid' && (
+            <p role="alert" className="mb-6 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+              {t('builder.loadFailed')}
+            </p>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-8 mb-8">
+            {CONVERSATION_TYPES.map((type) => (
+              <ConversationEditor
+                key={type}
+                title={t(`problem.example.${type}.title`)}
+                titleColor={titleColors[type]}
+                messages={conversations[type]}
+                onChange={(messages) => handleChange(type, messages)}
+              />
+            ))}
+          </div>
+
+          <div className="mb-8 space-y-3" aria-live="polite">
+            <button
+              type="button"
+              onClick={handleShare}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl transition-colors duration-200 shadow-md cursor-pointer"
+            >
+              🔗 {t('builder.share')}
+            </button>
+            {shareStatus === 'copied' && (
+              <p className="font-semibold text-green-700 dark:text-green-400">✓ {t('builder.copied')}</p>
+            )}
+            {shareLink && (
+              <input
+                type="text"
+                readOnly
+                value={shareLink}
+                aria-label={t('builder.linkLabel')}
+                onFocus={(e) => e.target.select()}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+              />
+            )}
+            {shareStatus === 'failed' && (
+              <p role="alert" className="text-red-600 dark:text-red-400">{t('builder.shareFailed')}</p>
+            )}
+            {invalidCount > 0 && (
+              <p data-testid="builder-invalid" className="text-sm text-gray-600 dark:text-gray-400">
+                {t('builder.invalid', { count: invalidCount })}
+              </p>
+            )}
+          </div>
+
+          <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-gray-100">{t('builder.preview')}</h2>
+          <div className="grid md:grid-cols-2 gap-8">
+            {CONVERSATION_TYPES.map((type) => (
+              <ChatExample key={type} type={type} messages={parsed[type].messages} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
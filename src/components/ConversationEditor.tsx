@@ -0,0 +1,120 @@
+import { memo, useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ChatSender, ConversationMessage } from '../types/chat';
+
+interface ConversationEditorProps {
+  title: string;
+  titleColor: string;
+  messages: ConversationMessage[];
+  onChange: (messages: ConversationMessage[]) => void;
+}
+
+const SENDERS: ChatSender[] = ['you', 'support'];
+
+const controlClassName = 'px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:border-blue-500 dark:focus:border-blue-400';
+
+export const ConversationEditor = memo(function ConversationEditor({
+  title,
+  titleColor,
+  messages,
+  onChange,
+}: ConversationEditorProps) {
+  const { t } = useTranslation();
+  const idPrefix = useId();
+
+  const updateMessage = (index: number, changes: Partial<ConversationMessage>) => {
+    onChange(messages.map((message, i) => {
+      if (i !== index) return message;
+      const updated = { ...message, ...changes };
+      // An empty wait means the default reply delay
+      if (updated.delay === '') delete updated.delay;
+      return updated;
+    }));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(messages.filter((_, i) => i !== index));
+  };
+
+  // New messages answer the last one, like a real back-and-forth
+  const handleAdd = () => {
+    const lastSender = messages[messages.length - 1]?.sender;
+    onChange([...messages, { text: '', sender: lastSender === 'you' ? 'support' : 'you' }]);
+  };
+
+  return (
+    <fieldset className="rounded-2xl p-6 bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm border border-gray-200 dark:border-gray-700 shadow-md">
+      <legend className="px-2 text-xl font-bold" style={{ color: titleColor }}>
+        {title}
+      </legend>
+      <ol className="space-y-4">
+        {messages.map((message, index) => {
+          const number = index + 1;
+          const id = `${idPrefix}-${index}`;
+
+          return (
+            <li key={index} data-testid="builder-message" className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor={`${id}-sender`} className="text-sm font-semibold text-gray-600 dark:text-gray-400">
+                  {t('builder.sender')}
+                </label>
+                <select
+                  id={`${id}-sender`}
+                  value={message.sender}
+                  onChange={(e) => updateMessage(index, { sender: e.target.value as ChatSender })}
+                  className={`${controlClassName} cursor-pointer`}
+                >
+                  {SENDERS.map((sender) => (
+                    <option key={sender} value={sender}>
+                      {t(`chat.participants.${sender}.name`)}
+                    </option>
+                  ))}
+                </select>
+                {index > 0 && (
+                  <>
+                    <label htmlFor={`${id}-delay`} className="text-sm font-semibold text-gray-600 dark:text-gray-400">
+                      {t('builder.delay')}
+                    </label>
+                    <input
+                      id={`${id}-delay`}
+                      type="text"
+                      value={message.delay ?? ''}
+                      onChange={(e) => updateMessage(index, { delay: e.target.value })}
+                      placeholder={t('builder.delayPlaceholder')}
+                      className={`${controlClassName} w-28`}
+                    />
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(index)}
+                  aria-label={t('builder.remove', { number })}
+                  className="ms-auto px-2 py-1 text-sm rounded-lg text-gray-500 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+                >
+                  ✕
+                </button>
+              </div>
+              <label htmlFor={`${id}-text`} className="sr-only">
+                {t('builder.message', { number })}
+              </label>
+              <textarea
+                id={`${id}-text`}
+                value={message.text}
+                onChange={(e) => updateMessage(index, { text: e.target.value })}
+                rows={2}
+                className={`${controlClassName} w-full resize-y`}
+              />
+            </li>
+          );
+        })}
+      </ol>
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="mt-4 px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors duration-200 cursor-pointer"
+      >
+        + {t('builder.add')}
+      </button>
+    </fieldset>
+  );
+});
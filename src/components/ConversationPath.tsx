@@ -0,0 +1,158 @@
+import { Fragment, memo, useId, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChatMessage, ChatDateSeparator } from './ChatMessage';
+import { ChatMarkup } from './ChatMarkup';
+import { platformStyles, DEFAULT_CHAT_PLATFORM } from '../data/chatPlatforms';
+import { getChatParticipants } from '../data/chatParticipants';
+import { formatDateForPlatform, formatMessageTime, getSendTimeAnchor, simulateConversation } from '../utils/chatTimeline';
+import { formatElapsed } from '../utils/chatPlayback';
+import { createWorkingCalendar, type WorkingCalendar } from '../utils/workingCalendar';
+import {
+  findFastestConversationPath,
+  parseConversationPath,
+  summarizeConversationPath,
+  walkConversationPath,
+} from '../utils/conversationPath';
+import type { ChatPlatform, SendTime } from '../types/chat';
+
+interface ConversationPathProps {
+  platform?: ChatPlatform;
+  calendar?: WorkingCalendar; // Defaults to the current language's working week
+  sendTime?: SendTime | null; // When the first message goes out; right now by default
+}
+
+/**
+ * The bad conversation as a choose-your-own-path exercise: at each of your turns
+ * the visitor picks what to send, and the coworker answers as slowly as that choice deserves
+ */
+export const ConversationPath = memo(function ConversationPath({
+  platform = DEFAULT_CHAT_PLATFORM,
+  calendar,
+  sendTime = null,
+}: ConversationPathProps) {
+  const { t, i18n } = useTranslation();
+  const promptId = useId();
+  const language = i18n.language;
+  const [choices, setChoices] = useState<number[]>([]);
+
+  const path = useMemo(
+    () => parseConversationPath(t('path.script', { returnObjects: true })).path,
+    [t, language]
+  );
+  const participants = useMemo(
+    () => getChatParticipants(t('chat.participants', { returnObjects: true })),
+    [t, language]
+  );
+  const workingCalendar = useMemo(() => calendar ?? createWorkingCalendar(language), [calendar, language]);
+  const firstSentAt = useMemo(() => (sendTime ? getSendTimeAnchor(sendTime) : new Date()), [sendTime]);
+
+  const walk = useMemo(() => path && walkConversationPath(path, choices), [path, choices]);
+  const timeline = useMemo(
+    () => (walk ? simulateConversation(walk.messages, firstSentAt, workingCalendar) : []),
+    [walk, firstSentAt, workingCalendar]
+  );
+
+  const isFinished = walk !== null && walk.stepId === null;
+  const summary = useMemo(() => summarizeConversationPath(timeline), [timeline]);
+  const fastest = useMemo(
+    () => (path && isFinished ? findFastestConversationPath(path, firstSentAt, workingCalendar) : null),
+    [path, isFinished, firstSentAt, workingCalendar]
+  );
+
+  if (!path || !walk) {
+    return null;
+  }
+
+  const styles = platformStyles[platform];
+  const step = walk.stepId ? path.steps[walk.stepId] : null;
+
+  return (
+    <div
+      data-testid="conversation-path"
+      className="shadow-lg border-2"
+      style={{ ...styles.container, borderColor: 'var(--color-border)' }}
+    >
+      <div aria-live="polite" style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        {timeline.map((message, index) => {
+          const previous = timeline[index - 1];
+          const participant = participants[message.sender];
+
+          return (
+            <Fragment key={index}>
+              {(!previous || previous.dateBreakIndex !== message.dateBreakIndex) && (
+                <ChatDateSeparator
+                  styles={styles}
+                  label={formatDateForPlatform(message.sentAt, language, styles)}
+                  isFirst={index === 0}
+                />
+              )}
+              {message.sender === 'support' && previous && (
+                <p data-testid="path-wait" className="text-center text-xs my-1" style={{ color: 'var(--color-text-tertiary)' }}>
+                  ⏳ {t('path.waited', { elapsed: formatElapsed(message.sentAt.getTime() - previous.sentAt.getTime(), language) })}
+                </p>
+              )}
+              <ChatMessage
+                styles={styles}
+                sender={message.sender}
+                senderName={participant.name}
+                senderRole={participant.role}
+                avatarInitial={participant.initials}
+                avatarColor={participant.avatarColor}
+                avatarUrl={participant.avatarUrl}
+                timestamp={formatMessageTime(message.sentAt, language)}
+                text={message.text}
+                animationDelay={0}
+                presence={message.presence}
+                presenceLabel={t(`chat.presence.${message.presence}`)}
+              />
+            </Fragment>
+          );
+        })}
+      </div>
+
+      {step ? (
+        <div role="group" aria-labelledby={promptId} data-testid="path-choices" className={timeline.length > 0 ? 'mt-6' : ''}>
+          <p id={promptId} className="font-semibold mb-3" style={{ color: 'var(--color-text-primary)' }}>
+            {step.prompt}
+          </p>
+          <div className="space-y-2">
+            {step.options.map((option, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => setChoices((prev) => [...prev, index])}
+                className="block w-full text-start px-4 py-3 rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white/70 dark:bg-gray-800/70 text-gray-800 dark:text-gray-200 hover:border-blue-500 dark:hover:border-blue-400 transition-colors duration-200 cursor-pointer"
+              >
+                <ChatMarkup text={option.text} />
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div
+          role="status"
+          data-testid="path-summary"
+          className="mt-6 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 text-gray-800 dark:text-gray-200"
+        >
+          <p className="font-bold mb-2">{t('path.summaryTitle')}</p>
+          <p>{t('path.elapsed', { elapsed: formatElapsed(summary.elapsedMs, language) })}</p>
+          <p>{t('path.sent', { count: summary.sentCount })}</p>
+          {fastest && (
+            <p className="mt-2 font-semibold">
+              {summary.elapsedMs <= fastest.elapsedMs
+                ? `🏆 ${t('path.best')}`
+                : t('path.fastest', { elapsed: formatElapsed(fastest.elapsedMs, language) })}
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => setChoices([])}
+            className="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 cursor-pointer"
+          >
+            ↺ {t('path.restart')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -43,7 +43,7 @@ export const DarkModeToggle = memo(function DarkModeToggle({ mobile = false }: D
     return mobile ? (
       <div className="w-10 h-10 rounded-full bg-gray-200 dark:bg-gray-700 animate-pulse" />
     ) : (
-      <div className="fixed top-4 left-4 w-12 h-12 rounded-full bg-gray-200 dark:bg-gray-700 animate-pulse" />
+      <div className="fixed top-4 start-4 w-12 h-12 rounded-full bg-gray-200 dark:bg-gray-700 animate-pulse" />
     );
   }
 
@@ -66,7 +66,7 @@ export const DarkModeToggle = memo(function DarkModeToggle({ mobile = false }: D
   return (
     <button
       onClick={toggleTheme}
-      className="fixed top-4 left-4 z-50 w-12 h-12 rounded-full shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-110 flex items-center justify-center text-xl backdrop-blur-sm cursor-pointer"
+      className="fixed top-4 start-4 z-50 w-12 h-12 rounded-full shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-110 flex items-center justify-center text-xl backdrop-blur-sm cursor-pointer"
       style={{ background: 'linear-gradient(to bottom right, var(--color-bg-secondary), var(--color-bg-tertiary))', borderColor: 'var(--color-border)', borderWidth: '1px', borderStyle: 'solid' }}
       aria-label={isDark ? 'Switch to light mode' : 'Switch to dark mode'}
       type="button"
@@ -315,7 +315,7 @@ export const LanguageSelect = memo(function LanguageSelect({ mobile = false }: L
               readOnly={!open}
             />
             <svg
-              className="h-3.5 w-3.5 flex-shrink-0 ml-1.5 pointer-events-none"
+              className="h-3.5 w-3.5 flex-shrink-0 ms-1.5 pointer-events-none"
               style={{ color: 'var(--color-text-secondary)' }}
               fill="none"
               viewBox="0 0 24 24"
@@ -366,7 +366,7 @@ export const LanguageSelect = memo(function LanguageSelect({ mobile = false }: L
                         }}
                         type="button"
                         onClick={() => handleChange(language)}
-                        className="w-full text-left px-3 py-2.5 text-sm cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded"
+                        className="w-full text-start px-3 py-2.5 text-sm cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded"
                         style={{
                           backgroundColor: isSelected
                             ? 'var(--color-blue)'
@@ -419,7 +419,7 @@ export const LanguageSelect = memo(function LanguageSelect({ mobile = false }: L
   }
 
   return (
-    <div className="fixed top-4 right-4 z-50" style={{ minWidth: '140px' }}>
+    <div className="fixed top-4 end-4 z-50" style={{ minWidth: '140px' }}>
       <Popover.Root open={open} onOpenChange={handleOpenChange}>
         <Popover.Trigger asChild>
           <div
@@ -501,7 +501,7 @@ export const LanguageSelect = memo(function LanguageSelect({ mobile = false }: L
               readOnly={!open}
             />
             <svg
-              className="h-4 w-4 flex-shrink-0 ml-2 pointer-events-none"
+              className="h-4 w-4 flex-shrink-0 ms-2 pointer-events-none"
               style={{ color: 'var(--color-text-secondary)' }}
               fill="none"
               viewBox="0 0 24 24"
@@ -543,7 +543,7 @@ export const LanguageSelect = memo(function LanguageSelect({ mobile = false }: L
                       }}
                       type="button"
                       onClick={() => handleChange(language)}
-                      className="w-full text-left px-4 py-2.5 text-sm cursor-pointer transition-colors"
+                      className="w-full text-start px-4 py-2.5 text-sm cursor-pointer transition-colors"
                       style={{
                         backgroundColor: isSelected
                           ? 'var(--color-blue)'
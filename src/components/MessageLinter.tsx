@@ -0,0 +1,120 @@
+import { useEffect, useId, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import i18n from '../i18n/config';
+import {
+  buildOpenerPattern,
+  getExampleGreeting,
+  lintFirstMessage,
+  suggestRewrite,
+} from '../utils/messageLinter';
+import { parseConversation } from '../utils/conversationSchema';
+
+export function MessageLinter() {
+  const { t } = useTranslation();
+  const [currentLanguage, setCurrentLanguage] = useState(i18n.language);
+  const [message, setMessage] = useState('');
+  const inputId = useId();
+
+  // Subscribe to language changes
+  useEffect(() => {
+    const handleLanguageChange = (lng: string) => {
+      setCurrentLanguage(lng);
+    };
+
+    i18n.on('languageChanged', handleLanguageChange);
+
+    return () => {
+      i18n.off('languageChanged', handleLanguageChange);
+    };
+  }, []);
+
+  // Greetings and pings come from the locale's own corpora, so every language is covered
+  const openerPattern = useMemo(() => {
+    const rotatingMessages = i18n.t('rotatingMessages', { returnObjects: true });
+    const badExamples = i18n.t('examples.bad', { returnObjects: true });
+    return buildOpenerPattern([
+      ...(Array.isArray(rotatingMessages) ? rotatingMessages : []),
+      ...(Array.isArray(badExamples) ? badExamples : []),
+    ]);
+  }, [currentLanguage]);
+
+  const greeting = useMemo(() => {
+    const [firstMessage] = parseConversation(i18n.t('problem.example.good.messages', { returnObjects: true })).messages;
+    return firstMessage ? getExampleGreeting(firstMessage.text) : '';
+  }, [currentLanguage]);
+
+  const result = useMemo(
+    () => lintFirstMessage(message, openerPattern, currentLanguage),
+    [message, openerPattern, currentLanguage]
+  );
+
+  const suggestion = useMemo(() => {
+    if (result.issues.length === 0) return '';
+    const placeholders = i18n.t('linter.placeholders', { returnObjects: true });
+    return suggestRewrite(result, greeting, Array.isArray(placeholders) ? placeholders : []);
+  }, [result, greeting, currentLanguage]);
+
+  const hasMessage = message.trim().length > 0;
+
+  return (
+    <div className="rounded-2xl p-6 md:p-8 bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm border border-gray-200 dark:border-gray-700 shadow-md">
+      <label htmlFor={inputId} className="block text-lg font-semibold mb-3 text-gray-800 dark:text-gray-200">
+        {t('linter.label')}
+      </label>
+      <textarea
+        id={inputId}
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder={t('linter.placeholder')}
+        rows={3}
+        className="w-full p-4 rounded-xl border-2 border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:border-blue-500 dark:focus:border-blue-400 transition-colors duration-200 resize-y"
+      />
+
+      <div aria-live="polite">
+        {hasMessage && result.issues.length === 0 && (
+          <div className="mt-4 p-4 rounded-xl bg-green-100 dark:bg-green-900/30">
+            <p className="font-semibold text-green-700 dark:text-green-400">
+              ✓ {t('linter.looksGood')}
+            </p>
+          </div>
+        )}
+
+        {result.issues.length > 0 && (
+          <div className="mt-4 space-y-4">
+            <ul className="space-y-3">
+              {result.issues.map((issue) => (
+                <li
+                  key={issue}
+                  className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border-s-4 border-red-500"
+                >
+                  <p className="font-semibold text-red-700 dark:text-red-400">
+                    {t(`linter.issues.${issue}.title`)}
+                  </p>
+                  <p className="text-gray-700 dark:text-gray-300">
+                    {t(`linter.issues.${issue}.explanation`)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+
+            <div className="p-4 rounded-xl bg-green-50 dark:bg-green-900/20 border-s-4 border-green-500">
+              <p className="font-semibold mb-2 text-green-700 dark:text-green-400">
+                {t('linter.suggestion')}
+              </p>
+              <p className="text-gray-800 dark:text-gray-200 italic" data-testid="linter-suggestion">
+                {suggestion}
+              </p>
+              <button
+                type="button"
+                onClick={() => setMessage(suggestion)}
+                className="mt-3 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md cursor-pointer"
+              >
+                {t('linter.useSuggestion')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useId, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import i18n from '../i18n/config';
+import { getExampleGreeting } from '../utils/messageLinter';
+import {
+  CONTEXT_SECTIONS,
+  buildMergeCorpus,
+  formatMergedMessage,
+  mergeMessages,
+  type ContextSection,
+  type MergeFragmentKind,
+  type MergeTemplate,
+} from '../utils/messageMerge';
+import { parseConversation } from '../utils/conversationSchema';
+
+const asStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const kindClassNames: Record<MergeFragmentKind, string> = {
+  greeting: 'bg-red-50 dark:bg-red-900/20 border-red-500',
+  filler: 'bg-amber-50 dark:bg-amber-900/20 border-amber-500',
+  content: 'bg-green-50 dark:bg-green-900/20 border-green-500',
+};
+
+export function MessageMerge() {
+  const { t } = useTranslation();
+  const [currentLanguage, setCurrentLanguage] = useState(i18n.language);
+  const [thread, setThread] = useState('');
+  const [isCopied, setIsCopied] = useState(false);
+  const inputId = useId();
+
+  // Subscribe to language changes
+  useEffect(() => {
+    const handleLanguageChange = (lng: string) => {
+      setCurrentLanguage(lng);
+    };
+
+    i18n.on('languageChanged', handleLanguageChange);
+
+    return () => {
+      i18n.off('languageChanged', handleLanguageChange);
+    };
+  }, []);
+
+  // Greetings and pings come from the same locale corpora as the linter's
+  const corpus = useMemo(() => {
+    const cues = Object.fromEntries(
+      CONTEXT_SECTIONS.map((section) => [section, asStrings(i18n.t(`merge.sections.${section}.cues`, { returnObjects: true }))])
+    ) as Record<ContextSection, string[]>;
+    return buildMergeCorpus(
+      [
+        ...asStrings(i18n.t('rotatingMessages', { returnObjects: true })),
+        ...asStrings(i18n.t('examples.bad', { returnObjects: true })),
+      ],
+      asStrings(i18n.t('merge.filler', { returnObjects: true })),
+      cues
+    );
+  }, [currentLanguage]);
+
+  const template = useMemo<MergeTemplate>(() => {
+    const [firstMessage] = parseConversation(i18n.t('problem.example.good.messages', { returnObjects: true })).messages;
+    return {
+      greeting: firstMessage ? getExampleGreeting(firstMessage.text) : '',
+      question: i18n.t('merge.question'),
+      sections: Object.fromEntries(
+        CONTEXT_SECTIONS.map((section) => [section, {
+          label: i18n.t(`merge.sections.${section}.label`),
+          placeholder: i18n.t(`merge.sections.${section}.placeholder`),
+        }])
+      ) as MergeTemplate['sections'],
+    };
+  }, [currentLanguage]);
+
+  const result = useMemo(
+    () => mergeMessages(thread, corpus, currentLanguage),
+    [thread, corpus, currentLanguage]
+  );
+  const merged = useMemo(() => formatMergedMessage(result, template), [result, template]);
+
+  const handleChange = (value: string) => {
+    setThread(value);
+    setIsCopied(false);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(merged);
+      setIsCopied(true);
+    } catch {
+      // No clipboard access - the message can still be selected and copied by hand
+    }
+  };
+
+  return (
+    <div className="rounded-2xl p-6 md:p-8 bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm border border-gray-200 dark:border-gray-700 shadow-md">
+      <label htmlFor={inputId} className="block text-lg font-semibold mb-3 text-gray-800 dark:text-gray-200">
+        {t('merge.label')}
+      </label>
+      <textarea
+        id={inputId}
+        value={thread}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={t('merge.placeholder')}
+        rows={5}
+        className="w-full p-4 rounded-xl border-2 border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:border-blue-500 dark:focus:border-blue-400 transition-colors duration-200 resize-y"
+      />
+
+      <div aria-live="polite">
+        {result.fragments.length > 0 && (
+          <div className="mt-4 grid md:grid-cols-2 gap-6">
+            <div>
+              <p className="font-semibold mb-2 text-gray-800 dark:text-gray-200">{t('merge.fragmentsTitle')}</p>
+              <ul className="space-y-2">
+                {result.fragments.map((fragment, index) => (
+                  <li
+                    key={index}
+                    data-testid="merge-fragment"
+                    data-kind={fragment.kind}
+                    className={`p-3 rounded-xl border-s-4 ${kindClassNames[fragment.kind]}`}
+                  >
+                    <span className={`text-gray-800 dark:text-gray-200 ${fragment.kind === 'content' ? '' : 'line-through'}`}>
+                      {fragment.line}
+                    </span>
+                    <span className="block text-xs text-gray-600 dark:text-gray-400">
+                      {t(`merge.kinds.${fragment.kind}`)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="p-4 rounded-xl bg-green-50 dark:bg-green-900/20 border-s-4 border-green-500">
+              <p className="font-semibold mb-2 text-green-700 dark:text-green-400">{t('merge.resultTitle')}</p>
+              <p data-testid="merge-result" className="text-gray-800 dark:text-gray-200" style={{ whiteSpace: 'pre-wrap' }}>
+                {merged}
+              </p>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="mt-3 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md cursor-pointer"
+              >
+                {isCopied ? `✓ ${t('merge.copied')}` : t('merge.copy')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
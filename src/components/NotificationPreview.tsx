@@ -0,0 +1,105 @@
+import { memo, useId, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { platformStyles, DEFAULT_CHAT_PLATFORM } from '../data/chatPlatforms';
+import { getChatParticipants } from '../data/chatParticipants';
+import { NOTIFICATION_SURFACES, notificationRules } from '../data/notificationSurfaces';
+import { parseConversation } from '../utils/conversationSchema';
+import { truncateNotificationText } from '../utils/notificationPreview';
+import type { ChatPlatform, ConversationType, NotificationDevice } from '../types/chat';
+
+interface NotificationPreviewProps {
+  type: ConversationType;
+  platform?: ChatPlatform; // The app the notification comes from
+}
+
+const DEVICES: NotificationDevice[] = ['phone', 'desktop'];
+
+const deviceClassNames: Record<NotificationDevice, string> = {
+  phone: 'rounded-[2rem] p-4 bg-gradient-to-b from-indigo-200 to-purple-200 dark:from-indigo-950 dark:to-purple-950',
+  desktop: 'rounded-xl p-4 bg-gradient-to-br from-sky-100 to-gray-200 dark:from-slate-800 dark:to-gray-900',
+};
+
+/**
+ * What the other person sees of the first message before opening the chat
+ */
+export const NotificationPreview = memo(function NotificationPreview({
+  type,
+  platform = DEFAULT_CHAT_PLATFORM,
+}: NotificationPreviewProps) {
+  const { t, i18n } = useTranslation();
+  const titleId = useId();
+  const language = i18n.language;
+
+  const firstMessage = useMemo(
+    () => parseConversation(t(`problem.example.${type}.messages`, { returnObjects: true })).messages[0],
+    [t, type, language]
+  );
+  const sender = useMemo(
+    () => firstMessage && getChatParticipants(t('chat.participants', { returnObjects: true }))[firstMessage.sender],
+    [t, firstMessage, language]
+  );
+  const now = useMemo(
+    () => new Intl.RelativeTimeFormat(language, { numeric: 'auto' }).format(0, 'second'),
+    [language]
+  );
+
+  if (!firstMessage || !sender) {
+    return null;
+  }
+
+  const appName = platformStyles[platform].name;
+
+  return (
+    <section data-testid="notification-preview" aria-labelledby={titleId} className="mt-6">
+      <h4 id={titleId} className="text-sm font-semibold mb-3 text-gray-600 dark:text-gray-400">
+        {t('chat.notifications.title')}
+      </h4>
+      <div className="grid sm:grid-cols-2 gap-4">
+        {DEVICES.map((device) => (
+          <div key={device} data-testid={`notification-${device}`} className={`space-y-2 ${deviceClassNames[device]}`}>
+            <p className="text-xs font-semibold text-center text-gray-700 dark:text-gray-300">
+              {t(`chat.notifications.${device}`)}
+            </p>
+            {NOTIFICATION_SURFACES.filter((surface) => notificationRules[surface].device === device).map((surface) => {
+              const rules = notificationRules[surface];
+              const body = truncateNotificationText(firstMessage.text, rules);
+
+              return (
+                <figure
+                  key={surface}
+                  data-testid="notification-banner"
+                  data-surface={surface}
+                  className="m-0 p-3 rounded-2xl bg-white/85 dark:bg-gray-800/90 text-gray-900 dark:text-gray-100 shadow-md backdrop-blur-sm"
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span
+                      aria-hidden="true"
+                      className="flex items-center justify-center w-5 h-5 rounded-md text-[0.625rem] font-bold text-white"
+                      style={{ backgroundColor: sender.avatarColor }}
+                    >
+                      {sender.initials}
+                    </span>
+                    <span className="font-semibold uppercase tracking-wide">{appName}</span>
+                    <span className="ms-auto">{now}</span>
+                  </div>
+                  <p className="mt-1 text-sm font-semibold">{sender.name}</p>
+                  <p
+                    data-testid="notification-body"
+                    className="text-sm overflow-hidden"
+                    style={{ display: '-webkit-box', WebkitLineClamp: rules.maxLines, WebkitBoxOrient: 'vertical', overflowWrap: 'anywhere' }}
+                  >
+                    {body.text}
+                  </p>
+                  <figcaption className="mt-2 text-[0.6875rem] text-gray-500 dark:text-gray-400">
+                    {rules.name}
+                    {body.isTruncated && ` · ${t('chat.notifications.truncated', { count: rules.maxLines * rules.charsPerLine })}`}
+                  </figcaption>
+                </figure>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+});
@@ -0,0 +1,42 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CHAT_PLATFORMS, platformStyles } from '../data/chatPlatforms';
+import type { ChatPlatform } from '../types/chat';
+
+interface PlatformSwitcherProps {
+  value: ChatPlatform;
+  onChange: (platform: ChatPlatform) => void;
+}
+
+export const PlatformSwitcher = memo(function PlatformSwitcher({ value, onChange }: PlatformSwitcherProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <span id="chat-platform-label" className="text-sm font-semibold text-gray-600 dark:text-gray-400 me-1">
+        {t('chat.platformLabel')}
+      </span>
+      <div role="radiogroup" aria-labelledby="chat-platform-label" className="flex flex-wrap gap-2">
+        {CHAT_PLATFORMS.map((platform) => {
+          const isSelected = platform === value;
+          return (
+            <button
+              key={platform}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => onChange(platform)}
+              className={`px-3 py-1.5 text-sm rounded-lg border transition-colors duration-200 cursor-pointer ${
+                isSelected
+                  ? 'bg-blue-600 border-blue-600 text-white shadow-md'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500 dark:hover:border-blue-400'
+              }`}
+            >
+              {platformStyles[platform].name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
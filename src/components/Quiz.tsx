@@ -1,23 +1,37 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import i18n from '../i18n/config';
 import { QuizQuestion } from './QuizQuestion';
+import { QuizResults } from './QuizResults';
 import { BlackjackVerification } from './BlackjackVerification';
-import type { QuizState, VerificationState, QuizQuestion as QuizQuestionType } from '../types/quiz';
+import { buildQuizSession, createSeed, toQuizQuestions } from '../utils/quizSession';
+import { getInitialAnswer, gradeAnswer, isAnswerComplete } from '../utils/quizGrading';
+import { recordBlackjackRounds, recordSubmission } from '../utils/quizResults';
+import { QUIZ_PROGRESS_VERSION, clearQuizProgress, getQuestionSetFingerprint, saveQuizProgress } from '../utils/quizProgress';
+import type { QuizAnswer, QuizProgress, QuizQuestionResult, QuizState, VerificationState } from '../types/quiz';
 
 interface QuizProps {
   onClose: () => void;
+  seed?: number; // Replays a given session; a new one is drawn by default
+  savedProgress?: QuizProgress | null; // Resumes a saved session, seed included
 }
 
-export function Quiz({ onClose }: QuizProps) {
+export function Quiz({ onClose, seed: initialSeed, savedProgress }: QuizProps) {
   const { t } = useTranslation();
   const [currentLanguage, setCurrentLanguage] = useState(i18n.language);
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswers, setSelectedAnswers] = useState<Map<number, number>>(new Map());
-  const [answeredQuestions, setAnsweredQuestions] = useState<Set<number>>(new Set());
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(savedProgress?.currentQuestionIndex ?? 0);
+  const [selectedAnswers, setSelectedAnswers] = useState<Map<number, QuizAnswer>>(() => new Map(savedProgress?.answers));
+  const [answeredQuestions, setAnsweredQuestions] = useState<Set<number>>(() => new Set(savedProgress?.answeredQuestionIds));
   const [quizState, setQuizState] = useState<QuizState>('in-progress');
+  // A session saved while a wrong answer was waiting shows its explanations again, then the blackjack table
+  const [pendingQuestionIndex, setPendingQuestionIndex] = useState<number | null>(savedProgress?.pendingQuestionIndex ?? null);
   const [verificationState, setVerificationState] = useState<VerificationState>('none');
-  const [pendingQuestionIndex, setPendingQuestionIndex] = useState<number | null>(null);
+  const [seed, setSeed] = useState(() => savedProgress?.seed ?? initialSeed ?? createSeed());
+  const [results, setResults] = useState<Map<number, QuizQuestionResult>>(
+    () => new Map(savedProgress?.results.map((result) => [result.questionId, result]))
+  );
+  const questionShownAt = useRef(0);
+  const resumedTimeMs = useRef(savedProgress?.currentQuestionTimeMs ?? 0);
 
   // Subscribe to language changes
   useEffect(() => {
@@ -32,22 +46,48 @@ export function Quiz({ onClose }: QuizProps) {
     };
   }, []);
 
-  // Load questions from translations
-  const questions = useMemo(() => {
-    const translatedQuestions = i18n.t('quiz.questions', { returnObjects: true }) as Array<{
-      question: string;
-      options: string[];
-      correctAnswer: number;
-    }>;
-    
-    // Add IDs to questions
-    return translatedQuestions.map((q, index) => ({
-      id: index + 1,
-      question: q.question,
-      options: q.options,
-      correctAnswer: q.correctAnswer,
-    })) as QuizQuestionType[];
-  }, [currentLanguage]);
+  // Sample this session's questions from the translated pool, with the options shuffled.
+  // The seed stays the same for the session, so switching language keeps the same questions.
+  const pool = useMemo(() => toQuizQuestions(i18n.t('quiz.questions', { returnObjects: true })), [currentLanguage]);
+  const questions = useMemo(() => buildQuizSession(pool, { seed }), [pool, seed]);
+  const fingerprint = useMemo(() => getQuestionSetFingerprint(pool), [pool]);
+
+  // Time on a question starts when it's shown, and again when the visitor is back from the blackjack table
+  // (see the handlers below). A resumed question carries on from the time saved with it.
+  useEffect(() => {
+    questionShownAt.current = Date.now() - resumedTimeMs.current;
+  }, []);
+
+  // Everything needed to pick the session up again; nothing once it's finished
+  const progressToSave = useMemo((): Omit<QuizProgress, 'currentQuestionTimeMs'> | null => {
+    if (quizState === 'completed') return null;
+    return {
+      version: QUIZ_PROGRESS_VERSION,
+      fingerprint,
+      seed,
+      currentQuestionIndex,
+      answers: [...selectedAnswers],
+      answeredQuestionIds: [...answeredQuestions],
+      results: [...results.values()],
+      pendingQuestionIndex,
+    };
+  }, [quizState, fingerprint, seed, currentQuestionIndex, selectedAnswers, answeredQuestions, results, pendingQuestionIndex]);
+
+  // Save on every change, and with the time so far when the quiz is closed or the page is left
+  useEffect(() => {
+    if (!progressToSave) {
+      clearQuizProgress();
+      return;
+    }
+
+    const save = () => saveQuizProgress({ ...progressToSave, currentQuestionTimeMs: Date.now() - questionShownAt.current });
+    save();
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.removeEventListener('pagehide', save);
+      save();
+    };
+  }, [progressToSave]);
 
   // Safety check: ensure questions are loaded
   if (!questions || questions.length === 0) {
@@ -63,35 +103,38 @@ export function Quiz({ onClose }: QuizProps) {
   }
 
   const currentQuestion = questions[currentQuestionIndex];
-  const selectedAnswer = selectedAnswers.get(currentQuestion.id) ?? null;
+  const selectedAnswer = selectedAnswers.get(currentQuestion.id) ?? getInitialAnswer(currentQuestion);
   const isAnswered = answeredQuestions.has(currentQuestion.id);
-  const isCorrect = useMemo(() => {
-    if (!isAnswered || selectedAnswer === null) return null;
-    return selectedAnswer === currentQuestion.correctAnswer;
-  }, [isAnswered, selectedAnswer, currentQuestion.correctAnswer]);
+  const canSubmit = isAnswerComplete(currentQuestion, selectedAnswer);
+  const isCorrect = isAnswered && selectedAnswer !== null ? gradeAnswer(currentQuestion, selectedAnswer) : null;
 
-  const handleAnswer = (answerIndex: number) => {
-    setSelectedAnswers(prev => new Map(prev).set(currentQuestion.id, answerIndex));
+  const handleAnswer = (answer: QuizAnswer) => {
+    setSelectedAnswers(prev => new Map(prev).set(currentQuestion.id, answer));
   };
 
   const handleSubmitAnswer = () => {
-    if (selectedAnswer === null) return;
+    if (!canSubmit || selectedAnswer === null) return;
 
-    const correct = selectedAnswer === currentQuestion.correctAnswer;
+    const correct = gradeAnswer(currentQuestion, selectedAnswer);
+    const submission = {
+      questionId: currentQuestion.id,
+      answer: selectedAnswer,
+      isCorrect: correct,
+      timeSpentMs: Date.now() - questionShownAt.current,
+    };
+    setResults(prev => new Map(prev).set(currentQuestion.id, recordSubmission(prev.get(currentQuestion.id), submission)));
     setAnsweredQuestions(prev => new Set(prev).add(currentQuestion.id));
 
     if (!correct) {
-      // Wrong answer - trigger verification
+      // Wrong answer - verification follows once the explanations have been read
       setPendingQuestionIndex(currentQuestionIndex);
-      setVerificationState('required');
-    } else {
-      // Correct answer - move to next question or complete
-      handleNextQuestion();
     }
+    // Either way, stay on the question so the explanations can be read before moving on
   };
 
   const handleNextQuestion = () => {
     if (currentQuestionIndex < questions.length - 1) {
+      questionShownAt.current = Date.now();
       setCurrentQuestionIndex(prev => prev + 1);
     } else {
       // Quiz completed
@@ -99,11 +142,16 @@ export function Quiz({ onClose }: QuizProps) {
     }
   };
 
-  const handleVerificationPassed = () => {
+  const handleVerificationPassed = (rounds: number) => {
+    questionShownAt.current = Date.now();
     setVerificationState('passed');
     // Allow user to retry the question
     if (pendingQuestionIndex !== null) {
       const questionToRetry = questions[pendingQuestionIndex];
+      setResults(prev => {
+        const result = prev.get(questionToRetry.id);
+        return result ? new Map(prev).set(questionToRetry.id, recordBlackjackRounds(result, rounds)) : prev;
+      });
       setSelectedAnswers(prev => {
         const newMap = new Map(prev);
         newMap.delete(questionToRetry.id);
@@ -120,27 +168,26 @@ export function Quiz({ onClose }: QuizProps) {
     setVerificationState('none');
   };
 
+  // Start over with a fresh draw of questions
+  const handleRetake = () => {
+    questionShownAt.current = Date.now();
+    setSeed(createSeed());
+    setCurrentQuestionIndex(0);
+    setSelectedAnswers(new Map());
+    setAnsweredQuestions(new Set());
+    setResults(new Map());
+    setPendingQuestionIndex(null);
+    setVerificationState('none');
+    setQuizState('in-progress');
+  };
+
   const progress = ((currentQuestionIndex + (isAnswered ? 1 : 0)) / questions.length) * 100;
 
   if (quizState === 'completed') {
     return (
       <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
-        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-8 max-w-2xl w-full mx-4 border-2 border-gray-200 dark:border-gray-700">
-          <div className="text-center">
-            <div className="text-6xl mb-4">🎉</div>
-            <h2 className="text-3xl font-bold mb-4 text-gray-900 dark:text-gray-100">
-              {t('quiz.completed.title')}
-            </h2>
-            <p className="text-lg text-gray-600 dark:text-gray-400 mb-8">
-              {t('quiz.completed.message')}
-            </p>
-            <button
-              onClick={onClose}
-              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg cursor-pointer"
-            >
-              {t('quiz.completed.close')}
-            </button>
-          </div>
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-8 max-w-2xl w-full mx-4 border-2 border-gray-200 dark:border-gray-700 max-h-[90vh] overflow-y-auto">
+          <QuizResults questions={questions} seed={seed} results={results} onRetake={handleRetake} onClose={onClose} />
         </div>
       </div>
     );
@@ -187,6 +234,7 @@ export function Quiz({ onClose }: QuizProps) {
             selectedAnswer={selectedAnswer}
             isAnswered={isAnswered}
             isCorrect={isCorrect}
+            onLearnMore={onClose}
           />
 
           {/* Submit Button - Always visible to prevent layout shift */}
@@ -194,9 +242,9 @@ export function Quiz({ onClose }: QuizProps) {
             <div className="mt-6 flex justify-end">
               <button
                 onClick={handleSubmitAnswer}
-                disabled={selectedAnswer === null}
+                disabled={!canSubmit}
                 className={`px-6 py-3 font-semibold rounded-lg transition-all duration-200 shadow-md ${
-                  selectedAnswer === null
+                  !canSubmit
                     ? 'bg-gray-400 dark:bg-gray-600 text-gray-200 dark:text-gray-400 cursor-not-allowed opacity-60'
                     : 'bg-blue-600 hover:bg-blue-700 text-white hover:shadow-lg cursor-pointer'
                 }`}
@@ -206,14 +254,26 @@ export function Quiz({ onClose }: QuizProps) {
             </div>
           )}
 
+          {/* Continue Button - Wrong answers go to verification once the explanations have been read */}
+          {isAnswered && isCorrect === false && (
+            <div className="mt-6 flex justify-end">
+              <button
+                onClick={() => setVerificationState('required')}
+                className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg cursor-pointer"
+              >
+                {t('quiz.continue')}
+              </button>
+            </div>
+          )}
+
           {/* Next Button */}
-          {isAnswered && isCorrect && currentQuestionIndex < questions.length - 1 && (
+          {isAnswered && isCorrect && (
             <div className="mt-6 flex justify-end">
               <button
                 onClick={handleNextQuestion}
                 className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg cursor-pointer"
               >
-                {t('quiz.next')}
+                {currentQuestionIndex < questions.length - 1 ? t('quiz.next') : t('quiz.finish')}
               </button>
             </div>
           )}
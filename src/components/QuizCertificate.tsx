@@ -0,0 +1,165 @@
+import { memo, useId, useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { issueCertificate, type IssuedCertificate } from '../api/certificates';
+import { CERTIFICATE_NAME_MAX_LENGTH, buildVerifyUrl, normalizeCertificateName } from '../utils/certificate';
+import { buildCertificateSvg, jpegToPdf } from '../utils/certificateImage';
+import { createTextMeasurer, downloadBlob, svgToImageBlob } from '../utils/chatImage';
+import type { QuizAnswer } from '../types/quiz';
+
+interface QuizCertificateProps {
+  seed: number;
+  answers: [number, QuizAnswer][]; // First answer to each question, by question id
+}
+
+type CertificateFormat = 'svg' | 'pdf';
+type IssueStatus = 'idle' | 'creating' | 'failed';
+
+const FORMATS: { format: CertificateFormat; label: string }[] = [
+  { format: 'svg', label: 'SVG' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+// The JPEG inside the PDF is drawn at twice the page size, so it prints sharply
+const PDF_SCALE = 2;
+
+/**
+ * Issues a signed completion certificate and downloads it in the current language.
+ * A Pages Function grades the answers and signs the code, since the secret can't be shipped to the browser.
+ */
+export const QuizCertificate = memo(function QuizCertificate({ seed, answers }: QuizCertificateProps) {
+  const { t, i18n } = useTranslation();
+  const nameId = useId();
+  const [name, setName] = useState('');
+  const [issueStatus, setIssueStatus] = useState<IssueStatus>('idle');
+  const [issued, setIssued] = useState<(IssuedCertificate & { name: string }) | null>(null);
+  const [hasDownloadFailed, setHasDownloadFailed] = useState(false);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    // A certificate signs the name it was issued for
+    setIssued(null);
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    const certificateName = normalizeCertificateName(name);
+    if (!certificateName) return;
+
+    setIssueStatus('creating');
+    try {
+      const certificate = await issueCertificate({ name: certificateName, seed, answers });
+      setIssued({ ...certificate, name: certificateName });
+      setIssueStatus('idle');
+    } catch {
+      setIssueStatus('failed');
+    }
+  };
+
+  const handleDownload = async (format: CertificateFormat) => {
+    if (!issued) return;
+    setHasDownloadFailed(false);
+
+    const origin = window.location.origin;
+    const date = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'long', timeZone: 'UTC' }).format(
+      new Date(`${issued.date}T00:00:00Z`)
+    );
+    const image = buildCertificateSvg(
+      {
+        site: window.location.host,
+        heading: t('quiz.certificate.image.heading'),
+        intro: t('quiz.certificate.image.intro'),
+        name: issued.name,
+        body: t('quiz.certificate.image.body', { score: issued.score, total: issued.total }),
+        date: t('quiz.certificate.image.date', { date }),
+        code: t('quiz.certificate.code', { code: issued.code }),
+        verify: t('quiz.certificate.image.verify', { url: buildVerifyUrl(origin, issued.code) }),
+      },
+      createTextMeasurer()
+    );
+
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), 'nohello-certificate.svg');
+        return;
+      }
+      const jpeg = new Uint8Array(await (await svgToImageBlob(image, 'image/jpeg', PDF_SCALE)).arrayBuffer());
+      const pdf = jpegToPdf(jpeg, {
+        width: image.width,
+        height: image.height,
+        pixelWidth: image.width * PDF_SCALE,
+        pixelHeight: image.height * PDF_SCALE,
+      });
+      downloadBlob(new Blob([pdf], { type: 'application/pdf' }), 'nohello-certificate.pdf');
+    } catch {
+      setHasDownloadFailed(true);
+    }
+  };
+
+  const buttonClass =
+    'px-4 py-2 font-semibold rounded-lg transition-colors duration-200 shadow-md cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <section className="mb-8 p-4 rounded-xl border-2 border-blue-200 dark:border-blue-800 text-start" data-testid="quiz-certificate">
+      <h3 className="text-xl font-bold mb-2 text-gray-900 dark:text-gray-100">{t('quiz.certificate.title')}</h3>
+      <p className="mb-4 text-gray-600 dark:text-gray-400">{t('quiz.certificate.description')}</p>
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+        <label htmlFor={nameId} className="flex-1 min-w-48 text-sm font-semibold text-gray-700 dark:text-gray-300">
+          {t('quiz.certificate.nameLabel')}
+          <input
+            id={nameId}
+            type="text"
+            value={name}
+            maxLength={CERTIFICATE_NAME_MAX_LENGTH}
+            autoComplete="name"
+            onChange={(e) => handleNameChange(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 font-normal"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!normalizeCertificateName(name) || issueStatus === 'creating'}
+          className={`${buttonClass} bg-blue-600 hover:bg-blue-700 text-white`}
+        >
+          {issueStatus === 'creating' ? t('quiz.certificate.creating') : t('quiz.certificate.create')}
+        </button>
+      </form>
+
+      <div aria-live="polite">
+        {issueStatus === 'failed' && (
+          <p role="alert" className="mt-3 text-red-600 dark:text-red-400">{t('quiz.certificate.failed')}</p>
+        )}
+        {issued && (
+          <div className="mt-4 space-y-3">
+            <p className="font-semibold text-gray-800 dark:text-gray-200" data-testid="quiz-certificate-code">
+              {t('quiz.certificate.code', { code: issued.code })}
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              {FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => handleDownload(format)}
+                  className={`${buttonClass} bg-white dark:bg-gray-800 border-2 border-blue-600 text-blue-600 dark:text-blue-400`}
+                >
+                  {t('quiz.certificate.download', { format: label })}
+                </button>
+              ))}
+              <a
+                href={buildVerifyUrl(window.location.origin, issued.code, { name: issued.name, score: issued.score, total: issued.total, date: issued.date })}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-semibold underline decoration-2 underline-offset-4"
+              >
+                {t('quiz.certificate.verifyLink')}
+              </a>
+            </div>
+            {hasDownloadFailed && (
+              <p role="alert" className="text-red-600 dark:text-red-400">{t('quiz.certificate.downloadFailed')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+});
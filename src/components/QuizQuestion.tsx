@@ -1,14 +1,156 @@
 import { useTranslation } from 'react-i18next';
-import type { QuizQuestion as QuizQuestionType } from '../types/quiz';
+import { ChatMarkup } from './ChatMarkup';
+import { getExplainedOptions, moveItem, toggleOption } from '../utils/quizGrading';
+import type { OrderingQuestion, QuizAnswer, QuizQuestion as QuizQuestionType } from '../types/quiz';
 
 interface QuizQuestionProps {
   question: QuizQuestionType;
   questionNumber: number;
   totalQuestions: number;
-  onAnswer: (answerIndex: number) => void;
-  selectedAnswer: number | null;
+  onAnswer: (answer: QuizAnswer) => void;
+  selectedAnswer: QuizAnswer | null;
   isAnswered: boolean;
   isCorrect: boolean | null;
+  onLearnMore?: () => void; // Called when the "learn more" link is followed, e.g. to close the quiz
+}
+
+interface Choice {
+  label: string;
+  isSelected: boolean;
+  isCorrect: boolean;
+  onSelect: () => void;
+}
+
+// Plain buttons for single choice; radios and checkboxes say what else can be picked
+type ChoiceRole = 'radio' | 'checkbox';
+
+function getChoiceClassName({ isSelected, isCorrect }: Choice, isAnswered: boolean): string {
+  let buttonClass = 'w-full text-start p-4 rounded-xl border-2 transition-all duration-200 font-medium relative ';
+
+  if (!isAnswered) {
+    // Before answering: show selection state clearly
+    if (isSelected) {
+      buttonClass +=
+        'border-blue-600 dark:border-blue-500 bg-blue-100 dark:bg-blue-900/40 shadow-lg ring-2 ring-blue-500 dark:ring-blue-400 ring-opacity-50 cursor-pointer ';
+    } else {
+      buttonClass +=
+        'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 hover:border-blue-500 dark:hover:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 cursor-pointer ';
+    }
+  } else {
+    // After answering: show results but keep buttons visible
+    if (isCorrect) {
+      buttonClass += 'border-green-500 dark:border-green-400 bg-green-50 dark:bg-green-900/20 ';
+    } else if (isSelected) {
+      buttonClass += 'border-red-500 dark:border-red-400 bg-red-50 dark:bg-red-900/20 ';
+    } else {
+      buttonClass += 'border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800/50 opacity-60 ';
+    }
+    buttonClass += 'cursor-not-allowed';
+  }
+
+  return buttonClass;
+}
+
+function ChoiceList({ choices, isAnswered, role }: { choices: Choice[]; isAnswered: boolean; role?: ChoiceRole }) {
+  return (
+    <>
+      {choices.map((choice, index) => (
+        <button
+          key={index}
+          role={role}
+          aria-checked={role ? choice.isSelected : undefined}
+          onClick={() => !isAnswered && choice.onSelect()}
+          disabled={isAnswered}
+          className={getChoiceClassName(choice, isAnswered)}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3 flex-1">
+              {/* Selection indicator */}
+              {choice.isSelected && !isAnswered && (
+                <div
+                  className={`flex-shrink-0 w-5 h-5 ${role === 'checkbox' ? 'rounded' : 'rounded-full'} bg-blue-600 dark:bg-blue-500 border-2 border-blue-700 dark:border-blue-400 flex items-center justify-center`}
+                >
+                  <div className="w-2 h-2 rounded-full bg-white"></div>
+                </div>
+              )}
+              <span className="text-gray-900 dark:text-gray-100">{choice.label}</span>
+            </div>
+            {/* Result indicators */}
+            {isAnswered && choice.isCorrect && (
+              <span className="text-green-600 dark:text-green-400 text-xl font-bold ms-2">✓</span>
+            )}
+            {isAnswered && choice.isSelected && !choice.isCorrect && (
+              <span className="text-red-600 dark:text-red-400 text-xl font-bold ms-2">✗</span>
+            )}
+          </div>
+        </button>
+      ))}
+    </>
+  );
+}
+
+interface OrderingListProps {
+  question: OrderingQuestion;
+  order: number[];
+  isAnswered: boolean;
+  onAnswer: (answer: QuizAnswer) => void;
+}
+
+function OrderingList({ question, order, isAnswered, onAnswer }: OrderingListProps) {
+  const { t } = useTranslation();
+  const arrowClass =
+    'w-9 h-9 rounded-lg border-2 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500 dark:hover:border-blue-400 disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer';
+
+  return (
+    <>
+      {!isAnswered && <p className="text-sm text-gray-600 dark:text-gray-400">{t('quiz.controls.orderHint')}</p>}
+      <ol className="space-y-3" data-testid="quiz-ordering">
+        {order.map((item, position) => {
+          const isInPlace = question.correctOrder[position] === item;
+          const itemClass = !isAnswered
+            ? 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800'
+            : isInPlace
+              ? 'border-green-500 dark:border-green-400 bg-green-50 dark:bg-green-900/20'
+              : 'border-red-500 dark:border-red-400 bg-red-50 dark:bg-red-900/20';
+
+          return (
+            <li key={item} className={`flex items-center gap-3 p-4 rounded-xl border-2 font-medium ${itemClass}`}>
+              <span className="text-gray-500 dark:text-gray-400 font-bold">{position + 1}.</span>
+              <span className="flex-1 text-gray-900 dark:text-gray-100">{question.items[item]}</span>
+              {isAnswered ? (
+                <span
+                  className={`text-xl font-bold ${isInPlace ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                >
+                  {isInPlace ? '✓' : '✗'}
+                </span>
+              ) : (
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onAnswer(moveItem(order, position, position - 1))}
+                    disabled={position === 0}
+                    aria-label={t('quiz.controls.moveUp', { item: question.items[item] })}
+                    className={arrowClass}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onAnswer(moveItem(order, position, position + 1))}
+                    disabled={position === order.length - 1}
+                    aria-label={t('quiz.controls.moveDown', { item: question.items[item] })}
+                    className={arrowClass}
+                  >
+                    ↓
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </>
+  );
 }
 
 export function QuizQuestion({
@@ -19,9 +161,122 @@ export function QuizQuestion({
   selectedAnswer,
   isAnswered,
   isCorrect,
+  onLearnMore,
 }: QuizQuestionProps) {
   const { t } = useTranslation();
 
+  const renderExplanations = () => {
+    if (question.type === 'trueFalse' || question.type === 'ordering') {
+      return question.explanation && (
+        <p className="mt-3 text-gray-800 dark:text-gray-200" data-testid="quiz-explanation">{question.explanation}</p>
+      );
+    }
+
+    const { explanations } = question;
+    if (!explanations) return null;
+
+    return (
+      <ul className="mt-3 space-y-2" data-testid="quiz-explanations">
+        {getExplainedOptions(question, selectedAnswer).map((index) => (
+          <li key={index} className="text-gray-800 dark:text-gray-200">
+            <span className="block font-semibold">{question.options[index]}</span>
+            <span className="block">{explanations[index]}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderAnswers = () => {
+    switch (question.type) {
+      case 'multiple': {
+        const ticked = Array.isArray(selectedAnswer) ? selectedAnswer : [];
+        return (
+          <div role="group" aria-label={t('quiz.controls.selectAll')} className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">{t('quiz.controls.selectAll')}</p>
+            <ChoiceList
+              role="checkbox"
+              isAnswered={isAnswered}
+              choices={question.options.map((option, index) => ({
+                label: option,
+                isSelected: ticked.includes(index),
+                isCorrect: question.correctAnswers.includes(index),
+                onSelect: () => onAnswer(toggleOption(selectedAnswer, index)),
+              }))}
+            />
+          </div>
+        );
+      }
+      case 'trueFalse':
+        return (
+          <div role="radiogroup" aria-label={question.question} className="space-y-3">
+            <ChoiceList
+              role="radio"
+              isAnswered={isAnswered}
+              choices={[true, false].map((value) => ({
+                label: t(value ? 'quiz.controls.true' : 'quiz.controls.false'),
+                isSelected: selectedAnswer === value,
+                isCorrect: question.correctAnswer === value,
+                onSelect: () => onAnswer(value),
+              }))}
+            />
+          </div>
+        );
+      case 'ordering':
+        return (
+          <div className="space-y-3">
+            <OrderingList
+              question={question}
+              order={Array.isArray(selectedAnswer) ? selectedAnswer : question.items.map((_, index) => index)}
+              isAnswered={isAnswered}
+              onAnswer={onAnswer}
+            />
+            {isAnswered && !isCorrect && (
+              <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800/50">
+                <p className="font-semibold mb-2 text-gray-800 dark:text-gray-200">{t('quiz.controls.correctOrder')}</p>
+                <ol className="list-decimal ps-6 space-y-1 text-gray-800 dark:text-gray-200" data-testid="quiz-correct-order">
+                  {question.correctOrder.map((item) => (
+                    <li key={item}>{question.items[item]}</li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        );
+      default:
+        return (
+          <div className="space-y-3">
+            {question.type === 'rewrite' && (
+              <figure className="p-4 rounded-xl bg-gray-100 dark:bg-gray-900/50 border-s-4 border-gray-400 dark:border-gray-500">
+                <figcaption className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">
+                  {t('quiz.controls.chat')}
+                </figcaption>
+                <ul className="space-y-2" data-testid="quiz-chat">
+                  {question.chat.map((message, index) => (
+                    <li
+                      key={index}
+                      className="w-fit max-w-full px-3 py-2 rounded-2xl bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 shadow-sm"
+                    >
+                      <ChatMarkup text={message} />
+                    </li>
+                  ))}
+                </ul>
+              </figure>
+            )}
+            <ChoiceList
+              isAnswered={isAnswered}
+              choices={question.options.map((option, index) => ({
+                label: option,
+                isSelected: selectedAnswer === index,
+                isCorrect: index === question.correctAnswer,
+                onSelect: () => onAnswer(index),
+              }))}
+            />
+          </div>
+        );
+    }
+  };
+
   return (
     <div className="w-full">
       <div className="mb-6">
@@ -33,71 +288,25 @@ export function QuizQuestion({
         </h3>
       </div>
 
-      <div className="space-y-3">
-        {question.options.map((option, index) => {
-          const isSelected = selectedAnswer === index;
-          const isCorrectOption = index === question.correctAnswer;
-          let buttonClass = 'w-full text-left p-4 rounded-xl border-2 transition-all duration-200 font-medium relative ';
-
-          if (!isAnswered) {
-            // Before answering: show selection state clearly
-            if (isSelected) {
-              buttonClass +=
-                'border-blue-600 dark:border-blue-500 bg-blue-100 dark:bg-blue-900/40 shadow-lg ring-2 ring-blue-500 dark:ring-blue-400 ring-opacity-50 cursor-pointer ';
-            } else {
-              buttonClass +=
-                'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 hover:border-blue-500 dark:hover:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 cursor-pointer ';
-            }
-          } else {
-            // After answering: show results but keep buttons visible
-            if (isCorrectOption) {
-              buttonClass += 'border-green-500 dark:border-green-400 bg-green-50 dark:bg-green-900/20 ';
-            } else if (isSelected && !isCorrect) {
-              buttonClass += 'border-red-500 dark:border-red-400 bg-red-50 dark:bg-red-900/20 ';
-            } else {
-              buttonClass += 'border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800/50 opacity-60 ';
-            }
-            buttonClass += 'cursor-not-allowed';
-          }
-
-          return (
-            <button
-              key={index}
-              onClick={() => !isAnswered && onAnswer(index)}
-              disabled={isAnswered}
-              className={buttonClass}
-            >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3 flex-1">
-                  {/* Selection indicator */}
-                  {isSelected && !isAnswered && (
-                    <div className="flex-shrink-0 w-5 h-5 rounded-full bg-blue-600 dark:bg-blue-500 border-2 border-blue-700 dark:border-blue-400 flex items-center justify-center">
-                      <div className="w-2 h-2 rounded-full bg-white"></div>
-                    </div>
-                  )}
-                  <span className="text-gray-900 dark:text-gray-100">{option}</span>
-                </div>
-                {/* Result indicators */}
-                {isAnswered && isCorrectOption && (
-                  <span className="text-green-600 dark:text-green-400 text-xl font-bold ml-2">✓</span>
-                )}
-                {isAnswered && isSelected && !isCorrect && (
-                  <span className="text-red-600 dark:text-red-400 text-xl font-bold ml-2">✗</span>
-                )}
-              </div>
-            </button>
-          );
-        })}
-      </div>
+      {renderAnswers()}
 
       {isAnswered && (
         <div className={`mt-6 p-4 rounded-xl ${isCorrect ? 'bg-green-100 dark:bg-green-900/30' : 'bg-red-100 dark:bg-red-900/30'}`}>
           <p className={`font-semibold ${isCorrect ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
             {isCorrect ? t('quiz.correctAnswer') : t('quiz.incorrectAnswer')}
           </p>
+          {renderExplanations()}
+          {question.learnMore && (
+            <a
+              href={`#${question.learnMore}`}
+              onClick={onLearnMore}
+              className="inline-block mt-3 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-semibold underline decoration-2 underline-offset-4"
+            >
+              {t('quiz.learnMore', { section: t(`${question.learnMore}.title`) })}
+            </a>
+          )}
         </div>
       )}
     </div>
   );
 }
-
@@ -0,0 +1,105 @@
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { QuizCertificate } from './QuizCertificate';
+import { formatQuizTime, summarizeResults } from '../utils/quizResults';
+import type { QuizAnswer, QuizQuestion, QuizQuestionResult } from '../types/quiz';
+
+interface QuizResultsProps {
+  questions: QuizQuestion[];
+  seed: number; // The session's seed, which the certificate is graded with
+  results: Map<number, QuizQuestionResult>; // By question id
+  onRetake: () => void;
+  onClose: () => void;
+}
+
+/**
+ * The completed screen: the score counts first tries only, so winning at blackjack
+ * doesn't turn a wrong answer into a right one
+ */
+export const QuizResults = memo(function QuizResults({ questions, seed, results, onRetake, onClose }: QuizResultsProps) {
+  const { t, i18n } = useTranslation();
+  const language = i18n.language;
+
+  const summary = useMemo(
+    () => summarizeResults(
+      questions.flatMap((question) => results.get(question.id) ?? []),
+      questions.length
+    ),
+    [questions, results]
+  );
+  // The certificate is graded again on the server, from the first answer to each question
+  const firstAnswers = useMemo(
+    () => questions.flatMap((question): [number, QuizAnswer][] => {
+      const result = results.get(question.id);
+      return result ? [[question.id, result.firstAnswer]] : [];
+    }),
+    [questions, results]
+  );
+  const accuracy = new Intl.NumberFormat(language, { style: 'percent', maximumFractionDigits: 0 }).format(summary.accuracy);
+
+  return (
+    <div className="text-center">
+      <div className="text-6xl mb-4">🎉</div>
+      <h2 className="text-3xl font-bold mb-4 text-gray-900 dark:text-gray-100">
+        {t('quiz.completed.title')}
+      </h2>
+      <p className="text-lg text-gray-600 dark:text-gray-400 mb-6">
+        {t('quiz.completed.message')}
+      </p>
+
+      <div data-testid="quiz-summary" className="mb-8 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 text-gray-800 dark:text-gray-200">
+        <p className="text-2xl font-bold mb-2">
+          {t('quiz.completed.score', { score: summary.score, total: summary.total })}
+        </p>
+        <p>{t('quiz.completed.accuracy', { accuracy })}</p>
+        <p>{t('quiz.completed.time', { time: formatQuizTime(summary.timeSpentMs, language) })}</p>
+        {summary.blackjackRounds > 0 && <p>🃏 {t('quiz.completed.rounds', { count: summary.blackjackRounds })}</p>}
+      </div>
+
+      <QuizCertificate seed={seed} answers={firstAnswers} />
+
+      <h3 className="text-xl font-bold mb-3 text-start text-gray-900 dark:text-gray-100">
+        {t('quiz.completed.reviewTitle')}
+      </h3>
+      <ol className="space-y-3 mb-8 text-start" data-testid="quiz-review">
+        {questions.map((question, index) => {
+          const result = results.get(question.id);
+          const isFirstTry = result?.firstAttemptCorrect ?? false;
+
+          return (
+            <li
+              key={question.id}
+              className={`p-4 rounded-xl border-s-4 ${isFirstTry ? 'bg-green-50 dark:bg-green-900/20 border-green-500' : 'bg-amber-50 dark:bg-amber-900/20 border-amber-500'}`}
+            >
+              <p className="font-semibold text-gray-900 dark:text-gray-100">
+                {index + 1}. {question.question}
+              </p>
+              {result && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {isFirstTry ? `✓ ${t('quiz.completed.firstTry')}` : `↻ ${t('quiz.completed.retried', { count: result.retries })}`}
+                  {' · '}
+                  {formatQuizTime(result.timeSpentMs, language)}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          onClick={onRetake}
+          className="px-6 py-3 bg-white dark:bg-gray-800 border-2 border-blue-600 text-blue-600 dark:text-blue-400 font-semibold rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg cursor-pointer"
+        >
+          ↺ {t('quiz.completed.retake')}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg cursor-pointer"
+        >
+          {t('quiz.completed.close')}
+        </button>
+      </div>
+    </div>
+  );
+});
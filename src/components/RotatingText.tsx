@@ -133,7 +133,7 @@ export const RotatingText = memo(function RotatingText() {
     >
       <span ref={textSpanRef} className="inline-block whitespace-nowrap line-through decoration-red-600 dark:decoration-red-400 decoration-[4px] font-bold bg-gradient-to-r from-gray-900 via-gray-800 to-gray-900 dark:from-gray-100 dark:via-gray-200 dark:to-gray-100 bg-clip-text text-transparent">
       </span>
-      <span className="inline-block w-0.5 h-[1em] bg-gray-900 dark:bg-gray-100 ml-1.5 animate-blink align-middle">
+      <span className="inline-block w-0.5 h-[1em] bg-gray-900 dark:bg-gray-100 ms-1.5 animate-blink align-middle">
       </span>
     </span>
   );
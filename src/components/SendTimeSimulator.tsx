@@ -0,0 +1,74 @@
+import { memo, useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { SendTime } from '../types/chat';
+
+interface SendTimeSimulatorProps {
+  value: SendTime | null;
+  onChange: (sendTime: SendTime | null) => void;
+}
+
+// Monday first, numbered like Date#getDay
+const DAYS_OF_WEEK = [1, 2, 3, 4, 5, 6, 0];
+// Friday at 4:55 PM - right before everyone logs off for the weekend
+const DEFAULT_SEND_MINUTES = 16 * 60 + 55;
+
+// January 7, 2024 was a Sunday, so adding the day number gives a date on that day
+const formatWeekday = (day: number, locale: string) =>
+  new Intl.DateTimeFormat(locale, { weekday: 'long' }).format(new Date(2024, 0, 7 + day));
+
+const toTimeValue = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const SendTimeSimulator = memo(function SendTimeSimulator({ value, onChange }: SendTimeSimulatorProps) {
+  const { t, i18n } = useTranslation();
+  const dayId = useId();
+  const timeId = useId();
+
+  const handleDayChange = (day: string) => {
+    if (day === '') {
+      onChange(null);
+      return;
+    }
+    onChange({ day: Number(day), minutes: value?.minutes ?? DEFAULT_SEND_MINUTES });
+  };
+
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (!value || Number.isNaN(hours) || Number.isNaN(minutes)) return;
+    onChange({ day: value.day, minutes: hours * 60 + minutes });
+  };
+
+  const controlClassName = 'px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <label htmlFor={dayId} className="text-sm font-semibold text-gray-600 dark:text-gray-400 me-1">
+        {t('chat.sendTime.label')}
+      </label>
+      <select
+        id={dayId}
+        value={value ? String(value.day) : ''}
+        onChange={(e) => handleDayChange(e.target.value)}
+        className={controlClassName}
+      >
+        <option value="">{t('chat.sendTime.now')}</option>
+        {DAYS_OF_WEEK.map((day) => (
+          <option key={day} value={day}>
+            {formatWeekday(day, i18n.language)}
+          </option>
+        ))}
+      </select>
+      <label htmlFor={timeId} className="sr-only">
+        {t('chat.sendTime.time')}
+      </label>
+      <input
+        id={timeId}
+        type="time"
+        value={toTimeValue(value?.minutes ?? DEFAULT_SEND_MINUTES)}
+        onChange={(e) => handleTimeChange(e.target.value)}
+        disabled={!value}
+        className={controlClassName}
+      />
+    </div>
+  );
+});
@@ -0,0 +1,46 @@
+import { memo, useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatTimeZoneName } from '../utils/chatTimeline';
+
+interface TimeZoneSwitcherProps {
+  value: string | null;
+  onChange: (timeZone: string | null) => void;
+}
+
+// A spread of zones that distributed teams commonly work across
+const THEIR_TIME_ZONES = [
+  'America/Los_Angeles',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Seoul',
+  'Australia/Sydney',
+];
+
+export const TimeZoneSwitcher = memo(function TimeZoneSwitcher({ value, onChange }: TimeZoneSwitcherProps) {
+  const { t, i18n } = useTranslation();
+  const selectId = useId();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <label htmlFor={selectId} className="text-sm font-semibold text-gray-600 dark:text-gray-400 me-1">
+        {t('chat.timezone.label')}
+      </label>
+      <select
+        id={selectId}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 cursor-pointer"
+      >
+        <option value="">{t('chat.timezone.same')}</option>
+        {THEIR_TIME_ZONES.map((timeZone) => (
+          <option key={timeZone} value={timeZone}>
+            {formatTimeZoneName(timeZone, i18n.language)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+});
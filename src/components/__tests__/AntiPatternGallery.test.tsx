@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useState } from 'react';
+import { AntiPatternGallery } from '../AntiPatternGallery';
+import { parseAntiPatternGallery } from '../../utils/antiPatternGallery';
+import i18n from '../../i18n/config';
+
+const galleryCards = () =>
+  parseAntiPatternGallery(i18n.t('examples.gallery.cards', { returnObjects: true }), {
+    badCount: (i18n.t('examples.bad', { returnObjects: true }) as string[]).length,
+    goodCount: (i18n.t('examples.good', { returnObjects: true }) as string[]).length,
+  }).cards;
+
+// Holds the index the way App does
+function Gallery({ initialIndex = 0 }: { initialIndex?: number }) {
+  const [index, setIndex] = useState(initialIndex);
+  return <AntiPatternGallery cards={galleryCards()} index={index} onIndexChange={setIndex} />;
+}
+
+describe('AntiPatternGallery', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should show the opener, why it hurts and both conversations', () => {
+    render(<Gallery />);
+
+    const card = within(screen.getByTestId('gallery-card'));
+    expect(card.getByText('"Hi"')).toBeInTheDocument();
+    expect(card.getByTestId('gallery-why')).toHaveTextContent(/A greeting on its own tells them nothing/);
+    expect(card.getByText('The deployment script is failing')).toBeInTheDocument();
+    expect(card.getByText('Try this instead')).toBeInTheDocument();
+    expect(card.getByText(/I need help with the deployment script/)).toBeInTheDocument();
+  });
+
+  it('should be announced as a carousel of slides', () => {
+    render(<Gallery />);
+
+    expect(screen.getByTestId('anti-pattern-gallery')).toHaveAttribute('aria-roledescription', 'carousel');
+    expect(screen.getByTestId('gallery-card')).toHaveAttribute('aria-roledescription', 'slide');
+    expect(screen.getByTestId('gallery-card')).toHaveAccessibleName('1 of 6');
+  });
+
+  it('should move between cards and wrap around', async () => {
+    const user = userEvent.setup();
+    render(<Gallery />);
+
+    await user.click(screen.getByRole('button', { name: /Next/ }));
+    expect(screen.getByTestId('gallery-card')).toHaveAccessibleName('2 of 6');
+    expect(within(screen.getByTestId('gallery-card')).getByText('"Hello"')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Previous/ }));
+    await user.click(screen.getByRole('button', { name: /Previous/ }));
+    expect(screen.getByTestId('gallery-card')).toHaveAccessibleName('6 of 6');
+    expect(within(screen.getByTestId('gallery-card')).getByText('"Yo"')).toBeInTheDocument();
+  });
+
+  it('should jump straight to a card from the dots', async () => {
+    const user = userEvent.setup();
+    render(<Gallery />);
+
+    await user.click(screen.getByRole('button', { name: '5 of 6' }));
+
+    expect(screen.getByRole('button', { name: '5 of 6' })).toHaveAttribute('aria-current', 'true');
+    expect(within(screen.getByTestId('gallery-card')).getByText('"ping"')).toBeInTheDocument();
+    expect(within(screen.getByTestId('gallery-card')).getByText('/api/users/:id').tagName).toBe('CODE');
+  });
+
+  it('should report the new index instead of changing it itself', async () => {
+    const user = userEvent.setup();
+    const onIndexChange = vi.fn();
+    render(<AntiPatternGallery cards={galleryCards()} index={5} onIndexChange={onIndexChange} />);
+
+    await user.click(screen.getByRole('button', { name: /Next/ }));
+
+    expect(onIndexChange).toHaveBeenCalledWith(0);
+    expect(screen.getByTestId('gallery-card')).toHaveAccessibleName('6 of 6');
+  });
+
+  it('should render nothing without cards', () => {
+    const { container } = render(<AntiPatternGallery cards={[]} index={0} onIndexChange={() => {}} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should follow the language', async () => {
+    render(<Gallery initialIndex={2} />);
+
+    await act(async () => {
+      await i18n.changeLanguage('de');
+    });
+
+    expect(screen.getByText('Warum das bremst')).toBeInTheDocument();
+    expect(screen.getByText('"Bist du da?"')).toBeInTheDocument();
+  });
+});
@@ -154,7 +154,8 @@ describe('BlackjackVerification', () => {
       await user.click(standButton);
       
       await waitFor(() => {
-        expect(mockOnVerificationPassed).toHaveBeenCalled();
+        // Won on the first hand
+        expect(mockOnVerificationPassed).toHaveBeenCalledWith(1);
       }, { timeout: 3000 });
       
       vi.spyOn(Math, 'random').mockRestore();
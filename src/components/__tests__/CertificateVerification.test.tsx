@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { CertificateVerification } from '../CertificateVerification';
+import { checkCertificate } from '../../api/certificates';
+import i18n from '../../i18n/config';
+
+vi.mock('../../api/certificates', () => ({
+  checkCertificate: vi.fn(),
+}));
+
+const CODE = 'ABCD-1234-WXYZ';
+
+const renderPage = (code = CODE) =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false, gcTime: 0 } } })}>
+      <CertificateVerification code={code} />
+    </QueryClientProvider>
+  );
+
+describe('CertificateVerification', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    vi.mocked(checkCertificate).mockReset();
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should check a link with the details straight away', async () => {
+    vi.mocked(checkCertificate).mockResolvedValue(true);
+    window.history.replaceState(null, '', `/verify/${CODE}?name=Ada&score=4&total=5&date=2026-10-18`);
+    renderPage();
+
+    expect(await screen.findByText(/This certificate is genuine: Ada answered 4 of 5 questions/)).toBeInTheDocument();
+    expect(checkCertificate).toHaveBeenCalledWith({ name: 'Ada', score: 4, total: 5, date: '2026-10-18' }, CODE);
+  });
+
+  it('should check the details typed in', async () => {
+    const user = userEvent.setup();
+    vi.mocked(checkCertificate).mockResolvedValue(false);
+    renderPage();
+
+    expect(checkCertificate).not.toHaveBeenCalled();
+    await user.type(screen.getByLabelText('Name'), 'Ada');
+    await user.type(screen.getByLabelText('Right on the first try'), '5');
+    await user.type(screen.getByLabelText('Questions'), '5');
+    await user.type(screen.getByLabelText('Date issued'), '2026-10-18');
+    await user.click(screen.getByRole('button', { name: 'Check' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent("These details don't match the code.");
+    expect(checkCertificate).toHaveBeenCalledWith({ name: 'Ada', score: 5, total: 5, date: '2026-10-18' }, CODE);
+  });
+
+  it('should not ask about details no certificate could have', async () => {
+    const user = userEvent.setup();
+    renderPage();
+
+    await user.type(screen.getByLabelText('Name'), 'Ada');
+    await user.type(screen.getByLabelText('Right on the first try'), '6');
+    await user.type(screen.getByLabelText('Questions'), '5');
+    await user.type(screen.getByLabelText('Date issued'), '2026-10-18');
+    await user.click(screen.getByRole('button', { name: 'Check' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent("These details don't match the code.");
+    expect(checkCertificate).not.toHaveBeenCalled();
+  });
+
+  it('should turn away a malformed code', () => {
+    renderPage('not-a-code');
+
+    expect(screen.getByRole('alert')).toHaveTextContent("This link doesn't contain a valid verification code.");
+    expect(screen.queryByRole('button', { name: 'Check' })).not.toBeInTheDocument();
+  });
+});
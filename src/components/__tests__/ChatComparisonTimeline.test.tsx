@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { ChatComparisonTimeline } from '../ChatComparisonTimeline';
+import i18n from '../../i18n/config';
+
+describe('ChatComparisonTimeline', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should show one track per conversation', () => {
+    render(<ChatComparisonTimeline />);
+
+    const tracks = screen.getAllByTestId('comparison-track');
+    expect(tracks.map((track) => track.getAttribute('data-type'))).toEqual(['bad', 'good']);
+    expect(screen.getByRole('list', { name: 'Bad:' })).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Good:' })).toBeInTheDocument();
+  });
+
+  it('should show a point for every message', () => {
+    render(<ChatComparisonTimeline />);
+
+    const [bad, good] = screen.getAllByTestId('comparison-track');
+    expect(within(bad).getAllByTestId('comparison-point')).toHaveLength(8);
+    expect(within(good).getAllByTestId('comparison-point')).toHaveLength(2);
+  });
+
+  it('should mark where the question is asked and answered', () => {
+    render(<ChatComparisonTimeline />);
+
+    const [bad, good] = screen.getAllByTestId('comparison-track');
+    expect(within(bad).getByTestId('comparison-question').closest('li')).toHaveTextContent("Well it's not working");
+    expect(within(bad).getByTestId('comparison-answer').closest('li')).toHaveTextContent('let me take a look');
+    expect(within(good).getByTestId('comparison-question').closest('li')).toHaveTextContent('trouble with the login form');
+    expect(within(good).getByTestId('comparison-answer').closest('li')).toHaveTextContent("Sure, I'll check it out");
+  });
+
+  it('should show the good conversation finishing days sooner from the same send time', () => {
+    render(<ChatComparisonTimeline sendTime={{ day: 5, minutes: 16 * 60 + 55 }} />);
+
+    const [bad, good] = screen.getAllByTestId('comparison-summary');
+    expect(good).toHaveTextContent('Answered after 45m');
+    expect(bad).toHaveTextContent(/Answered after \d+d/);
+
+    const [badAnswer, goodAnswer] = screen.getAllByTestId('comparison-answer')
+      .map((marker) => parseFloat((marker.closest('li') as HTMLElement).style.insetInlineStart));
+    expect(goodAnswer).toBeLessThan(badAnswer);
+  });
+
+  it('should label days with their dates when both start on the same day', () => {
+    render(<ChatComparisonTimeline sendTime={{ day: 5, minutes: 16 * 60 + 55 }} />);
+
+    const days = screen.getAllByTestId('comparison-day');
+    expect(days[0]).toHaveTextContent(/Fri/);
+    expect(days[3]).toHaveTextContent(/Mon/);
+  });
+
+  it('should number the days when the conversations start on different days', () => {
+    render(<ChatComparisonTimeline />);
+
+    expect(screen.getAllByTestId('comparison-day')[0]).toHaveTextContent('Day 1');
+  });
+
+  it('should run from the inline start, so the timeline reads right to left in RTL languages', async () => {
+    await i18n.changeLanguage('he');
+    render(<ChatComparisonTimeline />);
+
+    screen.getAllByTestId('comparison-point').forEach((point) => {
+      expect(point.style.insetInlineStart).toMatch(/%$/);
+      expect(point.style.left).toBe('');
+      expect(point).toHaveClass('rtl:translate-x-1/2');
+    });
+  });
+});
@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, act, waitFor, within } from '@testing-library/react';
 import { ChatExample } from '../ChatExample';
 import i18n from '../../i18n/config';
+import { CHAT_PLATFORMS } from '../../data/chatPlatforms';
+import { MIN_STEP_MS, TYPING_MS } from '../../utils/chatPlayback';
+import type { ConversationMessage } from '../../types/chat';
 
 describe('ChatExample', () => {
   beforeEach(() => {
@@ -315,6 +318,308 @@ describe('ChatExample', () => {
     });
   });
 
+  describe('Platforms', () => {
+    it('should render the Slack layout by default', () => {
+      render(<ChatExample type="bad" />);
+
+      const messages = screen.getAllByTestId('chat-message');
+      expect(messages.length).toBeGreaterThan(0);
+      messages.forEach((message) => {
+        expect(message.style.flexDirection).toBe('row');
+      });
+    });
+
+    it.each(CHAT_PLATFORMS)('should render the %s platform', (platform) => {
+      render(<ChatExample type="good" platform={platform} />);
+
+      expect(screen.getAllByTestId('chat-message')).toHaveLength(2);
+      expect(screen.getAllByTestId('chat-date-separator').length).toBeGreaterThan(0);
+    });
+
+    it('should right-align own messages on bubble platforms', () => {
+      render(<ChatExample type="good" platform="imessage" />);
+
+      const ownMessage = screen.getAllByTestId('chat-message').find((message) => message.dataset.sender === 'you');
+      expect(ownMessage?.style.flexDirection).toBe('row-reverse');
+    });
+
+    it('should re-render when the platform changes', () => {
+      const { rerender } = render(<ChatExample type="good" platform="slack" />);
+      expect(screen.getAllByTestId('chat-avatar')).toHaveLength(2);
+
+      rerender(<ChatExample type="good" platform="whatsapp" />);
+      expect(screen.queryAllByTestId('chat-avatar')).toHaveLength(0);
+    });
+  });
+
+  describe('Time zones', () => {
+    it('should format times with the locale clock', () => {
+      i18n.changeLanguage('de');
+      render(<ChatExample type="good" />);
+
+      const timestamps = screen.getAllByTestId('chat-timestamp');
+      timestamps.forEach((timestamp) => {
+        expect(timestamp.textContent).toMatch(/^\d{2}:\d{2}$/);
+      });
+    });
+
+    it('should not show their time by default', () => {
+      render(<ChatExample type="good" />);
+
+      expect(screen.queryAllByTestId('chat-remote-timestamp')).toHaveLength(0);
+    });
+
+    it('should show their local time next to every message in a different time zone', () => {
+      render(<ChatExample type="good" theirTimeZone="Asia/Kolkata" />);
+
+      const remoteTimestamps = screen.getAllByTestId('chat-remote-timestamp');
+      expect(remoteTimestamps).toHaveLength(screen.getAllByTestId('chat-message').length);
+      remoteTimestamps.forEach((timestamp) => {
+        expect(timestamp.textContent).toMatch(/\d+:\d{2}\s*(AM|PM) their time/);
+      });
+    });
+  });
+
+  describe('Send time', () => {
+    it('should not show when the answer arrived by default', () => {
+      render(<ChatExample type="good" />);
+
+      expect(screen.queryByTestId('chat-answer-arrival')).not.toBeInTheDocument();
+    });
+
+    it('should show when the answer arrived for a chosen send time', () => {
+      render(<ChatExample type="good" sendTime={{ day: 5, minutes: 16 * 60 + 55 }} />);
+
+      expect(screen.getByTestId('chat-answer-arrival')).toHaveTextContent(/The answer arrived on Friday at 5:40\sPM, 45m after/);
+    });
+
+    it('should lose the weekend in the bad example sent on Friday evening', () => {
+      render(<ChatExample type="bad" sendTime={{ day: 5, minutes: 16 * 60 + 55 }} />);
+
+      expect(screen.getByTestId('chat-answer-arrival')).toHaveTextContent(/The answer arrived on Monday at/);
+    });
+  });
+
+  describe('Threads and reactions', () => {
+    it('should show a collapsed thread under the support reply in the good example', () => {
+      render(<ChatExample type="good" />);
+
+      const stub = screen.getByTestId('chat-thread-stub');
+      expect(stub).toHaveTextContent('2 replies');
+      expect(stub).toHaveTextContent(/Last reply \d+:\d{2}\s*(AM|PM)/);
+      expect(stub).toHaveAttribute('aria-expanded', 'false');
+      expect(screen.queryByTestId('chat-thread')).not.toBeInTheDocument();
+      expect(screen.getAllByTestId('chat-message')).toHaveLength(2);
+    });
+
+    it('should expand and collapse the thread replies', () => {
+      render(<ChatExample type="good" />);
+
+      fireEvent.click(screen.getByTestId('chat-thread-stub'));
+
+      const thread = screen.getByTestId('chat-thread');
+      expect(thread).toHaveTextContent('Found it');
+      expect(screen.getAllByTestId('chat-message')).toHaveLength(4);
+
+      fireEvent.click(screen.getByTestId('chat-thread-stub'));
+      expect(screen.queryByTestId('chat-thread')).not.toBeInTheDocument();
+    });
+
+    it('should collapse the threads again when the messages change', () => {
+      const withThread = (reply: string): ConversationMessage[] => [
+        { text: 'Hi - the build is red', sender: 'you' },
+        { text: 'Looking', sender: 'support', thread: [{ text: reply, sender: 'support' }] },
+      ];
+      const { rerender } = render(<ChatExample type="good" messages={withThread('Found it')} />);
+
+      fireEvent.click(screen.getByTestId('chat-thread-stub'));
+      expect(screen.getByTestId('chat-thread')).toHaveTextContent('Found it');
+
+      rerender(<ChatExample type="good" messages={withThread('Fixed on main')} />);
+
+      expect(screen.getByTestId('chat-thread-stub')).toHaveAttribute('aria-expanded', 'false');
+      expect(screen.queryByTestId('chat-thread')).not.toBeInTheDocument();
+    });
+
+    it('should show the console error as a code block in the thread', () => {
+      render(<ChatExample type="good" />);
+
+      fireEvent.click(screen.getByTestId('chat-thread-stub'));
+
+      const block = within(screen.getByTestId('chat-thread')).getByText(/^TypeError:/);
+      expect(block.closest('pre')).not.toBeNull();
+    });
+
+    it('should show reactions with an accessible label', () => {
+      render(<ChatExample type="good" />);
+
+      expect(screen.getByLabelText('1 reaction with 👀')).toBeInTheDocument();
+    });
+
+    it('should mark edited messages', () => {
+      render(<ChatExample type="bad" />);
+
+      expect(screen.getAllByTestId('chat-edited')[0]).toHaveTextContent('(edited)');
+    });
+
+    it('should show a presence dot for every message', () => {
+      render(<ChatExample type="bad" />);
+
+      const dots = screen.getAllByTestId('chat-presence');
+      expect(dots).toHaveLength(screen.getAllByTestId('chat-message').length);
+      dots.forEach((dot) => {
+        expect(['Active', 'Away']).toContain(dot.getAttribute('aria-label'));
+      });
+    });
+  });
+
+  describe('Right-to-left languages', () => {
+    afterEach(() => {
+      i18n.changeLanguage('en');
+    });
+
+    it('should mirror the page and keep the thread border at the inline start', async () => {
+      // Arabic has no translations yet, so the English text is shown in a right-to-left page
+      await i18n.changeLanguage('ar');
+      render(<ChatExample type="good" />);
+
+      expect(document.documentElement.dir).toBe('rtl');
+      fireEvent.click(screen.getByTestId('chat-thread-stub'));
+
+      const thread = screen.getByTestId('chat-thread');
+      expect(thread.style.borderInlineStart).toContain('2px solid');
+      expect(thread.style.paddingInlineStart).toBe('12px');
+      expect(thread.getAttribute('style')).not.toMatch(/(border|padding)-left/);
+    });
+  });
+
+  describe('Export', () => {
+    const { createObjectURL, revokeObjectURL } = URL;
+
+    const readBlob = (blob: Blob) => new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+
+    afterEach(() => {
+      URL.createObjectURL = createObjectURL;
+      URL.revokeObjectURL = revokeObjectURL;
+      vi.restoreAllMocks();
+      i18n.changeLanguage('en');
+    });
+
+    it('should download the conversation as an SVG image', async () => {
+      const mockCreateObjectURL = vi.fn((blob: Blob) => {
+        void blob;
+        return 'blob:chat';
+      });
+      const mockRevokeObjectURL = vi.fn();
+      URL.createObjectURL = mockCreateObjectURL;
+      URL.revokeObjectURL = mockRevokeObjectURL;
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<ChatExample type="good" platform="whatsapp" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Download as SVG' }));
+
+      await waitFor(() => expect(click).toHaveBeenCalled());
+      const blob = mockCreateObjectURL.mock.calls[0][0];
+      expect(blob.type).toBe('image/svg+xml');
+      expect(await readBlob(blob)).toContain('Good:');
+      expect(mockRevokeObjectURL).toHaveBeenCalledWith('blob:chat');
+    });
+
+    it('should mirror the image on a right-to-left page', async () => {
+      const mockCreateObjectURL = vi.fn((blob: Blob) => {
+        void blob;
+        return 'blob:chat';
+      });
+      URL.createObjectURL = mockCreateObjectURL;
+      URL.revokeObjectURL = vi.fn();
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      await i18n.changeLanguage('ar');
+      render(<ChatExample type="good" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Download as SVG' }));
+
+      await waitFor(() => expect(click).toHaveBeenCalled());
+      const svg = new DOMParser().parseFromString(await readBlob(mockCreateObjectURL.mock.calls[0][0]), 'image/svg+xml');
+      expect(svg.querySelector('text')?.getAttribute('text-anchor')).toBe('end');
+    });
+
+    it('should hide the export controls during playback', () => {
+      render(<ChatExample type="bad" />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play/i }));
+
+      expect(screen.queryByRole('button', { name: 'Download as SVG' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Playback', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should hide all messages when playback starts', async () => {
+      render(<ChatExample type="bad" />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play/i }));
+
+      expect(screen.queryAllByTestId('chat-message')).toHaveLength(0);
+      expect(screen.getByRole('timer')).toBeInTheDocument();
+    });
+
+    it('should reveal messages with a typing indicator as the clock runs', () => {
+      vi.useFakeTimers();
+      render(<ChatExample type="good" />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play/i }));
+      act(() => {
+        vi.advanceTimersByTime(MIN_STEP_MS - TYPING_MS / 2);
+      });
+      expect(screen.getByTestId('chat-typing-indicator')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(TYPING_MS);
+      });
+      expect(screen.getAllByTestId('chat-message')).toHaveLength(1);
+    });
+
+    it('should show every message after scrubbing to the end', () => {
+      render(<ChatExample type="bad" />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play/i }));
+      const scrubber = screen.getByRole('slider', { name: /playback position/i });
+      fireEvent.change(scrubber, { target: { value: scrubber.getAttribute('max') } });
+
+      expect(screen.getAllByTestId('chat-message')).toHaveLength(8);
+      expect(screen.queryByTestId('chat-typing-indicator')).not.toBeInTheDocument();
+    });
+
+    it('should go back to the full conversation with show all', () => {
+      render(<ChatExample type="bad" />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play/i }));
+      fireEvent.click(screen.getByRole('button', { name: /show all/i }));
+
+      expect(screen.getAllByTestId('chat-message')).toHaveLength(8);
+      expect(screen.queryByRole('timer')).not.toBeInTheDocument();
+    });
+
+    it('should start over with the full conversation when the messages change', () => {
+      const { rerender } = render(<ChatExample type="good" />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play/i }));
+      expect(screen.queryAllByTestId('chat-message')).toHaveLength(0);
+
+      rerender(<ChatExample type="good" messages={[{ text: 'Hi - the build is red', sender: 'you' }, { text: 'On it', sender: 'support' }]} />);
+
+      expect(screen.getAllByTestId('chat-message')).toHaveLength(2);
+      expect(screen.queryByRole('timer')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Images', () => {
     it('should render images correctly', () => {
       const { container } = render(<ChatExample type="bad" />);
@@ -340,6 +645,10 @@ describe('ChatExample', () => {
   });
 
   describe('Avatars', () => {
+    const supportAvatar = () =>
+      within(screen.getAllByTestId('chat-message').find((message) => message.dataset.sender === 'support') as HTMLElement)
+        .getByTestId('chat-avatar');
+
     it('should render avatars with correct colors', () => {
       const { container } = render(<ChatExample type="bad" />);
       
@@ -359,6 +668,44 @@ describe('ChatExample', () => {
       const text = container.textContent || '';
       expect(text).toContain('You');
     });
+
+    it('should use the translated names and initials', () => {
+      i18n.changeLanguage('ko');
+      render(<ChatExample type="bad" />);
+
+      expect(screen.getAllByText('지원팀').length).toBeGreaterThan(0);
+      expect(supportAvatar()).toHaveTextContent('지');
+      expect(screen.queryByText('Them')).not.toBeInTheDocument();
+    });
+
+    it('should offer the role as a tooltip on the avatar', () => {
+      render(<ChatExample type="bad" />);
+
+      expect(supportAvatar()).toHaveAttribute('title', 'Them · Support engineer');
+    });
+
+    it('should use custom personas', () => {
+      render(
+        <ChatExample
+          type="bad"
+          participants={{ support: { name: 'Priya', initials: 'P', avatarUrl: '/avatars/priya.png', role: 'On call' } }}
+        />
+      );
+
+      expect(screen.getAllByText('Priya').length).toBeGreaterThan(0);
+      expect(screen.getAllByTestId('chat-avatar-image')[0]).toHaveAttribute('src', '/avatars/priya.png');
+      expect(supportAvatar()).toHaveAttribute('title', 'Priya · On call');
+    });
+
+    it('should show changed personas without remounting', () => {
+      const { rerender } = render(<ChatExample type="bad" participants={{ support: { name: 'Priya', role: 'On call' } }} />);
+
+      rerender(<ChatExample type="bad" participants={{ support: { name: 'Sam', role: 'Team lead' } }} />);
+
+      expect(screen.getAllByText('Sam').length).toBeGreaterThan(0);
+      expect(screen.queryByText('Priya')).not.toBeInTheDocument();
+      expect(supportAvatar()).toHaveAttribute('title', 'Sam · Team lead');
+    });
   });
 
   describe('Title', () => {
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ChatExportControls } from '../ChatExportControls';
+import i18n from '../../i18n/config';
+
+describe('ChatExportControls', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should export in the chosen format', async () => {
+    const user = userEvent.setup();
+    const onExport = vi.fn().mockResolvedValue(undefined);
+    render(<ChatExportControls onExport={onExport} />);
+
+    await user.click(screen.getByRole('button', { name: 'Download as SVG' }));
+    await user.click(screen.getByRole('button', { name: 'Download as PNG' }));
+
+    expect(onExport).toHaveBeenNthCalledWith(1, 'svg', false);
+    expect(onExport).toHaveBeenNthCalledWith(2, 'png', false);
+  });
+
+  it('should pass the transparent background option', async () => {
+    const user = userEvent.setup();
+    const onExport = vi.fn().mockResolvedValue(undefined);
+    render(<ChatExportControls onExport={onExport} />);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Transparent background' }));
+    await user.click(screen.getByRole('button', { name: 'Download as PNG' }));
+
+    expect(onExport).toHaveBeenCalledWith('png', true);
+  });
+
+  it('should tell the user when the export fails', async () => {
+    const user = userEvent.setup();
+    const onExport = vi.fn().mockRejectedValue(new Error('Canvas is not available'));
+    render(<ChatExportControls onExport={onExport} />);
+
+    await user.click(screen.getByRole('button', { name: 'Download as PNG' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('The image could not be created.');
+    });
+  });
+});
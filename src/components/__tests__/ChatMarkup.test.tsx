@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ChatMarkup } from '../ChatMarkup';
+
+describe('ChatMarkup', () => {
+  it('should render formatting as elements', () => {
+    const { container } = render(<ChatMarkup text="It fails on *step 3* with _no_ output from `deploy.sh`" />);
+
+    expect(container.querySelector('strong')).toHaveTextContent('step 3');
+    expect(container.querySelector('em')).toHaveTextContent('no');
+    expect(container.querySelector('code')).toHaveTextContent('deploy.sh');
+  });
+
+  it('should render code blocks keeping their line breaks', () => {
+    const { container } = render(<ChatMarkup text={'Here it is:\n```line one\n  line two```'} />);
+
+    const block = container.querySelector('pre');
+    expect(block?.textContent).toBe('line one\n  line two');
+    expect(block?.style.whiteSpace).toBe('pre-wrap');
+  });
+
+  it('should render mentions', () => {
+    render(<ChatMarkup text="@maria can you take a look?" />);
+
+    expect(screen.getByTestId('chat-mention')).toHaveTextContent('@maria');
+  });
+
+  it('should open links in a new tab without access to this page', () => {
+    render(<ChatMarkup text="See <https://nohello.net|this page>" />);
+
+    const link = screen.getByRole('link', { name: 'this page' });
+    expect(link).toHaveAttribute('href', 'https://nohello.net/');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  describe('Injection', () => {
+    it('should show HTML as text instead of rendering it', () => {
+      const { container } = render(
+        <ChatMarkup text={'<img src=x onerror="alert(1)"> <script>alert(1)</script> *<b>bold</b>*'} />
+      );
+
+      expect(container.querySelector('img')).toBeNull();
+      expect(container.querySelector('script')).toBeNull();
+      expect(container.querySelector('b')).toBeNull();
+      expect(container).toHaveTextContent('<img src=x onerror="alert(1)"> <script>alert(1)</script> <b>bold</b>');
+    });
+
+    it('should not create links with unsafe schemes', () => {
+      const { container } = render(
+        <ChatMarkup text="<javascript:alert(1)|click> <data:text/html,hi|here> javascript:alert(1)" />
+      );
+
+      expect(container.querySelector('a')).toBeNull();
+      expect(container).toHaveTextContent('<javascript:alert(1)|click>');
+    });
+
+    it('should not let a link label or URL break out of the attribute', () => {
+      render(<ChatMarkup text={'<https://example.com/"onmouseover="alert(1)|"><script>alert(1)</script>>'} />);
+
+      const link = screen.getByRole('link');
+      expect(link.getAttributeNames().sort()).toEqual(['href', 'rel', 'style', 'target']);
+      expect(link.getAttribute('href')).toBe('https://example.com/%22onmouseover=%22alert(1)');
+      expect(document.querySelector('script')).toBeNull();
+    });
+
+    it('should keep markup inside code as text', () => {
+      const { container } = render(<ChatMarkup text={'```<script>alert(1)</script>```'} />);
+
+      expect(container.querySelector('script')).toBeNull();
+      expect(container.querySelector('pre')?.textContent).toBe('<script>alert(1)</script>');
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChatMessage, ChatDateSeparator, ChatThreadStub } from '../ChatMessage';
+import { platformStyles } from '../../data/chatPlatforms';
+import type { ChatPlatform, ChatSender } from '../../types/chat';
+
+const renderMessage = (platform: ChatPlatform, sender: ChatSender) =>
+  render(
+    <ChatMessage
+      styles={platformStyles[platform]}
+      sender={sender}
+      senderName={sender === 'you' ? 'You' : 'Them'}
+      avatarInitial={sender === 'you' ? 'Y' : 'S'}
+      avatarColor="#007A5A"
+      timestamp="9:07 AM"
+      text="Hello there"
+      animationDelay={0}
+    />
+  );
+
+describe('ChatMessage', () => {
+  describe('Flat layouts', () => {
+    it('should render name, timestamp and text for own messages on Slack', () => {
+      renderMessage('slack', 'you');
+
+      expect(screen.getByText('You')).toBeInTheDocument();
+      expect(screen.getByText('9:07 AM')).toBeInTheDocument();
+      expect(screen.getByText('Hello there')).toBeInTheDocument();
+      expect(screen.getByTestId('chat-avatar')).toHaveTextContent('Y');
+    });
+
+    it('should use rounded avatars on Slack and circles on Discord', () => {
+      const { unmount } = renderMessage('slack', 'support');
+      expect(screen.getByTestId('chat-avatar').style.borderRadius).toBe('8px');
+      unmount();
+
+      renderMessage('discord', 'support');
+      expect(screen.getByTestId('chat-avatar').style.borderRadius).toBe('50%');
+    });
+
+    it('should keep own messages left-aligned', () => {
+      renderMessage('googleChat', 'you');
+
+      expect(screen.getByTestId('chat-message').style.flexDirection).toBe('row');
+    });
+  });
+
+  describe('Bubble layouts', () => {
+    it('should right-align own messages without avatar or name', () => {
+      renderMessage('whatsapp', 'you');
+
+      expect(screen.getByTestId('chat-message').style.flexDirection).toBe('row-reverse');
+      expect(screen.queryByTestId('chat-avatar')).not.toBeInTheDocument();
+      expect(screen.queryByText('You')).not.toBeInTheDocument();
+    });
+
+    it('should show the avatar for the other person on Teams', () => {
+      renderMessage('teams', 'support');
+
+      expect(screen.getByTestId('chat-avatar')).toBeInTheDocument();
+      expect(screen.getByText('Them')).toBeInTheDocument();
+    });
+
+    it('should place the timestamp inside the bubble on WhatsApp', () => {
+      renderMessage('whatsapp', 'support');
+
+      const timestamp = screen.getByTestId('chat-timestamp');
+      expect(timestamp.closest('div')).toHaveTextContent('Hello there');
+    });
+
+    it('should place the timestamp below the bubble on iMessage', () => {
+      renderMessage('imessage', 'you');
+
+      const timestamp = screen.getByTestId('chat-timestamp');
+      expect(timestamp.closest('div')).not.toHaveTextContent('Hello there');
+    });
+  });
+
+  describe('Right-to-left layouts', () => {
+    const renderRtl = (platform: ChatPlatform, sender: ChatSender) =>
+      render(
+        <div dir="rtl">
+          <ChatMessage
+            styles={platformStyles[platform]}
+            sender={sender}
+            senderName="Them"
+            avatarInitial="S"
+            avatarColor="#007A5A"
+            timestamp="9:07 AM"
+            text="Hello there"
+            animationDelay={0}
+            presence="active"
+            presenceLabel="Active"
+          />
+        </div>
+      );
+
+    it('should space own bubbles from the inline start, so they flip with the page', () => {
+      renderRtl('whatsapp', 'you');
+
+      const bubble = screen.getByText('Hello there').closest<HTMLElement>('div[style*="margin-inline-start"]');
+      expect(bubble?.style.marginInlineStart).toBe('48px');
+      expect(bubble?.getAttribute('style')).not.toMatch(/margin-(left|right)/);
+    });
+
+    it('should keep the WhatsApp timestamp at the inline end of the bubble', () => {
+      renderRtl('whatsapp', 'support');
+
+      expect(screen.getByTestId('chat-timestamp').parentElement?.style.float).toBe('inline-end');
+    });
+
+    it('should pin the presence dot to the inline end of the avatar', () => {
+      renderRtl('slack', 'support');
+
+      const dot = screen.getByTestId('chat-presence').parentElement;
+      expect(dot?.style.insetInlineEnd).toBe('-3px');
+      expect(dot?.style.right).toBe('');
+    });
+  });
+
+  describe('Time zones', () => {
+    it('should show their local time next to the timestamp when given', () => {
+      render(
+        <ChatMessage
+          styles={platformStyles.slack}
+          sender="support"
+          senderName="Them"
+          avatarInitial="S"
+          avatarColor="#007A5A"
+          timestamp="9:07 AM"
+          remoteTimestamp="6:37 PM their time"
+          text="Hello there"
+          animationDelay={0}
+        />
+      );
+
+      expect(screen.getByTestId('chat-timestamp')).toHaveTextContent('9:07 AM · 6:37 PM their time');
+    });
+
+    it('should leave out the remote time by default', () => {
+      renderMessage('slack', 'support');
+
+      expect(screen.queryByTestId('chat-remote-timestamp')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Message details', () => {
+    const renderDetailedMessage = (platform: ChatPlatform) =>
+      render(
+        <ChatMessage
+          styles={platformStyles[platform]}
+          sender="support"
+          senderName="Them"
+          avatarInitial="S"
+          avatarColor="#007A5A"
+          timestamp="9:07 AM"
+          text="Hello there"
+          animationDelay={0}
+          presence="away"
+          presenceLabel="Away"
+          editedLabel="(edited)"
+          reactions={[{ emoji: '👀', count: 2, label: '2 reactions with 👀' }]}
+        >
+          <span>Thread goes here</span>
+        </ChatMessage>
+      );
+
+    it('should show the presence dot on the avatar', () => {
+      renderDetailedMessage('slack');
+
+      const dot = screen.getByTestId('chat-presence');
+      expect(dot).toHaveAttribute('data-presence', 'away');
+      expect(dot).toHaveAccessibleName('Away');
+      expect(screen.getByTestId('chat-avatar').parentElement).toContainElement(dot);
+    });
+
+    it('should show the presence dot next to the name when there is no avatar', () => {
+      renderDetailedMessage('imessage');
+
+      expect(screen.getByTestId('chat-presence')).toBeInTheDocument();
+      expect(screen.queryByTestId('chat-avatar')).not.toBeInTheDocument();
+    });
+
+    it('should mark edited messages', () => {
+      renderDetailedMessage('slack');
+
+      expect(screen.getByTestId('chat-edited')).toHaveTextContent('(edited)');
+    });
+
+    it('should list reactions with accessible labels', () => {
+      renderDetailedMessage('whatsapp');
+
+      const reaction = screen.getByTestId('chat-reaction');
+      expect(reaction).toHaveTextContent('👀');
+      expect(reaction).toHaveTextContent('2');
+      expect(reaction).toHaveAccessibleName('2 reactions with 👀');
+    });
+
+    it('should render children below the message', () => {
+      renderDetailedMessage('slack');
+
+      expect(screen.getByText('Thread goes here')).toBeInTheDocument();
+    });
+
+    it('should show the avatar image instead of the initial', () => {
+      render(
+        <ChatMessage
+          styles={platformStyles.slack}
+          sender="support"
+          senderName="Priya"
+          senderRole="On call"
+          avatarInitial="P"
+          avatarColor="#007A5A"
+          avatarUrl="/avatars/priya.png"
+          timestamp="9:07 AM"
+          text="Hello there"
+          animationDelay={0}
+        />
+      );
+
+      const avatar = screen.getByTestId('chat-avatar');
+      expect(screen.getByTestId('chat-avatar-image')).toHaveAttribute('src', '/avatars/priya.png');
+      expect(avatar).not.toHaveTextContent('P');
+      expect(avatar).toHaveAttribute('title', 'Priya · On call');
+      expect(screen.getByText('Priya')).toHaveAttribute('title', 'On call');
+    });
+
+    it('should leave out details by default', () => {
+      renderMessage('slack', 'support');
+
+      expect(screen.queryByTestId('chat-presence')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('chat-edited')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('chat-reaction')).not.toBeInTheDocument();
+    });
+  });
+});
+
+describe('ChatThreadStub', () => {
+  it('should show the reply count and last reply time', () => {
+    render(
+      <ChatThreadStub
+        styles={platformStyles.slack}
+        replyCountLabel="2 replies"
+        lastReplyLabel="Last reply 9:30 AM"
+        avatars={[{ avatarColor: '#007A5A' }, { avatarColor: '#E01E5A' }]}
+        isExpanded={false}
+        onToggle={() => {}}
+      />
+    );
+
+    const stub = screen.getByTestId('chat-thread-stub');
+    expect(stub).toHaveTextContent('2 replies');
+    expect(stub).toHaveTextContent('Last reply 9:30 AM');
+    expect(stub).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('should call onToggle when clicked', () => {
+    const onToggle = vi.fn();
+    render(
+      <ChatThreadStub
+        styles={platformStyles.slack}
+        replyCountLabel="1 reply"
+        lastReplyLabel="Last reply 9:30 AM"
+        avatars={[{ avatarColor: '#007A5A', avatarUrl: '/avatars/you.png' }]}
+        isExpanded
+        onToggle={onToggle}
+      />
+    );
+
+    const stub = screen.getByTestId('chat-thread-stub');
+    expect(stub).toHaveAttribute('aria-expanded', 'true');
+    fireEvent.click(stub);
+    expect(onToggle).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ChatDateSeparator', () => {
+  it('should render lines around the label for line separators', () => {
+    render(<ChatDateSeparator styles={platformStyles.slack} label="Today" isFirst />);
+
+    const separator = screen.getByTestId('chat-date-separator');
+    expect(separator).toHaveTextContent('Today');
+    expect(separator.children).toHaveLength(3);
+  });
+
+  it('should uppercase the label for WhatsApp pills', () => {
+    render(<ChatDateSeparator styles={platformStyles.whatsapp} label="Today" isFirst={false} />);
+
+    expect(screen.getByText('TODAY')).toBeInTheDocument();
+    expect(screen.getByTestId('chat-date-separator').children).toHaveLength(1);
+  });
+});
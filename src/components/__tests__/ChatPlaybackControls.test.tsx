@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ChatPlaybackControls } from '../ChatPlaybackControls';
+import i18n from '../../i18n/config';
+
+describe('ChatPlaybackControls', () => {
+  const mockOnPlayPause = vi.fn();
+  const mockOnSeek = vi.fn();
+  const mockOnShowAll = vi.fn();
+
+  const renderControls = (isPlaying: boolean, positionMs: number) =>
+    render(
+      <ChatPlaybackControls
+        isPlaying={isPlaying}
+        positionMs={positionMs}
+        totalMs={10000}
+        elapsedLabel="3h 0m"
+        onPlayPause={mockOnPlayPause}
+        onSeek={mockOnSeek}
+        onShowAll={mockOnShowAll}
+      />
+    );
+
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    mockOnPlayPause.mockClear();
+    mockOnSeek.mockClear();
+    mockOnShowAll.mockClear();
+  });
+
+  it('should show a pause button while playing', () => {
+    renderControls(true, 5000);
+
+    expect(screen.getByRole('button', { name: /pause/i })).toBeInTheDocument();
+  });
+
+  it('should show a replay button once finished', () => {
+    renderControls(false, 10000);
+
+    expect(screen.getByRole('button', { name: /replay/i })).toBeInTheDocument();
+  });
+
+  it('should call onPlayPause when the play button is clicked', async () => {
+    const user = userEvent.setup();
+    renderControls(false, 0);
+
+    await user.click(screen.getByRole('button', { name: /^play$/i }));
+
+    expect(mockOnPlayPause).toHaveBeenCalled();
+  });
+
+  it('should seek when the scrubber moves', () => {
+    renderControls(false, 0);
+
+    fireEvent.change(screen.getByRole('slider', { name: /playback position/i }), { target: { value: '4000' } });
+
+    expect(mockOnSeek).toHaveBeenCalledWith(4000);
+  });
+
+  it('should display the elapsed time', () => {
+    renderControls(true, 5000);
+
+    expect(screen.getByRole('timer')).toHaveTextContent('Time elapsed: 3h 0m');
+  });
+
+  it('should call onShowAll', async () => {
+    const user = userEvent.setup();
+    renderControls(true, 5000);
+
+    await user.click(screen.getByRole('button', { name: /show all/i }));
+
+    expect(mockOnShowAll).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { ConversationBuilder } from '../ConversationBuilder';
+import i18n from '../../i18n/config';
+import { encodeConversations } from '../../utils/conversationPermalink';
+
+describe('ConversationBuilder', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    window.history.replaceState(null, '', '/builder');
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+    vi.restoreAllMocks();
+  });
+
+  const editor = (title: string) => screen.getByRole('group', { name: title });
+
+  it('should start from the standard examples', () => {
+    render(<ConversationBuilder />);
+
+    expect(within(editor('Bad:')).getAllByTestId('builder-message')).toHaveLength(8);
+    expect(within(editor('Good:')).getAllByTestId('builder-message')).toHaveLength(2);
+    expect(screen.getAllByTestId('chat-example')).toHaveLength(2);
+  });
+
+  it('should show edits in the preview', () => {
+    render(<ConversationBuilder />);
+
+    fireEvent.change(within(editor('Good:')).getByLabelText('Message 1'), {
+      target: { value: 'Hi - the build is red since the last merge, can you look?' },
+    });
+
+    const [, goodPreview] = screen.getAllByTestId('chat-example');
+    expect(within(goodPreview).getByText('Hi - the build is red since the last merge, can you look?')).toBeInTheDocument();
+    expect(within(goodPreview).queryByText(/trouble with the login form/)).not.toBeInTheDocument();
+  });
+
+  it('should leave incomplete messages out of the preview', () => {
+    render(<ConversationBuilder />);
+
+    fireEvent.click(within(editor('Good:')).getByRole('button', { name: /add message/i }));
+
+    expect(screen.getByTestId('builder-invalid')).toHaveTextContent('1 message is incomplete');
+    const [, goodPreview] = screen.getAllByTestId('chat-example');
+    expect(within(goodPreview).getAllByTestId('chat-message')).toHaveLength(2);
+  });
+
+  it('should copy a link that re-creates the conversations', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    render(<ConversationBuilder />);
+
+    fireEvent.change(within(editor('Bad:')).getByLabelText('Message 1'), { target: { value: 'Yo' } });
+    fireEvent.click(screen.getByRole('button', { name: /copy link/i }));
+
+    await waitFor(() => expect(screen.getByText(/link copied/i)).toBeInTheDocument());
+    const link = writeText.mock.calls[0][0] as string;
+    expect(link).toMatch(/\/builder#c=[\w-]+$/);
+    expect(screen.getByRole('textbox', { name: 'Link to these conversations' })).toHaveValue(link);
+    expect(window.location.hash).toBe(new URL(link).hash);
+  });
+
+  it('should still show the link without clipboard access', async () => {
+    Object.defineProperty(navigator, 'clipboard', {
+      value: { writeText: vi.fn().mockRejectedValue(new Error('denied')) },
+      configurable: true,
+    });
+    render(<ConversationBuilder />);
+
+    fireEvent.click(screen.getByRole('button', { name: /copy link/i }));
+
+    const linkInput = await screen.findByRole('textbox', { name: 'Link to these conversations' });
+    expect((linkInput as HTMLInputElement).value).toContain('#c=');
+    expect(screen.queryByText(/link copied/i)).not.toBeInTheDocument();
+  });
+
+  it('should load the conversations from the link', async () => {
+    const code = await encodeConversations({
+      bad: [{ text: 'ping', sender: 'you' }],
+      good: [{ text: 'The staging login returns a 500 - can you check the logs?', sender: 'you' }],
+    });
+    window.history.replaceState(null, '', `/builder#c=${code}`);
+    render(<ConversationBuilder />);
+
+    expect(screen.getByRole('status')).toHaveTextContent(/loading/i);
+    await waitFor(() => expect(within(editor('Bad:')).getAllByTestId('builder-message')).toHaveLength(1));
+    expect(within(editor('Bad:')).getByLabelText('Message 1')).toHaveValue('ping');
+    expect(within(screen.getAllByTestId('chat-example')[0]).getByText('ping')).toBeInTheDocument();
+  });
+
+  it('should fall back to the examples for a damaged link', async () => {
+    window.history.replaceState(null, '', '/builder#c=broken');
+    render(<ConversationBuilder />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/damaged/);
+    expect(within(editor('Bad:')).getAllByTestId('builder-message')).toHaveLength(8);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ConversationEditor } from '../ConversationEditor';
+import i18n from '../../i18n/config';
+import type { ConversationMessage } from '../../types/chat';
+
+const messages: ConversationMessage[] = [
+  { text: 'Hi', sender: 'you' },
+  { text: 'Hello', sender: 'support', delay: '2h' },
+];
+
+describe('ConversationEditor', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    mockOnChange.mockClear();
+  });
+
+  const renderEditor = () =>
+    render(<ConversationEditor title="Bad:" titleColor="red" messages={messages} onChange={mockOnChange} />);
+
+  it('should show one row per message', () => {
+    renderEditor();
+
+    expect(screen.getAllByTestId('builder-message')).toHaveLength(2);
+    expect(screen.getByLabelText('Message 1')).toHaveValue('Hi');
+    expect(screen.getByLabelText('Wait before')).toHaveValue('2h');
+  });
+
+  it('should update the text of a message', () => {
+    renderEditor();
+
+    fireEvent.change(screen.getByLabelText('Message 2'), { target: { value: 'What is up?' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith([messages[0], { ...messages[1], text: 'What is up?' }]);
+  });
+
+  it('should drop an emptied wait', () => {
+    renderEditor();
+
+    fireEvent.change(screen.getByLabelText('Wait before'), { target: { value: '' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith([messages[0], { text: 'Hello', sender: 'support' }]);
+  });
+
+  it('should change the sender', () => {
+    renderEditor();
+
+    fireEvent.change(screen.getAllByLabelText('From')[0], { target: { value: 'support' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith([{ text: 'Hi', sender: 'support' }, messages[1]]);
+  });
+
+  it('should add a reply from the other person', () => {
+    renderEditor();
+
+    fireEvent.click(screen.getByRole('button', { name: /add message/i }));
+
+    expect(mockOnChange).toHaveBeenCalledWith([...messages, { text: '', sender: 'you' }]);
+  });
+
+  it('should remove a message', () => {
+    renderEditor();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove message 1' }));
+
+    expect(mockOnChange).toHaveBeenCalledWith([messages[1]]);
+  });
+});
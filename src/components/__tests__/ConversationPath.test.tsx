@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ConversationPath } from '../ConversationPath';
+import i18n from '../../i18n/config';
+import { DEFAULT_WORKING_CALENDAR } from '../../utils/workingCalendar';
+
+// Monday at 10 AM, well inside business hours
+const MONDAY_MORNING = { day: 1, minutes: 10 * 60 };
+
+const renderPath = () =>
+  render(<ConversationPath sendTime={MONDAY_MORNING} calendar={DEFAULT_WORKING_CALENDAR} />);
+
+const choose = (text: string | RegExp) => {
+  fireEvent.click(within(screen.getByTestId('path-choices')).getByRole('button', { name: text }));
+};
+
+describe('ConversationPath', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should start with the first choice and no messages', () => {
+    renderPath();
+
+    const choices = screen.getByRole('group', { name: /What do you send first\?/ });
+    expect(within(choices).getAllByRole('button')).toHaveLength(3);
+    expect(screen.queryAllByTestId('chat-message')).toHaveLength(0);
+  });
+
+  it('should add your message and the reply after the delay of that choice', () => {
+    renderPath();
+
+    choose('Hi');
+
+    const messages = screen.getAllByTestId('chat-message');
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toHaveTextContent('Hi');
+    expect(messages[1]).toHaveTextContent("Yes, hi. What's up?");
+    expect(screen.getByTestId('path-wait')).toHaveTextContent('2h 0m later');
+    expect(screen.getByRole('group', { name: /still don't know what you need/ })).toBeInTheDocument();
+  });
+
+  it('should sum up a slow path and point to the quicker one', () => {
+    renderPath();
+
+    choose('Hi');
+    choose('Are you there?');
+    choose("Well it's not working");
+
+    expect(screen.queryByTestId('path-choices')).not.toBeInTheDocument();
+    const summary = screen.getByTestId('path-summary');
+    expect(summary).toHaveTextContent('You had your answer after 6h 8m.');
+    expect(summary).toHaveTextContent('You sent 3 messages.');
+    expect(summary).toHaveTextContent('The quickest path takes 1h 9m.');
+  });
+
+  it('should celebrate the quickest path', () => {
+    renderPath();
+
+    choose(/I'm having trouble with the login form/);
+    choose(/Here it is/);
+
+    const summary = screen.getByTestId('path-summary');
+    expect(summary).toHaveTextContent('You had your answer after 1h 9m.');
+    expect(summary).toHaveTextContent("That's the quickest path!");
+  });
+
+  it('should start again', () => {
+    renderPath();
+
+    choose(/I'm having trouble with the login form/);
+    choose(/Here it is/);
+    fireEvent.click(screen.getByRole('button', { name: /Start again/ }));
+
+    expect(screen.queryAllByTestId('chat-message')).toHaveLength(0);
+    expect(screen.getByTestId('path-choices')).toBeInTheDocument();
+  });
+
+  it('should follow the current language', () => {
+    i18n.changeLanguage('de');
+    renderPath();
+
+    choose('Hi');
+
+    expect(screen.getAllByTestId('chat-message')[1]).toHaveTextContent("Ja, hi. Was gibt's?");
+    expect(screen.getByTestId('path-wait')).toHaveTextContent('später');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MessageLinter } from '../MessageLinter';
+import i18n from '../../i18n/config';
+
+describe('MessageLinter', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should render a labelled text box', () => {
+    render(<MessageLinter />);
+
+    expect(screen.getByLabelText(/your first message/i)).toBeInTheDocument();
+  });
+
+  it('should not show any feedback before typing', () => {
+    render(<MessageLinter />);
+
+    expect(screen.queryByText(/greeting only/i)).not.toBeInTheDocument();
+    expect(screen.queryByText(/looks good/i)).not.toBeInTheDocument();
+  });
+
+  it('should flag a greeting-only message and suggest a rewrite', async () => {
+    const user = userEvent.setup();
+    render(<MessageLinter />);
+
+    await user.type(screen.getByLabelText(/your first message/i), 'hi');
+
+    expect(screen.getByText(/greeting only/i)).toBeInTheDocument();
+    expect(screen.getByTestId('linter-suggestion')).toHaveTextContent(/^Hi - \[what you're working on\]/);
+  });
+
+  it('should replace the message with the suggestion', async () => {
+    const user = userEvent.setup();
+    render(<MessageLinter />);
+
+    const textbox = screen.getByLabelText(/your first message/i);
+    await user.type(textbox, 'ping');
+    const suggestion = screen.getByTestId('linter-suggestion').textContent;
+    await user.click(screen.getByRole('button', { name: /use this message/i }));
+
+    expect(textbox).toHaveValue(suggestion);
+  });
+
+  it('should accept a message with context', async () => {
+    const user = userEvent.setup();
+    render(<MessageLinter />);
+
+    await user.type(
+      screen.getByLabelText(/your first message/i),
+      'Hi - the deployment script fails on step 3 with a timeout. Can you take a look?'
+    );
+
+    expect(screen.getByText(/looks good/i)).toBeInTheDocument();
+  });
+
+  it('should use the corpus of the active language', async () => {
+    i18n.changeLanguage('de');
+    const user = userEvent.setup();
+    render(<MessageLinter />);
+
+    await user.type(screen.getByLabelText(/deine erste nachricht/i), 'Bist du da?');
+
+    expect(screen.getByText(/nur eine begrüßung/i)).toBeInTheDocument();
+    expect(screen.getByTestId('linter-suggestion')).toHaveTextContent(/^Hi - \[woran du arbeitest\]/);
+  });
+});
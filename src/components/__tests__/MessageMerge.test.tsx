@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MessageMerge } from '../MessageMerge';
+import i18n from '../../i18n/config';
+
+const kinds = () => screen.getAllByTestId('merge-fragment').map((fragment) => fragment.getAttribute('data-kind'));
+
+describe('MessageMerge', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should render a labelled text box without a result', () => {
+    render(<MessageMerge />);
+
+    expect(screen.getByLabelText(/your messages, one per line/i)).toBeInTheDocument();
+    expect(screen.queryByTestId('merge-result')).not.toBeInTheDocument();
+  });
+
+  it('should merge a fragmented thread into one message with placeholders', async () => {
+    const user = userEvent.setup();
+    render(<MessageMerge />);
+
+    await user.type(
+      screen.getByLabelText(/your messages, one per line/i),
+      "hi{Enter}you there?{Enter}I have a question about my code{Enter}it's not working"
+    );
+
+    expect(kinds()).toEqual(['greeting', 'greeting', 'content', 'content']);
+    expect(screen.getAllByText('Greeting or ping - dropped')).toHaveLength(2);
+    expect(screen.getByTestId('merge-result').textContent).toBe(
+      "Hi - I have a question about my code. It's not working.\n\n" +
+        "What: [what you're trying to do, and what happens instead]\n" +
+        'Where: [the file, page or command]\n' +
+        "Tried: [what you've tried so far]"
+    );
+  });
+
+  it('should copy the merged message', async () => {
+    const user = userEvent.setup();
+    const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockResolvedValue();
+    render(<MessageMerge />);
+
+    await user.type(screen.getByLabelText(/your messages, one per line/i), 'ping{Enter}the deploy script fails');
+    await user.click(screen.getByRole('button', { name: /copy message/i }));
+
+    expect(writeText).toHaveBeenCalledWith(screen.getByTestId('merge-result').textContent);
+    expect(screen.getByRole('button', { name: /copied/i })).toBeInTheDocument();
+  });
+
+  it('should use the corpus of the active language', async () => {
+    const user = userEvent.setup();
+    render(<MessageMerge />);
+
+    await act(async () => {
+      await i18n.changeLanguage('de');
+    });
+    await user.type(screen.getByLabelText(/deine nachrichten/i), 'Hallo{Enter}kurze Frage{Enter}das Skript schlägt fehl');
+
+    expect(kinds()).toEqual(['greeting', 'filler', 'content']);
+    expect(screen.getByTestId('merge-result')).toHaveTextContent(/^Hi - Das Skript schlägt fehl\. Versucht:/);
+  });
+});
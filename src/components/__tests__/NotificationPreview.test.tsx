@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { NotificationPreview } from '../NotificationPreview';
+import i18n from '../../i18n/config';
+
+const banner = (surface: string) =>
+  screen.getAllByTestId('notification-banner').find((element) => element.getAttribute('data-surface') === surface)!;
+
+describe('NotificationPreview', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should show phone and desktop notifications for the first message', () => {
+    render(<NotificationPreview type="bad" />);
+
+    expect(within(screen.getByTestId('notification-phone')).getAllByTestId('notification-banner')).toHaveLength(2);
+    expect(within(screen.getByTestId('notification-desktop')).getAllByTestId('notification-banner')).toHaveLength(2);
+    screen.getAllByTestId('notification-body').forEach((body) => {
+      expect(body).toHaveTextContent(/^Hi$/);
+    });
+  });
+
+  it('should show the sender and the chat app', () => {
+    render(<NotificationPreview type="bad" platform="teams" />);
+
+    const ios = within(banner('ios'));
+    expect(ios.getByText('You')).toBeInTheDocument();
+    expect(ios.getByText('Microsoft Teams')).toBeInTheDocument();
+    expect(ios.getByText('now')).toBeInTheDocument();
+  });
+
+  it('should cut the good message off on the smaller banners only', () => {
+    render(<NotificationPreview type="good" />);
+
+    expect(within(banner('android')).getByTestId('notification-body').textContent).toMatch(/…$/);
+    expect(banner('android')).toHaveTextContent('Cut off after 40 characters');
+    expect(within(banner('ios')).getByTestId('notification-body')).toHaveTextContent(
+      "Hi - I'm having trouble with the login form. When I submit it, nothing happens. Can you take a look?"
+    );
+  });
+
+  it('should follow the current language', () => {
+    i18n.changeLanguage('de');
+    render(<NotificationPreview type="bad" />);
+
+    expect(screen.getByText('Benachrichtigungsvorschau')).toBeInTheDocument();
+    expect(within(banner('macos')).getByText('Du')).toBeInTheDocument();
+    expect(within(banner('macos')).getByText('jetzt')).toBeInTheDocument();
+  });
+});
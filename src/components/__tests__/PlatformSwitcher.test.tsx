@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PlatformSwitcher } from '../PlatformSwitcher';
+import { CHAT_PLATFORMS, platformStyles } from '../../data/chatPlatforms';
+import i18n from '../../i18n/config';
+
+describe('PlatformSwitcher', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    mockOnChange.mockClear();
+  });
+
+  it('should render an option for every platform', () => {
+    render(<PlatformSwitcher value="slack" onChange={mockOnChange} />);
+
+    expect(screen.getByRole('radiogroup')).toBeInTheDocument();
+    expect(screen.getAllByRole('radio')).toHaveLength(CHAT_PLATFORMS.length);
+    CHAT_PLATFORMS.forEach((platform) => {
+      expect(screen.getByRole('radio', { name: platformStyles[platform].name })).toBeInTheDocument();
+    });
+  });
+
+  it('should mark the current platform as checked', () => {
+    render(<PlatformSwitcher value="discord" onChange={mockOnChange} />);
+
+    expect(screen.getByRole('radio', { name: 'Discord' })).toHaveAttribute('aria-checked', 'true');
+    expect(screen.getByRole('radio', { name: 'Slack' })).toHaveAttribute('aria-checked', 'false');
+  });
+
+  it('should call onChange with the clicked platform', async () => {
+    const user = userEvent.setup();
+    render(<PlatformSwitcher value="slack" onChange={mockOnChange} />);
+
+    await user.click(screen.getByRole('radio', { name: 'Microsoft Teams' }));
+
+    expect(mockOnChange).toHaveBeenCalledWith('teams');
+  });
+
+  it('should render a translated label', () => {
+    i18n.changeLanguage('de');
+    render(<PlatformSwitcher value="slack" onChange={mockOnChange} />);
+
+    expect(screen.getByText('Anzeigen als')).toBeInTheDocument();
+  });
+});
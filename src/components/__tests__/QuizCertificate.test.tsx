@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QuizCertificate } from '../QuizCertificate';
+import { issueCertificate } from '../../api/certificates';
+import i18n from '../../i18n/config';
+import type { QuizAnswer } from '../../types/quiz';
+
+vi.mock('../../api/certificates', () => ({
+  issueCertificate: vi.fn(),
+}));
+
+const answers: [number, QuizAnswer][] = [
+  [4, 1],
+  [9, false],
+];
+
+describe('QuizCertificate', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    vi.mocked(issueCertificate).mockReset();
+  });
+
+  it('should issue a certificate for the name entered', async () => {
+    const user = userEvent.setup();
+    vi.mocked(issueCertificate).mockResolvedValue({ code: 'ABCD-1234-WXYZ', date: '2026-10-18', score: 4, total: 5 });
+    render(<QuizCertificate seed={3} answers={answers} />);
+
+    expect(screen.getByRole('button', { name: 'Create Certificate' })).toBeDisabled();
+    await user.type(screen.getByLabelText('Name on the certificate'), '  Ada  Lovelace ');
+    await user.click(screen.getByRole('button', { name: 'Create Certificate' }));
+
+    expect(issueCertificate).toHaveBeenCalledWith({ name: 'Ada Lovelace', seed: 3, answers });
+    expect(await screen.findByTestId('quiz-certificate-code')).toHaveTextContent('Verification code: ABCD-1234-WXYZ');
+    expect(screen.getByRole('button', { name: 'Download as SVG' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Download as PDF' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Check this certificate' })).toHaveAttribute(
+      'href',
+      `${window.location.origin}/verify/ABCD-1234-WXYZ?name=Ada+Lovelace&score=4&total=5&date=2026-10-18`
+    );
+  });
+
+  it('should drop the certificate when the name changes', async () => {
+    const user = userEvent.setup();
+    vi.mocked(issueCertificate).mockResolvedValue({ code: 'ABCD-1234-WXYZ', date: '2026-10-18', score: 4, total: 5 });
+    render(<QuizCertificate seed={3} answers={answers} />);
+
+    await user.type(screen.getByLabelText('Name on the certificate'), 'Ada');
+    await user.click(screen.getByRole('button', { name: 'Create Certificate' }));
+    await screen.findByTestId('quiz-certificate-code');
+    await user.type(screen.getByLabelText('Name on the certificate'), 'm');
+
+    expect(screen.queryByTestId('quiz-certificate-code')).not.toBeInTheDocument();
+  });
+
+  it('should tell the user when the certificate cannot be created', async () => {
+    const user = userEvent.setup();
+    vi.mocked(issueCertificate).mockRejectedValue(new Error('Certificate request failed: 503'));
+    render(<QuizCertificate seed={3} answers={answers} />);
+
+    await user.type(screen.getByLabelText('Name on the certificate'), 'Ada');
+    await user.click(screen.getByRole('button', { name: 'Create Certificate' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('The certificate could not be created.');
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import type { ComponentProps } from 'react';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
@@ -17,6 +18,38 @@ const mockQuestion: QuizQuestionType = {
   correctAnswer: 1
 };
 
+const multipleQuestion: QuizQuestionType = {
+  id: 2,
+  type: 'multiple',
+  question: 'Which of these belong in a good first message?',
+  options: ["What you're trying to do", "A separate 'Hi' sent first", "What you've already tried"],
+  correctAnswers: [0, 2],
+};
+
+const trueFalseQuestion: QuizQuestionType = {
+  id: 3,
+  type: 'trueFalse',
+  question: 'True or false: a greeting and a question can share a message.',
+  correctAnswer: true,
+};
+
+const orderingQuestion: QuizQuestionType = {
+  id: 4,
+  type: 'ordering',
+  question: "Put these lines in the order you'd send them.",
+  items: ['The deploy fails on step 3.', 'Hi - I am deploying to staging.', 'Could you check the database?'],
+  correctOrder: [1, 0, 2],
+};
+
+const rewriteQuestion: QuizQuestionType = {
+  id: 5,
+  type: 'rewrite',
+  question: 'Pick the best rewrite of this chat.',
+  chat: ['Hi', 'Are you there?', 'I have a question about `npm`'],
+  options: ['Hello! Are you there?', 'Hi - why does `npm ci` fail on the runner?'],
+  correctAnswer: 1,
+};
+
 describe('QuizQuestion', () => {
   beforeEach(() => {
     i18n.changeLanguage('en');
@@ -248,6 +281,182 @@ describe('QuizQuestion', () => {
     });
   });
 
+  describe('Question Types', () => {
+    const renderQuestion = (
+      question: QuizQuestionType,
+      props: Partial<Omit<ComponentProps<typeof QuizQuestion>, 'question'>> = {}
+    ) =>
+      render(
+        <QuizQuestion
+          question={question}
+          questionNumber={1}
+          totalQuestions={5}
+          onAnswer={vi.fn()}
+          selectedAnswer={null}
+          isAnswered={false}
+          isCorrect={null}
+          {...props}
+        />
+      );
+
+    it('should tick and untick multi-select options as checkboxes', async () => {
+      const user = userEvent.setup();
+      const onAnswer = vi.fn();
+      renderQuestion(multipleQuestion, { onAnswer, selectedAnswer: [0] });
+
+      const checkboxes = screen.getAllByRole('checkbox');
+      expect(checkboxes).toHaveLength(3);
+      expect(checkboxes[0]).toHaveAttribute('aria-checked', 'true');
+      expect(checkboxes[1]).toHaveAttribute('aria-checked', 'false');
+
+      await user.click(checkboxes[2]);
+      expect(onAnswer).toHaveBeenLastCalledWith([0, 2]);
+
+      await user.click(checkboxes[0]);
+      expect(onAnswer).toHaveBeenLastCalledWith([]);
+    });
+
+    it('should mark every right option and each wrong tick of a multi-select answer', () => {
+      renderQuestion(multipleQuestion, { selectedAnswer: [0, 1], isAnswered: true, isCorrect: false });
+
+      expect(screen.getAllByText('✓')).toHaveLength(2);
+      expect(screen.getAllByText('✗')).toHaveLength(1);
+    });
+
+    it('should offer true and false as radios', async () => {
+      const user = userEvent.setup();
+      const onAnswer = vi.fn();
+      renderQuestion(trueFalseQuestion, { onAnswer, selectedAnswer: false });
+
+      expect(screen.getByRole('radiogroup')).toBeInTheDocument();
+      expect(screen.getByRole('radio', { name: 'False' })).toHaveAttribute('aria-checked', 'true');
+
+      await user.click(screen.getByRole('radio', { name: 'True' }));
+      expect(onAnswer).toHaveBeenCalledWith(true);
+    });
+
+    it('should move ordering items up and down', async () => {
+      const user = userEvent.setup();
+      const onAnswer = vi.fn();
+      renderQuestion(orderingQuestion, { onAnswer, selectedAnswer: [0, 1, 2] });
+
+      expect(screen.getByRole('button', { name: 'Move “The deploy fails on step 3.” up' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Move “Could you check the database?” down' })).toBeDisabled();
+
+      await user.click(screen.getByRole('button', { name: 'Move “Hi - I am deploying to staging.” up' }));
+      expect(onAnswer).toHaveBeenCalledWith([1, 0, 2]);
+
+      await user.click(screen.getByRole('button', { name: 'Move “The deploy fails on step 3.” down' }));
+      expect(onAnswer).toHaveBeenLastCalledWith([1, 0, 2]);
+    });
+
+    it('should show the right order after a wrong ordering answer', () => {
+      renderQuestion(orderingQuestion, { selectedAnswer: [0, 1, 2], isAnswered: true, isCorrect: false });
+
+      const correctOrder = screen.getByTestId('quiz-correct-order');
+      expect(Array.from(correctOrder.querySelectorAll('li'), (item) => item.textContent)).toEqual([
+        'Hi - I am deploying to staging.',
+        'The deploy fails on step 3.',
+        'Could you check the database?',
+      ]);
+      expect(screen.queryByRole('button', { name: /move/i })).not.toBeInTheDocument();
+    });
+
+    it('should show the chat to rewrite above the options', async () => {
+      const user = userEvent.setup();
+      const onAnswer = vi.fn();
+      renderQuestion(rewriteQuestion, { onAnswer });
+
+      const chat = screen.getByTestId('quiz-chat');
+      expect(chat.querySelectorAll('li')).toHaveLength(3);
+      expect(chat.querySelector('code')).toHaveTextContent('npm');
+
+      await user.click(screen.getByRole('button', { name: /why does/ }));
+      expect(onAnswer).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('Explanations', () => {
+    const explained: QuizQuestionType = {
+      ...mockQuestion,
+      explanations: ['Polite enough.', 'Right: they have to wait.', 'Tiny.', 'Allowed everywhere.'],
+      learnMore: 'problem',
+    };
+
+    it('should explain the option picked and the right one after a wrong answer', () => {
+      render(
+        <QuizQuestion
+          question={explained}
+          questionNumber={1}
+          totalQuestions={5}
+          onAnswer={vi.fn()}
+          selectedAnswer={0}
+          isAnswered={true}
+          isCorrect={false}
+        />
+      );
+
+      const items = screen.getByTestId('quiz-explanations').querySelectorAll('li');
+      expect(Array.from(items, (item) => item.lastChild?.textContent)).toEqual(['Polite enough.', 'Right: they have to wait.']);
+    });
+
+    it('should not explain anything before the answer is submitted', () => {
+      render(
+        <QuizQuestion
+          question={explained}
+          questionNumber={1}
+          totalQuestions={5}
+          onAnswer={vi.fn()}
+          selectedAnswer={1}
+          isAnswered={false}
+          isCorrect={null}
+        />
+      );
+
+      expect(screen.queryByTestId('quiz-explanations')).not.toBeInTheDocument();
+      expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    });
+
+    it('should link to the section named by the question', async () => {
+      const user = userEvent.setup();
+      const onLearnMore = vi.fn();
+      render(
+        <QuizQuestion
+          question={explained}
+          questionNumber={1}
+          totalQuestions={5}
+          onAnswer={vi.fn()}
+          selectedAnswer={1}
+          isAnswered={true}
+          isCorrect={true}
+          onLearnMore={onLearnMore}
+        />
+      );
+
+      const link = screen.getByRole('link', { name: 'Learn more: The Problem' });
+      expect(link).toHaveAttribute('href', '#problem');
+
+      await user.click(link);
+      expect(onLearnMore).toHaveBeenCalled();
+    });
+
+    it('should show the explanation of a true/false statement', () => {
+      render(
+        <QuizQuestion
+          question={{ ...trueFalseQuestion, explanation: 'True: both fit in one message.' } as QuizQuestionType}
+          questionNumber={1}
+          totalQuestions={5}
+          onAnswer={vi.fn()}
+          selectedAnswer={true}
+          isAnswered={true}
+          isCorrect={true}
+        />
+      );
+
+      expect(screen.getByTestId('quiz-explanation')).toHaveTextContent('True: both fit in one message.');
+    });
+  });
+
   describe('Internationalization', () => {
     it('should display translated question number', () => {
       i18n.changeLanguage('es');
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QuizResults } from '../QuizResults';
+import i18n from '../../i18n/config';
+import type { QuizQuestion, QuizQuestionResult } from '../../types/quiz';
+
+const questions: QuizQuestion[] = [
+  { id: 4, question: 'What is everything?', options: ['Speed', 'Context'], correctAnswer: 1 },
+  { id: 9, type: 'trueFalse', question: 'True or false: online means free.', correctAnswer: false },
+];
+
+const results = new Map<number, QuizQuestionResult>([
+  [4, { questionId: 4, firstAnswer: 1, firstAttemptCorrect: true, isCorrect: true, retries: 0, blackjackRounds: 0, timeSpentMs: 12_000 }],
+  [9, { questionId: 9, firstAnswer: true, firstAttemptCorrect: false, isCorrect: true, retries: 2, blackjackRounds: 3, timeSpentMs: 65_000 }],
+]);
+
+describe('QuizResults', () => {
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+  });
+
+  it('should show the score, accuracy, time and blackjack rounds', () => {
+    render(<QuizResults seed={3} questions={questions} results={results} onRetake={vi.fn()} onClose={vi.fn()} />);
+
+    const summary = screen.getByTestId('quiz-summary');
+    expect(summary).toHaveTextContent('1 of 2 right on the first try');
+    expect(summary).toHaveTextContent('Accuracy: 50%');
+    expect(summary).toHaveTextContent('Time: 1m 17s');
+    expect(summary).toHaveTextContent('3 blackjack rounds played');
+  });
+
+  it('should review each question in the order asked', () => {
+    render(<QuizResults seed={3} questions={questions} results={results} onRetake={vi.fn()} onClose={vi.fn()} />);
+
+    const items = screen.getByTestId('quiz-review').querySelectorAll('li');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('1. What is everything?');
+    expect(items[0]).toHaveTextContent('Right on the first try · 12s');
+    expect(items[1]).toHaveTextContent('Right after 2 retries · 1m 5s');
+  });
+
+  it('should leave out the blackjack line when no hand was played', () => {
+    render(<QuizResults seed={3} questions={questions.slice(0, 1)} results={results} onRetake={vi.fn()} onClose={vi.fn()} />);
+
+    expect(screen.getByTestId('quiz-summary')).not.toHaveTextContent(/blackjack/i);
+  });
+
+  it('should offer a retake and a way out', async () => {
+    const user = userEvent.setup();
+    const onRetake = vi.fn();
+    const onClose = vi.fn();
+    render(<QuizResults seed={3} questions={questions} results={results} onRetake={onRetake} onClose={onClose} />);
+
+    await user.click(screen.getByRole('button', { name: /retake quiz/i }));
+    await user.click(screen.getByRole('button', { name: 'Close' }));
+
+    expect(onRetake).toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+});
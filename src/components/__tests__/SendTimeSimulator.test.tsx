@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SendTimeSimulator } from '../SendTimeSimulator';
+import i18n from '../../i18n/config';
+
+describe('SendTimeSimulator', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    mockOnChange.mockClear();
+  });
+
+  it('should default to right now with the time disabled', () => {
+    render(<SendTimeSimulator value={null} onChange={mockOnChange} />);
+
+    expect(screen.getByRole('combobox', { name: 'When did you send it?' })).toHaveValue('');
+    expect(screen.getByLabelText('Time sent')).toBeDisabled();
+  });
+
+  it('should list the days of the week starting on Monday', () => {
+    render(<SendTimeSimulator value={null} onChange={mockOnChange} />);
+
+    const options = screen.getAllByRole('option').map((option) => option.textContent);
+    expect(options).toEqual(['Right now', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']);
+  });
+
+  it('should default to 4:55 PM when a day is chosen', async () => {
+    const user = userEvent.setup();
+    render(<SendTimeSimulator value={null} onChange={mockOnChange} />);
+
+    await user.selectOptions(screen.getByRole('combobox'), 'Friday');
+
+    expect(mockOnChange).toHaveBeenCalledWith({ day: 5, minutes: 16 * 60 + 55 });
+  });
+
+  it('should update the time of day', () => {
+    render(<SendTimeSimulator value={{ day: 5, minutes: 16 * 60 + 55 }} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByLabelText('Time sent'), { target: { value: '08:30' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ day: 5, minutes: 8 * 60 + 30 });
+  });
+
+  it('should go back to right now', async () => {
+    const user = userEvent.setup();
+    render(<SendTimeSimulator value={{ day: 5, minutes: 16 * 60 + 55 }} onChange={mockOnChange} />);
+
+    await user.selectOptions(screen.getByRole('combobox'), 'Right now');
+
+    expect(mockOnChange).toHaveBeenCalledWith(null);
+  });
+});
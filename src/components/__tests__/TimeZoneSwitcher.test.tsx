@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TimeZoneSwitcher } from '../TimeZoneSwitcher';
+import i18n from '../../i18n/config';
+
+describe('TimeZoneSwitcher', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    i18n.changeLanguage('en');
+    mockOnChange.mockClear();
+  });
+
+  it('should default to the same time zone as the viewer', () => {
+    render(<TimeZoneSwitcher value={null} onChange={mockOnChange} />);
+
+    const select = screen.getByRole('combobox', { name: 'Their time zone' });
+    expect(select).toHaveValue('');
+    expect(screen.getByRole('option', { name: 'Same as mine' })).toBeInTheDocument();
+  });
+
+  it('should label time zones with their localized names', () => {
+    render(<TimeZoneSwitcher value="America/New_York" onChange={mockOnChange} />);
+
+    expect(screen.getByRole('option', { name: 'Eastern Time' })).toBeInTheDocument();
+    expect(screen.getByRole('combobox')).toHaveValue('America/New_York');
+  });
+
+  it('should call onChange with the chosen time zone, or null for the viewer\'s own', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<TimeZoneSwitcher value={null} onChange={mockOnChange} />);
+
+    await user.selectOptions(screen.getByRole('combobox'), 'Asia/Seoul');
+    expect(mockOnChange).toHaveBeenLastCalledWith('Asia/Seoul');
+
+    rerender(<TimeZoneSwitcher value="Asia/Seoul" onChange={mockOnChange} />);
+    await user.selectOptions(screen.getByRole('combobox'), '');
+    expect(mockOnChange).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CHAT_PARTICIPANTS, getChatParticipants } from '../chatParticipants';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+
+describe('chatParticipants', () => {
+  it('should take names, initials and roles from the locale data', () => {
+    const participants = getChatParticipants(de.chat.participants);
+
+    expect(participants.you).toMatchObject({ name: 'Du', initials: 'D', role: 'Entwickler' });
+    expect(participants.support).toMatchObject({ name: 'Support', initials: 'S' });
+  });
+
+  it('should keep the default avatar colors unless the locale sets its own', () => {
+    const participants = getChatParticipants({ support: { name: 'Sam', avatarColor: '#123456' } });
+
+    expect(participants.you).toEqual(DEFAULT_CHAT_PARTICIPANTS.you);
+    expect(participants.support).toEqual({ ...DEFAULT_CHAT_PARTICIPANTS.support, name: 'Sam', avatarColor: '#123456' });
+  });
+
+  it('should ignore fields that are not non-empty strings', () => {
+    const participants = getChatParticipants({ you: { name: '', initials: 7, unknown: 'x' } });
+
+    expect(participants.you).toEqual(DEFAULT_CHAT_PARTICIPANTS.you);
+  });
+
+  it('should fall back to the defaults without locale data', () => {
+    expect(getChatParticipants(undefined)).toEqual(DEFAULT_CHAT_PARTICIPANTS);
+    expect(getChatParticipants('chat.participants')).toEqual(DEFAULT_CHAT_PARTICIPANTS);
+  });
+
+  it('should let overrides replace the translated persona', () => {
+    const participants = getChatParticipants(en.chat.participants, {
+      support: { name: 'Priya', initials: 'P', avatarUrl: '/avatars/priya.png' },
+    });
+
+    expect(participants.support).toMatchObject({
+      name: 'Priya',
+      initials: 'P',
+      avatarUrl: '/avatars/priya.png',
+      role: 'Support engineer',
+    });
+    expect(participants.you.name).toBe('You');
+  });
+
+  it('should name both participants in every locale', () => {
+    Object.values(locales).forEach((locale) => {
+      (['you', 'support'] as const).forEach((sender) => {
+        expect(locale.chat.participants[sender].name.trim()).not.toBe('');
+        expect(locale.chat.participants[sender].initials.trim()).not.toBe('');
+      });
+    });
+  });
+});
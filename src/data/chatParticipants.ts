@@ -0,0 +1,43 @@
+import type { ChatParticipant, ChatParticipants, ChatSender } from '../types/chat';
+
+// Used when the locale data leaves a participant out
+export const DEFAULT_CHAT_PARTICIPANTS: ChatParticipants = {
+  you: { name: 'You', initials: 'Y', avatarColor: '#007A5A' },
+  support: { name: 'Them', initials: 'S', avatarColor: '#E01E5A' },
+};
+
+export type ChatParticipantOverrides = Partial<Record<ChatSender, Partial<ChatParticipant>>>;
+
+const PARTICIPANT_FIELDS: (keyof ChatParticipant)[] = ['name', 'initials', 'avatarColor', 'avatarUrl', 'role'];
+
+// Keeps only the non-empty string fields of a participant from the locale data
+function pickParticipantFields(value: unknown): Partial<ChatParticipant> {
+  if (typeof value !== 'object' || value === null) {
+    return {};
+  }
+  const record = value as Record<string, unknown>;
+  return Object.fromEntries(
+    PARTICIPANT_FIELDS
+      .filter((field) => typeof record[field] === 'string' && (record[field] as string).trim() !== '')
+      .map((field) => [field, record[field]])
+  );
+}
+
+/**
+ * Builds the participants of the chat examples from the locale data (`chat.participants`),
+ * so names and initials are translated. Deployments can swap in their own personas,
+ * either in their translation files or through overrides, which win over both.
+ */
+export function getChatParticipants(localeValue: unknown, overrides: ChatParticipantOverrides = {}): ChatParticipants {
+  const localeParticipants = typeof localeValue === 'object' && localeValue !== null
+    ? localeValue as Record<string, unknown>
+    : {};
+
+  const build = (sender: ChatSender): ChatParticipant => ({
+    ...DEFAULT_CHAT_PARTICIPANTS[sender],
+    ...pickParticipantFields(localeParticipants[sender]),
+    ...overrides[sender],
+  });
+
+  return { you: build('you'), support: build('support') };
+}
@@ -0,0 +1,224 @@
+import type { ChatPlatform, PlatformStyles } from '../types/chat';
+
+export const CHAT_PLATFORMS: ChatPlatform[] = ['slack', 'teams', 'discord', 'googleChat', 'whatsapp', 'imessage'];
+
+export const DEFAULT_CHAT_PLATFORM: ChatPlatform = 'slack';
+
+// localStorage key for the platform picked in the switcher
+export const CHAT_PLATFORM_STORAGE_KEY = 'chatPlatform';
+
+export function isChatPlatform(value: unknown): value is ChatPlatform {
+  return typeof value === 'string' && (CHAT_PLATFORMS as string[]).includes(value);
+}
+
+const flatMessage = {
+  background: 'transparent',
+  color: 'var(--color-text-primary)',
+  borderRadius: '0px',
+  marginStart: '0',
+  marginEnd: '0',
+  padding: '0px',
+};
+
+const timePassage = {
+  color: 'var(--color-text-tertiary)',
+  fontSize: '0.8125rem',
+};
+
+export const platformStyles: Record<ChatPlatform, PlatformStyles> = {
+  slack: {
+    name: 'Slack',
+    layout: 'flat',
+    avatarShape: 'rounded',
+    showOwnAvatar: true,
+    showOwnName: true,
+    timestampPlacement: 'header',
+    dateSeparator: {
+      style: 'line',
+      uppercase: false,
+      format: { weekday: 'long', month: 'long', day: 'numeric' },
+    },
+    container: {
+      background: 'var(--color-bg-secondary)',
+      borderRadius: '0px',
+      padding: '16px 20px',
+    },
+    userMessage: flatMessage,
+    otherMessage: flatMessage,
+    senderName: {
+      color: 'var(--color-text-primary)',
+      fontSize: '0.9375rem',
+    },
+    timePassage,
+  },
+  teams: {
+    name: 'Microsoft Teams',
+    layout: 'bubble',
+    avatarShape: 'circle',
+    showOwnAvatar: false,
+    showOwnName: false,
+    timestampPlacement: 'header',
+    dateSeparator: {
+      style: 'plain',
+      uppercase: false,
+      format: { weekday: 'long', month: 'long', day: 'numeric' },
+    },
+    container: {
+      background: 'var(--color-chat-teams-bg)',
+      borderRadius: '8px',
+      padding: '16px 20px',
+    },
+    userMessage: {
+      background: 'var(--color-chat-teams-own)',
+      color: 'var(--color-text-primary)',
+      borderRadius: '6px',
+      marginStart: '48px',
+      marginEnd: '0',
+      padding: '8px 12px',
+    },
+    otherMessage: {
+      background: 'var(--color-chat-teams-other)',
+      color: 'var(--color-text-primary)',
+      borderRadius: '6px',
+      marginStart: '0',
+      marginEnd: '48px',
+      padding: '8px 12px',
+      boxShadow: '0 1px 2px rgba(0, 0, 0, 0.1)',
+    },
+    senderName: {
+      color: 'var(--color-text-secondary)',
+      fontSize: '0.75rem',
+    },
+    timePassage,
+  },
+  discord: {
+    name: 'Discord',
+    layout: 'flat',
+    avatarShape: 'circle',
+    showOwnAvatar: true,
+    showOwnName: true,
+    timestampPlacement: 'header',
+    dateSeparator: {
+      style: 'line',
+      uppercase: false,
+      format: { year: 'numeric', month: 'long', day: 'numeric' },
+    },
+    container: {
+      background: 'var(--color-chat-discord-bg)',
+      borderRadius: '8px',
+      padding: '16px 16px',
+    },
+    userMessage: flatMessage,
+    otherMessage: flatMessage,
+    senderName: {
+      color: 'var(--color-chat-discord-name)',
+      fontSize: '1rem',
+    },
+    timePassage,
+  },
+  googleChat: {
+    name: 'Google Chat',
+    layout: 'flat',
+    avatarShape: 'circle',
+    showOwnAvatar: true,
+    showOwnName: true,
+    timestampPlacement: 'header',
+    dateSeparator: {
+      style: 'plain',
+      uppercase: false,
+      format: { weekday: 'short', month: 'short', day: 'numeric' },
+    },
+    container: {
+      background: 'var(--color-bg-secondary)',
+      borderRadius: '16px',
+      padding: '16px 20px',
+    },
+    userMessage: flatMessage,
+    otherMessage: flatMessage,
+    senderName: {
+      color: 'var(--color-text-primary)',
+      fontSize: '0.875rem',
+    },
+    timePassage,
+  },
+  whatsapp: {
+    name: 'WhatsApp',
+    layout: 'bubble',
+    avatarShape: 'none',
+    showOwnAvatar: false,
+    showOwnName: false,
+    timestampPlacement: 'inside',
+    dateSeparator: {
+      style: 'pill',
+      uppercase: true,
+      format: { day: 'numeric', month: 'long', year: 'numeric' },
+    },
+    container: {
+      background: 'var(--color-chat-whatsapp-bg)',
+      borderRadius: '12px',
+      padding: '12px 16px',
+    },
+    userMessage: {
+      background: 'var(--color-chat-whatsapp-own)',
+      color: 'var(--color-text-primary)',
+      borderRadius: '8px 0px 8px 8px',
+      marginStart: '48px',
+      marginEnd: '0',
+      padding: '6px 8px',
+      boxShadow: '0 1px 0.5px rgba(0, 0, 0, 0.13)',
+    },
+    otherMessage: {
+      background: 'var(--color-chat-whatsapp-other)',
+      color: 'var(--color-text-primary)',
+      borderRadius: '0px 8px 8px 8px',
+      marginStart: '0',
+      marginEnd: '48px',
+      padding: '6px 8px',
+      boxShadow: '0 1px 0.5px rgba(0, 0, 0, 0.13)',
+    },
+    senderName: {
+      color: 'var(--color-green)',
+      fontSize: '0.8125rem',
+    },
+    timePassage,
+  },
+  imessage: {
+    name: 'iMessage',
+    layout: 'bubble',
+    avatarShape: 'none',
+    showOwnAvatar: false,
+    showOwnName: false,
+    timestampPlacement: 'below',
+    dateSeparator: {
+      style: 'plain',
+      uppercase: false,
+      format: { weekday: 'short', month: 'short', day: 'numeric' },
+    },
+    container: {
+      background: 'var(--color-bg-secondary)',
+      borderRadius: '20px',
+      padding: '16px 16px',
+    },
+    userMessage: {
+      background: 'var(--color-chat-imessage-own)',
+      color: '#ffffff',
+      borderRadius: '18px',
+      marginStart: '48px',
+      marginEnd: '0',
+      padding: '8px 12px',
+    },
+    otherMessage: {
+      background: 'var(--color-chat-imessage-other)',
+      color: 'var(--color-text-primary)',
+      borderRadius: '18px',
+      marginStart: '0',
+      marginEnd: '48px',
+      padding: '8px 12px',
+    },
+    senderName: {
+      color: 'var(--color-text-tertiary)',
+      fontSize: '0.6875rem',
+    },
+    timePassage,
+  },
+};
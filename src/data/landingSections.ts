@@ -0,0 +1,8 @@
+import type { LandingSection } from '../types/quiz';
+
+// In page order
+export const LANDING_SECTIONS: LandingSection[] = ['problem', 'path', 'solution', 'examples', 'linter', 'merge'];
+
+export function isLandingSection(value: unknown): value is LandingSection {
+  return typeof value === 'string' && (LANDING_SECTIONS as string[]).includes(value);
+}
@@ -0,0 +1,12 @@
+import type { NotificationRules, NotificationSurface } from '../types/chat';
+
+export const NOTIFICATION_SURFACES: NotificationSurface[] = ['ios', 'android', 'macos', 'windows'];
+
+// Roughly what each system shows of a chat message before the "…"
+export const notificationRules: Record<NotificationSurface, NotificationRules> = {
+  ios: { name: 'iPhone', device: 'phone', maxLines: 4, charsPerLine: 38 },
+  // Collapsed notifications keep to a single line until they are expanded
+  android: { name: 'Android', device: 'phone', maxLines: 1, charsPerLine: 40 },
+  macos: { name: 'macOS', device: 'desktop', maxLines: 2, charsPerLine: 42 },
+  windows: { name: 'Windows', device: 'desktop', maxLines: 3, charsPerLine: 45 },
+};
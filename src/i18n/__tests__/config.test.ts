@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import i18n from '../config';
+import i18n, { applyDocumentDirection } from '../config';
 
 describe('i18n config', () => {
   beforeEach(() => {
@@ -61,6 +61,26 @@ describe('i18n config', () => {
     expect(typeof introEs).toBe('string');
   });
 
+  it('should set the page language and direction when the language changes', async () => {
+    await i18n.changeLanguage('ar');
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(document.documentElement.lang).toBe('ar');
+
+    await i18n.changeLanguage('en');
+    expect(document.documentElement.dir).toBe('ltr');
+    expect(document.documentElement.lang).toBe('en');
+  });
+
+  it('should apply the direction to a given element', () => {
+    const element = document.createElement('div');
+
+    applyDocumentDirection('he', element);
+    expect(element.dir).toBe('rtl');
+
+    applyDocumentDirection('de', element);
+    expect(element.dir).toBe('ltr');
+  });
+
   it('should return arrays for array translations', () => {
     const messages = i18n.t('rotatingMessages', { returnObjects: true });
     expect(Array.isArray(messages)).toBe(true);
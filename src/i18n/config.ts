@@ -56,5 +56,17 @@ if (useBackend) {
     });
 }
 
+/**
+ * Sets the page's language and text direction, so right-to-left languages
+ * such as Arabic and Hebrew mirror the whole layout
+ */
+export function applyDocumentDirection(lng: string, root: HTMLElement = document.documentElement) {
+  root.lang = lng;
+  root.dir = i18n.dir(lng);
+}
+
+applyDocumentDirection(i18n.language);
+i18n.on('languageChanged', (lng: string) => applyDocumentDirection(lng));
+
 export default i18n;
 
@@ -0,0 +1,134 @@
+export type ConversationType = 'bad' | 'good';
+export type ChatSender = 'you' | 'support';
+
+export type ChatPlatform = 'slack' | 'teams' | 'discord' | 'googleChat' | 'whatsapp' | 'imessage';
+
+// Flat layouts render every message left-aligned under a name header,
+// bubble layouts push your own messages to the opposite side
+export type ChatLayout = 'flat' | 'bubble';
+export type AvatarShape = 'circle' | 'rounded' | 'square' | 'none';
+export type TimestampPlacement = 'header' | 'inside' | 'below';
+export type DateSeparatorStyle = 'line' | 'pill' | 'plain';
+
+export interface MessageStyles {
+  background: string;
+  color: string;
+  borderRadius: string;
+  marginStart: string; // Logical margins, so bubbles flip in right-to-left layouts
+  marginEnd: string;
+  padding: string;
+  boxShadow?: string;
+}
+
+export interface PlatformStyles {
+  name: string;
+  layout: ChatLayout;
+  avatarShape: AvatarShape;
+  showOwnAvatar: boolean;
+  showOwnName: boolean;
+  timestampPlacement: TimestampPlacement;
+  dateSeparator: {
+    style: DateSeparatorStyle;
+    uppercase: boolean;
+    format: Intl.DateTimeFormatOptions;
+  };
+  container: {
+    background: string;
+    borderRadius: string;
+    padding: string;
+  };
+  userMessage: MessageStyles;
+  otherMessage: MessageStyles;
+  senderName: {
+    color: string;
+    fontSize: string;
+  };
+  timePassage: {
+    color: string;
+    fontSize: string;
+  };
+}
+
+export interface ConversationReaction {
+  emoji: string;
+  count: number;
+}
+
+// Someone taking part in a conversation, as shown next to their messages
+export interface ChatParticipant {
+  name: string; // Display name, e.g. "You"
+  initials: string; // Shown on the avatar when there is no image
+  avatarColor: string;
+  avatarUrl?: string; // Avatar image, shown instead of the initials
+  role?: string; // e.g. "Support engineer", offered as a tooltip on the name and avatar
+}
+
+export type ChatParticipants = Record<ChatSender, ChatParticipant>;
+
+// One message of a conversation as written in the locale files
+export interface ConversationMessage {
+  text: string;
+  sender: ChatSender;
+  delay?: string; // Wait since the previous message, e.g. "45m", "2h" or "1d 3h"
+  reactions?: ConversationReaction[];
+  edits?: string[]; // Earlier versions of the text, oldest first
+  thread?: ConversationMessage[]; // Replies in a thread under this message
+}
+
+// One message you can pick in the choose-your-own-path exercise, with the coworker's answer
+export interface ConversationPathOption {
+  text: string;
+  reply: string;
+  delay?: string; // How long the reply takes, e.g. "2h" - business hours still apply
+  next?: string; // Step that follows; the conversation ends without one
+}
+
+export interface ConversationPathStep {
+  prompt: string; // Sets the scene for the choice
+  options: ConversationPathOption[];
+}
+
+// The bad conversation as a branching exercise, from the locale files (`path.script`)
+export interface ConversationPath {
+  start: string;
+  steps: Record<string, ConversationPathStep>;
+}
+
+// One card of the anti-pattern gallery, from the locale files (`examples.gallery.cards`)
+export interface AntiPatternCard {
+  bad: number; // Index of the opener in `examples.bad`
+  good: number; // Index of the rewrite in `examples.good`
+  why: string; // Why the opener slows the conversation down
+  messages: ConversationMessage[]; // Starts with the opener itself
+}
+
+// Presence dot on the avatar: active during working hours, away outside them
+export type Presence = 'active' | 'away';
+
+export interface AssignedMessage {
+  text: string;
+  sender: ChatSender;
+  sentAt: Date; // Instant the message was sent, in the viewer's time zone
+  dateBreakIndex: number; // Index for date breaks
+  presence: Presence; // The sender's presence when the message was sent
+  reactions?: ConversationReaction[];
+  edited?: boolean; // Shows an "edited" marker
+  thread?: AssignedMessage[]; // Replies in a thread, each with its own send time
+}
+
+// A moment in the week the first message was sent, e.g. Friday at 4:55 PM
+export interface SendTime {
+  day: number; // Day of the week, numbered like Date#getDay (Sunday = 0)
+  minutes: number; // Minutes after midnight
+}
+
+export type NotificationSurface = 'ios' | 'android' | 'macos' | 'windows';
+export type NotificationDevice = 'phone' | 'desktop';
+
+// How much of a message a notification banner shows before cutting it off
+export interface NotificationRules {
+  name: string;
+  device: NotificationDevice;
+  maxLines: number;
+  charsPerLine: number; // Average for the banner's width and font
+}
@@ -1,12 +1,106 @@
-export interface QuizQuestion {
+export type QuizQuestionType = 'single' | 'multiple' | 'trueFalse' | 'ordering' | 'rewrite';
+
+// Landing page sections a question can link back to. Each is the section's id and its locale namespace.
+export type LandingSection = 'problem' | 'path' | 'solution' | 'examples' | 'linter' | 'merge';
+
+interface QuizQuestionBase {
   id: number;
   question: string;
+  learnMore?: LandingSection;
+}
+
+// Pick one option; questions without a `type` are single choice
+export interface SingleChoiceQuestion extends QuizQuestionBase {
+  type?: 'single';
   options: string[];
   correctAnswer: number; // Index of the correct answer
+  explanations?: string[]; // Why each option is right or wrong, in option order
+}
+
+// Pick every option that applies
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple';
+  options: string[];
+  correctAnswers: number[]; // Indexes of all the correct answers
+  explanations?: string[];
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'trueFalse';
+  correctAnswer: boolean;
+  explanation?: string; // Why the statement is true or false
+}
+
+// Put the messages in the order you'd send them
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  items: string[];
+  correctOrder: number[]; // Indexes into `items`, first to last
+  explanation?: string; // Why this order
+}
+
+// Pick the best rewrite of a chat
+export interface RewriteQuestion extends QuizQuestionBase {
+  type: 'rewrite';
+  chat: string[]; // The messages as they were sent
+  options: string[];
+  correctAnswer: number; // Index of the best rewrite
+  explanations?: string[];
 }
 
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion
+  | RewriteQuestion;
+
+// An option index, the indexes of every option picked, true or false, or the items' indexes in the order given
+export type QuizAnswer = number | number[] | boolean;
+
 export interface QuizData {
-  questions: QuizQuestion[];
+  questions: SingleChoiceQuestion[];
+}
+
+// How one question went, from its first submission to the right answer
+export interface QuizQuestionResult {
+  questionId: number;
+  firstAnswer: QuizAnswer; // What was submitted first, which a certificate is graded on
+  firstAttemptCorrect: boolean;
+  isCorrect: boolean; // Whether the latest submission was right
+  retries: number; // Wrong submissions, each of which sent the visitor to the blackjack table
+  blackjackRounds: number; // Hands dealt before the visitor won their way back
+  timeSpentMs: number; // Time on the question itself, without the blackjack table
+}
+
+export interface QuizSummary {
+  score: number; // Questions right on the first try
+  total: number;
+  accuracy: number; // Share of all submissions that were right, from 0 to 1
+  retries: number;
+  blackjackRounds: number;
+  timeSpentMs: number;
+}
+
+// A quiz session saved to localStorage, so it can be resumed after closing the quiz or reloading
+export interface QuizProgress {
+  version: number;
+  fingerprint: string; // The shape of the question pool the session was drawn from
+  seed: number;
+  currentQuestionIndex: number;
+  answers: [number, QuizAnswer][]; // By question id
+  answeredQuestionIds: number[];
+  results: QuizQuestionResult[];
+  pendingQuestionIndex: number | null; // A wrong answer still waiting for the blackjack table
+  currentQuestionTimeMs: number; // Time on the current question before it was saved
+}
+
+// What a completion certificate states, and what its verification code signs
+export interface QuizCertificate {
+  name: string;
+  score: number; // Questions right on the first try
+  total: number;
+  date: string; // Day it was issued, as YYYY-MM-DD in UTC
 }
 
 export type QuizState = 'not-started' | 'in-progress' | 'completed';
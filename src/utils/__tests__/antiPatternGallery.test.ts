@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseAntiPatternGallery } from '../antiPatternGallery';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+const bounds = { badCount: 3, goodCount: 2 };
+
+const validCard = {
+  bad: 0,
+  good: 1,
+  why: 'It says nothing.',
+  messages: ['Hi', { sender: 'support', text: "What's up?", delay: '2h' }],
+};
+
+describe('antiPatternGallery', () => {
+  describe('parseAntiPatternGallery', () => {
+    it('should accept valid cards', () => {
+      const { cards, errors } = parseAntiPatternGallery([validCard], bounds);
+
+      expect(errors).toEqual([]);
+      expect(cards).toEqual([
+        {
+          bad: 0,
+          good: 1,
+          why: 'It says nothing.',
+          messages: [
+            { sender: 'you', text: 'Hi' },
+            { sender: 'support', text: "What's up?", delay: '2h' },
+          ],
+        },
+      ]);
+    });
+
+    it('should reject a gallery that is not an array', () => {
+      expect(parseAntiPatternGallery({ cards: [] }, bounds)).toEqual({ cards: [], errors: ['cards: expected an array'] });
+      expect(parseAntiPatternGallery(undefined, bounds).cards).toEqual([]);
+    });
+
+    it('should leave out cards pointing past the examples', () => {
+      const { cards, errors } = parseAntiPatternGallery(
+        [validCard, { ...validCard, bad: 3 }, { ...validCard, good: -1 }, { ...validCard, bad: 1.5 }],
+        bounds
+      );
+
+      expect(cards).toHaveLength(1);
+      expect(errors).toEqual([
+        'cards[1].bad: expected an index into examples.bad',
+        'cards[2].good: expected an index into examples.good',
+        'cards[3].bad: expected an index into examples.bad',
+      ]);
+    });
+
+    it('should leave out cards without an explanation or a conversation', () => {
+      const { cards, errors } = parseAntiPatternGallery(
+        [{ ...validCard, why: ' ' }, { ...validCard, messages: [] }, { ...validCard, messages: 'Hi' }, 'Hi'],
+        bounds
+      );
+
+      expect(cards).toEqual([]);
+      expect(errors).toEqual([
+        'cards[0].why: expected a non-empty string',
+        'cards[1].messages: expected at least one message',
+        'cards[2].messages: expected an array',
+        'cards[3]: expected a card object',
+      ]);
+    });
+
+    it('should leave out a card with a broken message rather than show half of it', () => {
+      const { cards, errors } = parseAntiPatternGallery(
+        [{ ...validCard, messages: ['Hi', { sender: 'boss', text: 'Yes?' }] }],
+        bounds
+      );
+
+      expect(cards).toEqual([]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^cards\[0\]\.messages\[1\]\.sender/);
+    });
+  });
+
+  describe('locale files', () => {
+    Object.entries(locales).forEach(([language, locale]) => {
+      it(`should have a valid gallery in ${language}`, () => {
+        const { cards, errors } = parseAntiPatternGallery(locale.examples.gallery.cards, {
+          badCount: locale.examples.bad.length,
+          goodCount: locale.examples.good.length,
+        });
+
+        expect(errors).toEqual([]);
+        expect(cards.map((card) => card.bad)).toEqual(locale.examples.bad.map((_, index) => index));
+      });
+    });
+
+    it('should open every conversation with the opener it explains', () => {
+      Object.values(locales).forEach((locale) => {
+        locale.examples.gallery.cards.forEach((card) => {
+          expect(card.messages[0]).toEqual({ sender: 'you', text: locale.examples.bad[card.bad] });
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildVerifyUrl,
+  createCertificateCode,
+  formatCertificateCode,
+  getVerifyCode,
+  gradeCertificateRequest,
+  isCertificateCode,
+  normalizeCertificateCode,
+  parseCertificateClaims,
+  readVerifyClaims,
+  verifyCertificateCode,
+} from '../certificate';
+import { buildQuizSession, toQuizQuestions } from '../quizSession';
+import en from '../../i18n/locales/en.json';
+import type { QuizAnswer, QuizCertificate, QuizQuestion, SingleChoiceQuestion } from '../../types/quiz';
+
+const SECRET = 'test-secret';
+const certificate: QuizCertificate = { name: 'Ada Lovelace', score: 4, total: 5, date: '2026-10-18' };
+
+const pool = toQuizQuestions(en.quiz.questions);
+const SEED = 6;
+const session = buildQuizSession(pool, { seed: SEED });
+
+const correctAnswerOf = (question: QuizQuestion): QuizAnswer => {
+  switch (question.type) {
+    case 'multiple':
+      return question.correctAnswers;
+    case 'ordering':
+      return question.correctOrder;
+    default:
+      return question.correctAnswer;
+  }
+};
+
+const correctAnswers = (): [number, QuizAnswer][] => session.map((question) => [question.id, correctAnswerOf(question)]);
+
+describe('certificate', () => {
+  describe('parseCertificateClaims', () => {
+    it('should tidy the name', () => {
+      expect(parseCertificateClaims({ ...certificate, name: '  Ada   Lovelace ' })).toEqual(certificate);
+    });
+
+    it('should take the date it is issued on', () => {
+      expect(parseCertificateClaims({ name: 'Ada', score: 5, total: 5 }, '2026-01-02')).toEqual({
+        name: 'Ada',
+        score: 5,
+        total: 5,
+        date: '2026-01-02',
+      });
+    });
+
+    it('should reject details no certificate could have', () => {
+      expect(parseCertificateClaims({ ...certificate, name: '   ' })).toBeNull();
+      expect(parseCertificateClaims({ ...certificate, name: 'x'.repeat(81) })).toBeNull();
+      expect(parseCertificateClaims({ ...certificate, score: 6 })).toBeNull();
+      expect(parseCertificateClaims({ ...certificate, score: 1.5 })).toBeNull();
+      expect(parseCertificateClaims({ ...certificate, total: 0, score: 0 })).toBeNull();
+      expect(parseCertificateClaims({ ...certificate, date: '2026-02-30' })).toBeNull();
+      expect(parseCertificateClaims(null)).toBeNull();
+    });
+  });
+
+  describe('gradeCertificateRequest', () => {
+    it('should score the answers against the questions drawn from the seed', () => {
+      expect(gradeCertificateRequest({ name: 'Ada', seed: SEED, answers: correctAnswers() }, pool, '2026-10-18')).toEqual({
+        name: 'Ada',
+        score: session.length,
+        total: session.length,
+        date: '2026-10-18',
+      });
+    });
+
+    it('should not count a wrong answer, whatever score is sent', () => {
+      const answers = correctAnswers();
+      const question = session[0] as SingleChoiceQuestion;
+      answers[0] = [question.id, (question.correctAnswer + 1) % question.options.length];
+
+      expect(
+        gradeCertificateRequest({ name: 'Ada', seed: SEED, answers, score: session.length }, pool, '2026-10-18')
+      ).toMatchObject({ score: session.length - 1, total: session.length });
+    });
+
+    it('should reject answers that do not match the session', () => {
+      const answers = correctAnswers();
+      const otherQuestion = pool.find((question) => !session.some(({ id }) => id === question.id))!;
+      const grade = (value: unknown) => gradeCertificateRequest(value, pool, '2026-10-18');
+
+      expect(grade({ name: 'Ada', seed: SEED, answers: answers.slice(1) })).toBeNull();
+      expect(grade({ name: 'Ada', seed: SEED, answers: [...answers.slice(1), answers[1]] })).toBeNull();
+      expect(grade({ name: 'Ada', seed: SEED, answers: [...answers.slice(1), [otherQuestion.id, 0]] })).toBeNull();
+      expect(grade({ name: 'Ada', seed: SEED, answers: [[answers[0][0], 'yes'], ...answers.slice(1)] })).toBeNull();
+      expect(grade({ name: 'Ada', seed: -1, answers })).toBeNull();
+      expect(grade({ name: '  ', seed: SEED, answers })).toBeNull();
+      expect(grade(null)).toBeNull();
+    });
+  });
+
+  describe('codes', () => {
+    it('should sign a certificate with a short grouped code', async () => {
+      const code = await createCertificateCode(certificate, SECRET);
+
+      expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/);
+      expect(await createCertificateCode(certificate, SECRET)).toBe(code);
+      expect(isCertificateCode(code)).toBe(true);
+    });
+
+    it('should accept the code however it is typed', async () => {
+      const code = await createCertificateCode(certificate, SECRET);
+
+      expect(await verifyCertificateCode(certificate, code.toLowerCase().replace(/-/g, ' '), SECRET)).toBe(true);
+    });
+
+    it('should reject changed details, another secret and wrong codes', async () => {
+      const code = await createCertificateCode(certificate, SECRET);
+
+      expect(await verifyCertificateCode({ ...certificate, score: 5 }, code, SECRET)).toBe(false);
+      expect(await verifyCertificateCode({ ...certificate, date: '2026-10-17' }, code, SECRET)).toBe(false);
+      expect(await verifyCertificateCode(certificate, code, 'another-secret')).toBe(false);
+      expect(await verifyCertificateCode(certificate, 'AAAA-AAAA-AAAA', SECRET)).toBe(false);
+      expect(await verifyCertificateCode(certificate, code.slice(0, -1), SECRET)).toBe(false);
+    });
+
+    it('should read letters that look like digits as digits', () => {
+      expect(normalizeCertificateCode('o1il-2345')).toBe('01112345');
+      expect(formatCertificateCode('abcd1234wxyz')).toBe('ABCD-1234-WXYZ');
+      expect(isCertificateCode('ABCD-1234-WXY')).toBe(false);
+      expect(isCertificateCode('ABCD-1234-WXYU')).toBe(false);
+    });
+  });
+
+  describe('verification links', () => {
+    it('should read the code from a verify path', () => {
+      expect(getVerifyCode('/verify/ABCD-1234-WXYZ')).toBe('ABCD-1234-WXYZ');
+      expect(getVerifyCode('/verify/ABCD-1234-WXYZ/')).toBe('ABCD-1234-WXYZ');
+      expect(getVerifyCode('/verify')).toBeNull();
+      expect(getVerifyCode('/builder')).toBeNull();
+    });
+
+    it('should carry the details in the link', () => {
+      const url = buildVerifyUrl('https://nohello.boo', 'abcd1234wxyz', { ...certificate, name: 'Zoë & 지민' });
+
+      expect(url.startsWith('https://nohello.boo/verify/ABCD-1234-WXYZ?')).toBe(true);
+      expect(readVerifyClaims(new URL(url).search)).toEqual({ ...certificate, name: 'Zoë & 지민' });
+    });
+
+    it('should leave the details out of the printed link', () => {
+      expect(buildVerifyUrl('https://nohello.boo', 'ABCD1234WXYZ')).toBe('https://nohello.boo/verify/ABCD-1234-WXYZ');
+      expect(readVerifyClaims('')).toBeNull();
+      expect(readVerifyClaims('?name=Ada&score=4&total=five&date=2026-10-18')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { CERTIFICATE_WIDTH, buildCertificateSvg, jpegToPdf, type CertificateText } from '../certificateImage';
+import type { TextMeasurer } from '../chatImage';
+
+const measureText: TextMeasurer = (text, fontSize) => text.length * fontSize * 0.5;
+
+const text: CertificateText = {
+  site: 'nohello.boo',
+  heading: 'Certificate of Completion',
+  intro: 'This certifies that',
+  name: 'Ada <Lovelace>',
+  body: 'completed the No Hello quiz, answering 4 of 5 questions right on the first try.',
+  date: 'Issued on October 18, 2026',
+  code: 'Verification code: ABCD-1234-WXYZ',
+  verify: 'Check it at https://nohello.boo/verify/ABCD-1234-WXYZ',
+};
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+
+describe('certificateImage', () => {
+  describe('buildCertificateSvg', () => {
+    it('should draw every line of the certificate, escaped', () => {
+      const { svg, width } = buildCertificateSvg(text, measureText);
+
+      expect(width).toBe(CERTIFICATE_WIDTH);
+      expect(svg).toContain('Ada &lt;Lovelace&gt;');
+      expect(svg).toContain('Verification code: ABCD-1234-WXYZ');
+      expect(svg).toContain('https://nohello.boo/verify/ABCD-1234-WXYZ');
+    });
+
+    it('should shrink a long name to fit on one line', () => {
+      const { svg } = buildCertificateSvg({ ...text, name: 'N'.repeat(60) }, measureText);
+
+      const nameSize = Number(svg.match(/font-size="(\d+)"[^>]*>N{60}</)?.[1]);
+      expect(nameSize).toBeLessThan(48);
+      expect(measureText('N'.repeat(60), nameSize, 700)).toBeLessThanOrEqual(CERTIFICATE_WIDTH - 400);
+    });
+  });
+
+  describe('jpegToPdf', () => {
+    it('should wrap the image in a one-page PDF of the same size', () => {
+      const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+      const pdf = latin1(jpegToPdf(jpeg, { width: 1123, height: 794, pixelWidth: 2246, pixelHeight: 1588 }));
+
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain('/MediaBox [0 0 842 596]');
+      expect(pdf).toContain('/Width 2246 /Height 1588');
+      expect(pdf).toContain(`/Length 4 >>\nstream\n${latin1(jpeg)}\nendstream`);
+    });
+
+    it('should point the cross-reference table at every object', () => {
+      const pdf = latin1(jpegToPdf(new Uint8Array([1, 2, 3]), { width: 100, height: 100, pixelWidth: 200, pixelHeight: 200 }));
+
+      const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+      expect(offsets).toHaveLength(5);
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+      expect(pdf.slice(Number(pdf.match(/startxref\n(\d+)/)?.[1])).startsWith('xref')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { buildComparisonTimeline, findQuestionAndAnswer } from '../chatComparison';
+import { scheduleConversation } from '../chatTimeline';
+import type { AssignedMessage, ChatSender, ConversationMessage } from '../../types/chat';
+
+const message = (sender: ChatSender, sentAt: Date): AssignedMessage => ({
+  text: `${sender} at ${sentAt.toISOString()}`,
+  sender,
+  sentAt,
+  dateBreakIndex: 0,
+  presence: 'active',
+});
+
+// Friday, January 19, 2024 at 4:55 PM
+const fridayEvening = new Date(2024, 0, 19, 16, 55);
+
+const badConversation = [
+  message('you', fridayEvening),
+  message('support', new Date(2024, 0, 22, 9, 0)),
+  message('you', new Date(2024, 0, 22, 9, 4)),
+  message('support', new Date(2024, 0, 22, 11, 0)),
+];
+const goodConversation = [
+  message('you', fridayEvening),
+  message('support', new Date(2024, 0, 19, 17, 40)),
+];
+
+describe('chatComparison', () => {
+  describe('findQuestionAndAnswer', () => {
+    it('should find the last support message and your last message before it', () => {
+      expect(findQuestionAndAnswer(badConversation)).toEqual({ questionIndex: 2, answerIndex: 3 });
+      expect(findQuestionAndAnswer(goodConversation)).toEqual({ questionIndex: 0, answerIndex: 1 });
+    });
+
+    it('should ignore your messages sent after the answer', () => {
+      const conversation = [...goodConversation, message('you', new Date(2024, 0, 19, 17, 45))];
+
+      expect(findQuestionAndAnswer(conversation)).toEqual({ questionIndex: 0, answerIndex: 1 });
+    });
+
+    it('should use your last message when nobody has answered', () => {
+      expect(findQuestionAndAnswer([message('you', fridayEvening)])).toEqual({ questionIndex: 0, answerIndex: null });
+      expect(findQuestionAndAnswer([])).toEqual({ questionIndex: null, answerIndex: null });
+    });
+  });
+
+  describe('buildComparisonTimeline', () => {
+    it('should size the axis to the longest conversation in whole days', () => {
+      const { dayCount } = buildComparisonTimeline({ bad: badConversation, good: goodConversation });
+
+      // Friday to Monday
+      expect(dayCount).toBe(4);
+    });
+
+    it('should place messages by day and time of day', () => {
+      const { tracks } = buildComparisonTimeline({ bad: badConversation, good: goodConversation });
+      const [bad, good] = tracks;
+
+      expect(bad.type).toBe('bad');
+      expect(bad.points[0].position).toBeCloseTo((16 * 60 + 55) / (24 * 60) / 4);
+      expect(bad.points[1].position).toBeCloseTo((3 + 9 / 24) / 4);
+      expect(good.points[1].position).toBeLessThan(0.25);
+    });
+
+    it('should measure how long each answer took', () => {
+      const { tracks } = buildComparisonTimeline({ bad: badConversation, good: goodConversation });
+
+      expect(tracks[0].answerElapsedMs).toBe(badConversation[3].sentAt.getTime() - fridayEvening.getTime());
+      expect(tracks[1].answerElapsedMs).toBe(45 * 60 * 1000);
+    });
+
+    it('should share the first day only when both conversations start on it', () => {
+      expect(buildComparisonTimeline({ bad: badConversation, good: goodConversation }).sharedStart)
+        .toEqual(new Date(2024, 0, 19));
+
+      const laterGood = goodConversation.map((msg) => ({ ...msg, sentAt: new Date(msg.sentAt.getTime() + 3 * 24 * 60 * 60 * 1000) }));
+      expect(buildComparisonTimeline({ bad: badConversation, good: laterGood }).sharedStart).toBeNull();
+    });
+
+    it('should start each track at its earliest message', () => {
+      // The answer is dated before the message it answers
+      const outOfOrder = [
+        message('you', new Date(2024, 0, 21, 11, 19)),
+        message('support', new Date(2024, 0, 19, 9, 7)),
+      ];
+      const { tracks, dayCount, sharedStart } = buildComparisonTimeline({ good: outOfOrder });
+
+      expect(dayCount).toBe(3);
+      expect(sharedStart).toEqual(new Date(2024, 0, 19));
+      expect(tracks[0].points[1].position).toBeCloseTo((9 + 7 / 60) / 24 / 3);
+      expect(tracks[0].answerElapsedMs).toBe(0);
+    });
+
+    describe('on every day of the week', () => {
+      const toConversation = (texts: string[]): ConversationMessage[] =>
+        texts.map((text, index) => ({ text, sender: index % 2 === 0 ? 'you' : 'support' }));
+      const bad = toConversation(['Hello', 'Hi', 'You there?', 'Yes', 'Quick question', 'Sure', 'The question', 'The answer']);
+      const good = toConversation(['Hi - the question', 'The answer']);
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      // Monday, January 15, 2024 to Sunday, January 21, 2024
+      [15, 16, 17, 18, 19, 20, 21].forEach((day) => {
+        it(`should keep messages on the axis and answers after the question on January ${day}`, () => {
+          vi.useFakeTimers();
+          vi.setSystemTime(new Date(2024, 0, day, 12, 0));
+          const { tracks } = buildComparisonTimeline({
+            bad: scheduleConversation(bad, null),
+            good: scheduleConversation(good, null),
+          });
+
+          tracks.forEach((track) => {
+            track.points.forEach(({ position }) => {
+              expect(position).toBeGreaterThanOrEqual(0);
+              expect(position).toBeLessThanOrEqual(1);
+            });
+            expect(track.answerElapsedMs).toBeGreaterThanOrEqual(0);
+          });
+        });
+      });
+    });
+
+    it('should leave out empty conversations', () => {
+      const timeline = buildComparisonTimeline({ bad: [], good: goodConversation });
+
+      expect(timeline.tracks).toHaveLength(1);
+      expect(timeline.dayCount).toBe(1);
+    });
+  });
+});
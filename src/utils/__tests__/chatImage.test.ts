@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { buildChatSvg, parseCssLength, wrapText, type ChatImageMessage, type TextMeasurer } from '../chatImage';
+import { platformStyles } from '../../data/chatPlatforms';
+import type { ChatPlatform } from '../../types/chat';
+
+// Every character is 8px wide, so wrapping is predictable
+const measureText: TextMeasurer = (text) => Array.from(text).length * 8;
+const resolveColor = (value: string) => value.replace(/var\(--[\w-]+\)/g, '#123456');
+
+const messages: ChatImageMessage[] = [
+  {
+    sender: 'you',
+    senderName: 'You',
+    avatarInitial: 'Y',
+    avatarColor: '#007A5A',
+    timestamp: '9:07 AM',
+    text: 'Hi',
+    dateLabel: 'Monday, January 15',
+  },
+  {
+    sender: 'support',
+    senderName: 'Them',
+    avatarInitial: 'S',
+    avatarColor: '#E01E5A',
+    timestamp: '11:19 AM',
+    text: 'Yes, hi. What\'s up?',
+  },
+];
+
+const render = (platform: ChatPlatform, overrides: Partial<Parameters<typeof buildChatSvg>[0]> = {}) =>
+  buildChatSvg({
+    styles: platformStyles[platform],
+    title: 'Bad:',
+    titleColor: 'var(--color-chat-bad-text)',
+    messages,
+    transparent: false,
+    resolveColor,
+    measureText,
+    ...overrides,
+  });
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml');
+
+describe('chatImage', () => {
+  describe('parseCssLength', () => {
+    it('should convert rem and px to pixels', () => {
+      expect(parseCssLength('0.9375rem')).toBe(15);
+      expect(parseCssLength('16px')).toBe(16);
+      expect(parseCssLength('0')).toBe(0);
+    });
+  });
+
+  describe('wrapText', () => {
+    it('should wrap words that do not fit on the line', () => {
+      expect(wrapText('one two three', 80, 15, measureText)).toEqual(['one two', 'three']);
+    });
+
+    it('should break words longer than the line', () => {
+      expect(wrapText('abcdefghijkl', 40, 15, measureText)).toEqual(['abcde', 'fghij', 'kl']);
+    });
+
+    it('should keep explicit line breaks', () => {
+      expect(wrapText('one\ntwo', 200, 15, measureText)).toEqual(['one', 'two']);
+    });
+  });
+
+  describe('buildChatSvg', () => {
+    it('should draw the title, date, names, times and text', () => {
+      const { svg } = render('slack');
+      const texts = Array.from(parse(svg).querySelectorAll('text')).map((node) => node.textContent);
+
+      expect(texts).toEqual(expect.arrayContaining([
+        'Bad:',
+        'Monday, January 15',
+        'You',
+        '9:07 AM',
+        'Hi',
+        'Them',
+        '11:19 AM',
+        'Yes, hi. What\'s up?',
+      ]));
+    });
+
+    it('should escape message text', () => {
+      const { svg } = render('slack', {
+        messages: [{ ...messages[0], text: '<script>alert("hi")</script> & more' }],
+      });
+
+      expect(svg).not.toContain('<script>');
+      expect(parse(svg).querySelector('parsererror')).toBeNull();
+      expect(svg).toContain('&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt; &amp; more');
+    });
+
+    it('should resolve theme colors', () => {
+      const { svg } = render('slack');
+
+      expect(svg).not.toContain('var(');
+      expect(svg).toContain('#123456');
+    });
+
+    it('should draw the panel background unless it is transparent', () => {
+      const opaque = parse(render('slack').svg);
+      const transparent = parse(render('slack', { transparent: true }).svg);
+
+      expect(opaque.documentElement.firstElementChild?.getAttribute('width')).toBe(opaque.documentElement.getAttribute('width'));
+      expect(transparent.documentElement.firstElementChild?.getAttribute('width')).not.toBe(transparent.documentElement.getAttribute('width'));
+    });
+
+    it('should push your own bubbles to the right on bubble platforms', () => {
+      const { svg, width } = render('imessage', { messages: [{ ...messages[0], dateLabel: undefined }] });
+      const bubble = parse(svg).querySelectorAll('rect')[1];
+      const x = Number(bubble.getAttribute('x'));
+
+      expect(x).toBeGreaterThan(width / 2);
+    });
+
+    it('should mirror the layout for right-to-left languages', () => {
+      const single = { messages: [{ ...messages[1], dateLabel: undefined }] };
+      const ltr = parse(render('imessage', single).svg);
+      const { svg, width } = render('imessage', { ...single, direction: 'rtl' });
+      const rtl = parse(svg);
+      const rects = (document: Document) => Array.from(document.querySelectorAll('rect')).slice(1);
+      const title = (document: Document) => document.querySelector('text');
+
+      // Their bubble moves to the right, mirrored exactly
+      expect(rects(rtl)).toHaveLength(rects(ltr).length);
+      expect(rects(rtl).length).toBeGreaterThan(0);
+      rects(rtl).forEach((rect, index) => {
+        const mirrored = rects(ltr)[index];
+        expect(Number(rect.getAttribute('x'))).toBe(width - Number(mirrored.getAttribute('x')) - Number(mirrored.getAttribute('width')));
+      });
+      // The title hangs from the right edge
+      expect(title(ltr)?.getAttribute('text-anchor')).toBe('start');
+      expect(title(rtl)?.getAttribute('text-anchor')).toBe('end');
+      expect(Number(title(rtl)?.getAttribute('x'))).toBe(width - Number(title(ltr)?.getAttribute('x')));
+    });
+
+    it('should grow taller with longer conversations', () => {
+      const short = render('whatsapp');
+      const long = render('whatsapp', { messages: [...messages, ...messages, ...messages] });
+
+      expect(long.height).toBeGreaterThan(short.height);
+    });
+
+    it('should draw avatar images over the initials', () => {
+      const { svg } = render('slack', { messages: [{ ...messages[1], avatarUrl: '/avatars/priya.png?size=64&round=1' }] });
+      const document = parse(svg);
+      const image = document.querySelector('image');
+
+      expect(document.querySelector('parsererror')).toBeNull();
+      expect(image?.getAttribute('href')).toBe('/avatars/priya.png?size=64&round=1');
+      expect(image?.getAttribute('clip-path')).toBe('url(#avatar-0)');
+      expect(svg).toContain('>S</text>');
+    });
+
+    it('should draw details such as reactions under the message', () => {
+      const plain = render('slack');
+      const detailed = render('slack', {
+        messages: [{ ...messages[0], details: ['👀 1', '2 replies · Last reply 9:30 AM'] }, messages[1]],
+      });
+      const texts = Array.from(parse(detailed.svg).querySelectorAll('text')).map((node) => node.textContent);
+
+      expect(texts).toContain('👀 1');
+      expect(texts).toContain('2 replies · Last reply 9:30 AM');
+      expect(detailed.height).toBeGreaterThan(plain.height);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { chatMarkupToPlainText, parseChatMarkup, toSafeHref } from '../chatMarkup';
+
+describe('chatMarkup', () => {
+  describe('parseChatMarkup', () => {
+    it('should leave plain text as a single text node', () => {
+      expect(parseChatMarkup('Hi - can you help?')).toEqual([{ type: 'text', text: 'Hi - can you help?' }]);
+    });
+
+    it('should parse bold, italics and inline code', () => {
+      expect(parseChatMarkup('It fails on *step 3* with _no_ output from `deploy.sh`')).toEqual([
+        { type: 'text', text: 'It fails on ' },
+        { type: 'bold', children: [{ type: 'text', text: 'step 3' }] },
+        { type: 'text', text: ' with ' },
+        { type: 'italic', children: [{ type: 'text', text: 'no' }] },
+        { type: 'text', text: ' output from ' },
+        { type: 'code', text: 'deploy.sh' },
+      ]);
+    });
+
+    it('should nest emphasis', () => {
+      expect(parseChatMarkup('*really _very_ urgent*')).toEqual([
+        {
+          type: 'bold',
+          children: [
+            { type: 'text', text: 'really ' },
+            { type: 'italic', children: [{ type: 'text', text: 'very' }] },
+            { type: 'text', text: ' urgent' },
+          ],
+        },
+      ]);
+    });
+
+    it('should not format markers inside words', () => {
+      expect(parseChatMarkup('user_profile_id and 2*3*4')).toEqual([{ type: 'text', text: 'user_profile_id and 2*3*4' }]);
+      expect(parseChatMarkup('* not bold *')).toEqual([{ type: 'text', text: '* not bold *' }]);
+    });
+
+    it('should allow Korean particles straight after emphasis', () => {
+      expect(parseChatMarkup('*3단계*에서')).toEqual([
+        { type: 'bold', children: [{ type: 'text', text: '3단계' }] },
+        { type: 'text', text: '에서' },
+      ]);
+    });
+
+    it('should keep code blocks verbatim', () => {
+      expect(parseChatMarkup("Here it is:\n```TypeError: *not* bold\n  at submit (form.js:12)```")).toEqual([
+        { type: 'text', text: 'Here it is:\n' },
+        { type: 'codeBlock', text: 'TypeError: *not* bold\n  at submit (form.js:12)' },
+      ]);
+    });
+
+    it('should not format inside inline code', () => {
+      expect(parseChatMarkup('run `npm run *build*`')).toEqual([
+        { type: 'text', text: 'run ' },
+        { type: 'code', text: 'npm run *build*' },
+      ]);
+    });
+
+    it('should parse mentions but not email addresses', () => {
+      expect(parseChatMarkup('@maria.g can you ask help@example.com?')).toEqual([
+        { type: 'mention', name: 'maria.g' },
+        { type: 'text', text: ' can you ask help@example.com?' },
+      ]);
+    });
+
+    it('should parse labelled and bare links', () => {
+      expect(parseChatMarkup('See <https://nohello.net|this page> or https://example.com/docs.')).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'link', href: 'https://nohello.net/', text: 'this page' },
+        { type: 'text', text: ' or ' },
+        { type: 'link', href: 'https://example.com/docs', text: 'https://example.com/docs' },
+        { type: 'text', text: '.' },
+      ]);
+    });
+
+    it('should leave links with unsafe schemes as text', () => {
+      expect(parseChatMarkup('<javascript:alert(1)|click me>')).toEqual([
+        { type: 'text', text: '<javascript:alert(1)|click me>' },
+      ]);
+    });
+  });
+
+  describe('toSafeHref', () => {
+    it('should accept http, https and mailto links', () => {
+      expect(toSafeHref('https://example.com')).toBe('https://example.com/');
+      expect(toSafeHref('http://example.com/a?b=1')).toBe('http://example.com/a?b=1');
+      expect(toSafeHref('mailto:help@example.com')).toBe('mailto:help@example.com');
+    });
+
+    it('should reject other schemes and relative URLs', () => {
+      expect(toSafeHref('javascript:alert(1)')).toBeNull();
+      expect(toSafeHref('JaVaScRiPt:alert(1)')).toBeNull();
+      expect(toSafeHref('data:text/html,<script>alert(1)</script>')).toBeNull();
+      expect(toSafeHref('/relative')).toBeNull();
+    });
+  });
+
+  describe('chatMarkupToPlainText', () => {
+    it('should drop the markers', () => {
+      expect(chatMarkupToPlainText('*step 3* of `deploy.sh`, see <https://example.com|the docs>')).toBe(
+        'step 3 of deploy.sh, see the docs'
+      );
+    });
+
+    it('should put code blocks on their own lines', () => {
+      expect(chatMarkupToPlainText('Here it is:```TypeError```Thanks')).toBe('Here it is:\nTypeError\nThanks');
+      expect(chatMarkupToPlainText('Here it is:\n```\nTypeError\n```\nThanks')).toBe('Here it is:\nTypeError\nThanks');
+    });
+  });
+});
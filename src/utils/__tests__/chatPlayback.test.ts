@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPlaybackTimeline,
+  getPlaybackFrame,
+  formatElapsed,
+  MIN_STEP_MS,
+  MS_PER_SIMULATED_HOUR,
+  TYPING_MS,
+} from '../chatPlayback';
+
+const HOUR = 60 * 60 * 1000;
+const start = new Date(2024, 0, 15, 9, 0);
+const at = (hoursLater: number) => new Date(start.getTime() + hoursLater * HOUR);
+
+describe('chatPlayback', () => {
+  describe('buildPlaybackTimeline', () => {
+    it('should return an empty timeline for no messages', () => {
+      expect(buildPlaybackTimeline([])).toEqual({ steps: [], totalMs: 0 });
+    });
+
+    it('should scale each step with the simulated gap', () => {
+      const timeline = buildPlaybackTimeline([at(0), at(2), at(26)]);
+
+      expect(timeline.steps).toHaveLength(3);
+      expect(timeline.steps[0].endMs).toBe(MIN_STEP_MS);
+      expect(timeline.steps[1].endMs - timeline.steps[1].startMs).toBe(MIN_STEP_MS + 2 * MS_PER_SIMULATED_HOUR);
+      expect(timeline.steps[2].endMs - timeline.steps[2].startMs).toBe(MIN_STEP_MS + 24 * MS_PER_SIMULATED_HOUR);
+      expect(timeline.totalMs).toBe(timeline.steps[2].endMs);
+    });
+
+    it('should never run the clock backwards', () => {
+      const timeline = buildPlaybackTimeline([at(5), at(1)]);
+
+      expect(timeline.steps[1].instant).toBe(timeline.steps[0].instant);
+      expect(timeline.steps[1].endMs - timeline.steps[1].startMs).toBe(MIN_STEP_MS);
+    });
+
+    it('should start typing shortly before each message appears', () => {
+      const timeline = buildPlaybackTimeline([at(0), at(10)]);
+      const step = timeline.steps[1];
+
+      expect(step.endMs - step.typingStartMs).toBe(TYPING_MS);
+    });
+  });
+
+  describe('getPlaybackFrame', () => {
+    const timeline = buildPlaybackTimeline([at(0), at(4), at(8)]);
+
+    it('should show nothing at the start', () => {
+      const frame = getPlaybackFrame(timeline, 0);
+
+      expect(frame.visibleCount).toBe(0);
+      expect(frame.typingIndex).toBeNull();
+      expect(frame.elapsedMs).toBe(0);
+      expect(frame.currentInstant).toBeNull();
+    });
+
+    it('should show the typing indicator before the first message', () => {
+      const frame = getPlaybackFrame(timeline, timeline.steps[0].typingStartMs);
+
+      expect(frame.typingIndex).toBe(0);
+    });
+
+    it('should interpolate the simulated clock between messages', () => {
+      const step = timeline.steps[1];
+      const frame = getPlaybackFrame(timeline, (step.startMs + step.endMs) / 2);
+
+      expect(frame.visibleCount).toBe(1);
+      expect(frame.elapsedMs).toBe(2 * HOUR);
+      expect(frame.currentInstant?.getTime()).toBe(at(2).getTime());
+    });
+
+    it('should show every message at the end', () => {
+      const frame = getPlaybackFrame(timeline, timeline.totalMs);
+
+      expect(frame.visibleCount).toBe(3);
+      expect(frame.typingIndex).toBeNull();
+      expect(frame.elapsedMs).toBe(8 * HOUR);
+    });
+  });
+
+  describe('formatElapsed', () => {
+    it('should format minutes only for short durations', () => {
+      expect(formatElapsed(5 * 60000, 'en')).toBe('5m');
+    });
+
+    it('should include days and hours for long durations', () => {
+      expect(formatElapsed(2 * 24 * HOUR + 3 * HOUR + 15 * 60000, 'en')).toBe('2d 3h 15m');
+    });
+
+    it('should use localized unit names', () => {
+      expect(formatElapsed(3 * HOUR, 'de')).not.toBe(formatElapsed(3 * HOUR, 'en'));
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  adjustToBusinessHours,
+  assignMessagesToUsers,
+  formatMessageTime,
+  formatTimeZoneName,
+  generateDates,
+  getNextBusinessDay,
+  getPresence,
+  getSendTimeAnchor,
+  isWeekend,
+  isWithinBusinessHours,
+  scheduleConversation,
+  simulateConversation,
+  SUPPORT_REPLY_DELAY_MINUTES,
+  YOUR_REPLY_DELAY_MINUTES,
+} from '../chatTimeline';
+import { DEFAULT_WORKING_CALENDAR, isWorkingDay, type WorkingCalendar } from '../workingCalendar';
+import type { ConversationMessage } from '../../types/chat';
+
+// Alternates senders starting with "you", like the bad example
+const toConversation = (texts: string[]): ConversationMessage[] =>
+  texts.map((text, index) => ({ text, sender: index % 2 === 0 ? 'you' : 'support' }));
+
+const BUSINESS_HOUR_START = DEFAULT_WORKING_CALENDAR.startHour;
+
+// Monday, January 15, 2024 at 9:07 UTC
+const mondayMorning = new Date(Date.UTC(2024, 0, 15, 9, 7));
+
+describe('chatTimeline', () => {
+  describe('formatMessageTime', () => {
+    it('should use a 12-hour clock in English', () => {
+      expect(formatMessageTime(mondayMorning, 'en', 'UTC')).toMatch(/^9:07\sAM$/);
+    });
+
+    it('should use a 24-hour clock in German and French', () => {
+      expect(formatMessageTime(mondayMorning, 'de', 'UTC')).toBe('09:07');
+      expect(formatMessageTime(mondayMorning, 'fr', 'UTC')).toBe('09:07');
+    });
+
+    it('should show the same instant in another time zone', () => {
+      expect(formatMessageTime(mondayMorning, 'en', 'Asia/Kolkata')).toMatch(/^2:37\sPM$/);
+      expect(formatMessageTime(mondayMorning, 'de', 'America/New_York')).toBe('04:07');
+    });
+  });
+
+  describe('formatTimeZoneName', () => {
+    it('should return a localized name for the time zone', () => {
+      expect(formatTimeZoneName('America/New_York', 'en', mondayMorning)).toBe('Eastern Time');
+    });
+  });
+
+  describe('business hours', () => {
+    it('should treat 9 AM to the end of the 5 PM hour as business hours', () => {
+      expect(isWithinBusinessHours(new Date(2024, 0, 15, 9, 0))).toBe(true);
+      expect(isWithinBusinessHours(new Date(2024, 0, 15, 17, 59))).toBe(true);
+      expect(isWithinBusinessHours(new Date(2024, 0, 15, 18, 0))).toBe(false);
+      expect(isWithinBusinessHours(new Date(2024, 0, 15, 8, 59))).toBe(false);
+    });
+
+    it('should move Friday evening to Monday morning', () => {
+      const nextDay = getNextBusinessDay(new Date(2024, 0, 19, 19, 15));
+
+      expect(nextDay).toEqual(new Date(2024, 0, 22, BUSINESS_HOUR_START, 0));
+    });
+
+    it('should leave instants within business hours untouched', () => {
+      const instant = new Date(2024, 0, 16, 11, 19);
+
+      expect(adjustToBusinessHours(instant)).toBe(instant);
+    });
+
+    it('should wait until business hours start on a working day', () => {
+      const adjusted = adjustToBusinessHours(new Date(2024, 0, 16, 7, 30));
+
+      expect(adjusted).toEqual(new Date(2024, 0, 16, BUSINESS_HOUR_START, 0));
+    });
+
+    it('should move weekend instants to the next weekday', () => {
+      const adjusted = adjustToBusinessHours(new Date(2024, 0, 20, 11, 19));
+
+      expect(adjusted).toEqual(new Date(2024, 0, 22, BUSINESS_HOUR_START, 0));
+    });
+  });
+
+  describe('working calendars', () => {
+    const fridaySaturdayWeekend: WorkingCalendar = {
+      weekendDays: [5, 6],
+      startHour: 8,
+      endHour: 15,
+      holidays: ['2024-01-21'],
+    };
+
+    it('should use the calendar\'s weekend days', () => {
+      expect(isWeekend(new Date(2024, 0, 19), fridaySaturdayWeekend)).toBe(true);
+      expect(isWeekend(new Date(2024, 0, 21), fridaySaturdayWeekend)).toBe(false);
+    });
+
+    it('should use the calendar\'s working hours', () => {
+      expect(isWithinBusinessHours(new Date(2024, 0, 15, 8, 30), fridaySaturdayWeekend)).toBe(true);
+      expect(isWithinBusinessHours(new Date(2024, 0, 15, 16, 0), fridaySaturdayWeekend)).toBe(false);
+    });
+
+    it('should skip weekends and holidays when moving to the next business day', () => {
+      // Thursday evening -> Friday and Saturday off, Sunday is a holiday -> Monday
+      const nextDay = getNextBusinessDay(new Date(2024, 0, 18, 19, 15), fridaySaturdayWeekend);
+
+      expect(nextDay).toEqual(new Date(2024, 0, 22, 8, 0));
+    });
+
+    it('should send support replies on working days within the calendar\'s hours', () => {
+      const messages = toConversation(['hi', 'hello?', 'you there?', 'yes', 'so...', 'what?', 'question', 'answer']);
+      const assigned = assignMessagesToUsers(messages, generateDates(fridaySaturdayWeekend), fridaySaturdayWeekend);
+
+      assigned
+        .filter((message) => message.sender === 'support')
+        .forEach((message) => {
+          expect(isWorkingDay(message.sentAt, fridaySaturdayWeekend)).toBe(true);
+          expect(isWithinBusinessHours(message.sentAt, fridaySaturdayWeekend)).toBe(true);
+        });
+    });
+  });
+
+  describe('assignMessagesToUsers', () => {
+    const messages = toConversation(['hi', 'hello?', 'you there?', 'yes', 'so...', 'what?', 'question', 'answer']);
+
+    it('should send support replies on weekdays within business hours', () => {
+      const assigned = assignMessagesToUsers(messages, generateDates());
+
+      assigned
+        .filter((message) => message.sender === 'support')
+        .forEach((message) => {
+          expect(isWeekend(message.sentAt)).toBe(false);
+          expect(isWithinBusinessHours(message.sentAt)).toBe(true);
+        });
+    });
+
+    it('should send messages with their own delay that long after the previous one', () => {
+      // Monday, January 15 to Wednesday, January 17, 2024
+      const dates = [15, 16, 17].map((day) => new Date(2024, 0, day));
+      const conversation: ConversationMessage[] = [
+        { text: 'Hi - the build is red', sender: 'you' },
+        { text: 'Looking', sender: 'support', delay: '45m' },
+        { text: 'Thanks!', sender: 'you', delay: '3m' },
+        { text: 'Fixed', sender: 'support' },
+      ];
+      const assigned = assignMessagesToUsers(conversation, dates);
+      const MINUTE = 60 * 1000;
+
+      expect(assigned[1].sentAt.getTime()).toBe(assigned[0].sentAt.getTime() + 45 * MINUTE);
+      expect(assigned[2].sentAt.getTime()).toBe(assigned[1].sentAt.getTime() + 3 * MINUTE);
+      expect(assigned[3].sentAt.getTime()).toBeGreaterThan(assigned[2].sentAt.getTime());
+      expect(assigned[1].dateBreakIndex).toBe(assigned[0].dateBreakIndex);
+    });
+
+    it('should wait for business hours when support\'s delay runs past them', () => {
+      const dates = [15, 16, 17].map((day) => new Date(2024, 0, day));
+      const conversation: ConversationMessage[] = [
+        { text: 'Hi - the build is red', sender: 'you' },
+        { text: 'Looking', sender: 'support', delay: '1d 12h' },
+      ];
+      const assigned = assignMessagesToUsers(conversation, dates);
+
+      expect(isWithinBusinessHours(assigned[1].sentAt)).toBe(true);
+      expect(assigned[1].sentAt.getTime()).toBeGreaterThan(assigned[0].sentAt.getTime() + 36 * 60 * 60 * 1000);
+      expect(assigned[1].dateBreakIndex).toBe(assigned[0].dateBreakIndex + 1);
+    });
+
+    describe('on every day of the week', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      // Monday, January 15, 2024 to Sunday, January 21, 2024
+      [15, 16, 17, 18, 19, 20, 21].forEach((day) => {
+        it(`should never send a message before the previous one on January ${day}`, () => {
+          vi.useFakeTimers();
+          vi.setSystemTime(new Date(2024, 0, day, 12, 0));
+          const assigned = assignMessagesToUsers(messages, generateDates());
+
+          assigned.slice(1).forEach((message, index) => {
+            expect(message.sentAt.getTime()).toBeGreaterThanOrEqual(assigned[index].sentAt.getTime());
+          });
+          assigned
+            .filter((message) => message.sender === 'support')
+            .forEach((message) => {
+              expect(isWorkingDay(message.sentAt, DEFAULT_WORKING_CALENDAR)).toBe(true);
+              expect(isWithinBusinessHours(message.sentAt)).toBe(true);
+            });
+        });
+      });
+    });
+  });
+
+  describe('send time simulation', () => {
+    const MINUTE = 60 * 1000;
+    // Friday, January 19, 2024 at 4:55 PM
+    const fridayEvening = new Date(2024, 0, 19, 16, 55);
+    const badMessages = toConversation(['Hello', 'Hi', 'You there?', 'Yes', 'Quick question', 'Sure', 'The question', 'The answer']);
+
+    it('should anchor on the most recent matching day of the week', () => {
+      // Wednesday, January 24, 2024
+      const now = new Date(2024, 0, 24, 12, 0);
+
+      expect(getSendTimeAnchor({ day: 5, minutes: 16 * 60 + 55 }, now)).toEqual(fridayEvening);
+      expect(getSendTimeAnchor({ day: 3, minutes: 9 * 60 }, now)).toEqual(new Date(2024, 0, 24, 9, 0));
+    });
+
+    it('should go back a week when the send time is later today', () => {
+      // Wednesday, January 24, 2024 at noon
+      const now = new Date(2024, 0, 24, 12, 0);
+
+      expect(getSendTimeAnchor({ day: 3, minutes: 16 * 60 + 55 }, now)).toEqual(new Date(2024, 0, 17, 16, 55));
+      expect(getSendTimeAnchor({ day: 3, minutes: 12 * 60 }, now)).toEqual(now);
+    });
+
+    it('should lose the weekend when "Hello" goes out on Friday evening', () => {
+      const messages = simulateConversation(badMessages, fridayEvening);
+
+      expect(messages[0].sentAt).toEqual(fridayEvening);
+      // The first reply waits until Monday morning
+      expect(messages[1].sentAt).toEqual(new Date(2024, 0, 22, BUSINESS_HOUR_START, 0));
+      expect(messages[2].sentAt.getTime()).toBe(messages[1].sentAt.getTime() + YOUR_REPLY_DELAY_MINUTES * MINUTE);
+      expect(messages[3].sentAt.getTime()).toBe(messages[2].sentAt.getTime() + SUPPORT_REPLY_DELAY_MINUTES * MINUTE);
+      expect(messages[1].dateBreakIndex).toBe(1);
+      expect(messages[7].dateBreakIndex).toBe(1);
+    });
+
+    it('should use a message\'s own delay when it has one', () => {
+      const conversation: ConversationMessage[] = [
+        { text: 'Hi - the question', sender: 'you' },
+        { text: 'The answer', sender: 'support', delay: '1d 3h' },
+      ];
+      const messages = simulateConversation(conversation, new Date(2024, 0, 15, 9, 0));
+
+      expect(messages[1].sentAt).toEqual(new Date(2024, 0, 16, 12, 0));
+    });
+
+    it('should get the answer sooner when the question is asked straight away', () => {
+      const bad = simulateConversation(badMessages, fridayEvening);
+      const good = simulateConversation(toConversation(['Hi - the question', 'The answer']), fridayEvening);
+
+      expect(good[1].sentAt).toEqual(new Date(2024, 0, 22, BUSINESS_HOUR_START, 0));
+      expect(good[1].sentAt.getTime()).toBeLessThan(bad[7].sentAt.getTime());
+    });
+
+    it('should simulate from the send time when there is one', () => {
+      const conversation = toConversation(['Hi', 'Hello']);
+      const scheduled = scheduleConversation(conversation, { day: 5, minutes: 16 * 60 + 55 });
+
+      expect(scheduled[0].sentAt.getDay()).toBe(5);
+      expect(scheduled[0].sentAt.getHours()).toBe(16);
+      expect(scheduled[0].sentAt.getMinutes()).toBe(55);
+    });
+
+    it('should spread the conversation up to today without a send time', () => {
+      const conversation = toConversation(['Hi', 'Hello']);
+
+      expect(scheduleConversation(conversation, null)).toEqual(assignMessagesToUsers(conversation, generateDates()));
+    });
+
+    it('should keep support replies within the calendar', () => {
+      const calendar: WorkingCalendar = { weekendDays: [5, 6], startHour: 8, endHour: 15, holidays: [] };
+      const messages = simulateConversation(badMessages, new Date(2024, 0, 18, 15, 30), calendar);
+
+      messages
+        .filter((message) => message.sender === 'support')
+        .forEach((message) => {
+          expect(isWorkingDay(message.sentAt, calendar)).toBe(true);
+          expect(isWithinBusinessHours(message.sentAt, calendar)).toBe(true);
+        });
+    });
+  });
+
+  describe('message details', () => {
+    const MINUTE = 60 * 1000;
+
+    it('should be active during working hours and away otherwise', () => {
+      expect(getPresence(new Date(2024, 0, 15, 10, 0))).toBe('active');
+      expect(getPresence(new Date(2024, 0, 15, 20, 0))).toBe('away');
+      expect(getPresence(new Date(2024, 0, 20, 10, 0))).toBe('away');
+    });
+
+    it('should carry reactions and edits over to the messages', () => {
+      const conversation: ConversationMessage[] = [
+        { text: 'Hi', sender: 'you', reactions: [{ emoji: '👀', count: 1 }], edits: ['Hii'] },
+        { text: 'Hello', sender: 'support' },
+      ];
+      const messages = simulateConversation(conversation, new Date(2024, 0, 15, 10, 0));
+
+      expect(messages[0].reactions).toEqual([{ emoji: '👀', count: 1 }]);
+      expect(messages[0].edited).toBe(true);
+      expect(messages[1].reactions).toBeUndefined();
+      expect(messages[1].edited).toBeUndefined();
+    });
+
+    it('should time thread replies one after another after their parent', () => {
+      const conversation: ConversationMessage[] = [
+        {
+          text: 'Question',
+          sender: 'you',
+          thread: [
+            { text: 'Details', sender: 'you', delay: '3m' },
+            { text: 'Answer', sender: 'support', delay: '20m' },
+          ],
+        },
+      ];
+      const sentAt = new Date(2024, 0, 15, 10, 0);
+      const [message] = simulateConversation(conversation, sentAt);
+
+      expect(message.thread).toHaveLength(2);
+      expect(message.thread?.[0].sentAt.getTime()).toBe(sentAt.getTime() + 3 * MINUTE);
+      expect(message.thread?.[1].sentAt.getTime()).toBe(sentAt.getTime() + 23 * MINUTE);
+      expect(message.thread?.[1].presence).toBe('active');
+    });
+
+    it('should keep support thread replies within working hours', () => {
+      const conversation: ConversationMessage[] = [
+        { text: 'Question', sender: 'you', thread: [{ text: 'Answer', sender: 'support', delay: '20m' }] },
+      ];
+      const [message] = simulateConversation(conversation, new Date(2024, 0, 19, 17, 55));
+
+      expect(message.presence).toBe('active');
+      expect(message.thread?.[0].sentAt).toEqual(new Date(2024, 0, 22, BUSINESS_HOUR_START, 0));
+    });
+
+    it('should add thread replies when assigning timestamps', () => {
+      const conversation: ConversationMessage[] = [
+        { text: 'Question', sender: 'you', thread: [{ text: 'Answer', sender: 'support' }] },
+        { text: 'Reply', sender: 'support' },
+      ];
+      const messages = assignMessagesToUsers(conversation, generateDates());
+
+      expect(messages[0].thread).toHaveLength(1);
+      expect(messages[0].thread?.[0].sentAt.getTime()).toBeGreaterThan(messages[0].sentAt.getTime());
+      messages.forEach((message) => expect(['active', 'away']).toContain(message.presence));
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findFastestConversationPath,
+  listConversationPaths,
+  parseConversationPath,
+  summarizeConversationPath,
+  walkConversationPath,
+} from '../conversationPath';
+import { simulateConversation } from '../chatTimeline';
+import type { ConversationPath } from '../../types/chat';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+
+const MINUTE = 60 * 1000;
+const mondayMorning = new Date(2024, 0, 15, 10, 0);
+
+const script: ConversationPath = {
+  start: 'opening',
+  steps: {
+    opening: {
+      prompt: 'What do you send?',
+      options: [
+        { text: 'Hi', reply: 'Hi?', delay: '2h', next: 'details' },
+        { text: 'Hi - the login form is broken', reply: 'Looking', delay: '30m' },
+      ],
+    },
+    details: {
+      prompt: 'They are waiting',
+      options: [{ text: 'The login form is broken', reply: 'Looking', delay: '30m' }],
+    },
+  },
+};
+
+describe('conversationPath', () => {
+  describe('parseConversationPath', () => {
+    it('should accept a valid script', () => {
+      expect(parseConversationPath(script)).toEqual({ path: script, errors: [] });
+    });
+
+    it('should reject anything without steps', () => {
+      expect(parseConversationPath('nope').path).toBeNull();
+      expect(parseConversationPath({ start: 'opening' }).path).toBeNull();
+    });
+
+    it('should leave out invalid options and report them', () => {
+      const { path, errors } = parseConversationPath({
+        start: 'opening',
+        steps: {
+          opening: {
+            prompt: 'What do you send?',
+            options: [
+              { text: 'Hi', reply: 'Hi?', delay: 'soon' },
+              { text: '', reply: 'Hi?' },
+              { text: 'Hi - the login form is broken', reply: 'Looking' },
+            ],
+          },
+        },
+      });
+
+      expect(path?.steps.opening.options).toEqual([{ text: 'Hi - the login form is broken', reply: 'Looking' }]);
+      expect(errors).toEqual([
+        'script.steps.opening.options[0].delay: expected a delay such as "45m", "2h" or "1d 3h"',
+        'script.steps.opening.options[1].text: expected a non-empty string',
+      ]);
+    });
+
+    it('should drop options leading to missing steps, and steps left without options', () => {
+      const { path, errors } = parseConversationPath({
+        start: 'opening',
+        steps: {
+          opening: {
+            prompt: 'What do you send?',
+            options: [
+              { text: 'Hi', reply: 'Hi?', next: 'broken' },
+              { text: 'Hi - the login form is broken', reply: 'Looking' },
+            ],
+          },
+          broken: { prompt: 'Oops', options: [{ text: 'Hi', reply: 'Hi?', next: 'nowhere' }] },
+        },
+      });
+
+      expect(Object.keys(path?.steps ?? {})).toEqual(['opening']);
+      expect(path?.steps.opening.options).toHaveLength(1);
+      expect(errors).toContain('script.steps.broken.options[0].next: no step called "nowhere"');
+      expect(errors).toContain('script.steps.opening.options[0].next: no step called "broken"');
+    });
+
+    it('should reject a script whose first step is missing', () => {
+      const { path, errors } = parseConversationPath({ ...script, start: 'missing' });
+
+      expect(path).toBeNull();
+      expect(errors).toContain('script.start: expected the name of a step');
+    });
+  });
+
+  describe('walkConversationPath', () => {
+    it('should wait at the first step before any choice', () => {
+      expect(walkConversationPath(script, [])).toEqual({ messages: [], stepId: 'opening' });
+    });
+
+    it('should turn each choice into your message and their reply', () => {
+      expect(walkConversationPath(script, [0])).toEqual({
+        messages: [
+          { sender: 'you', text: 'Hi' },
+          { sender: 'support', text: 'Hi?', delay: '2h' },
+        ],
+        stepId: 'details',
+      });
+    });
+
+    it('should end when the chosen option has no next step', () => {
+      expect(walkConversationPath(script, [0, 0]).stepId).toBeNull();
+      expect(walkConversationPath(script, [1]).stepId).toBeNull();
+    });
+
+    it('should ignore choices that do not exist', () => {
+      expect(walkConversationPath(script, [5]).messages).toEqual([]);
+    });
+  });
+
+  describe('listConversationPaths', () => {
+    it('should list every way through the script', () => {
+      expect(listConversationPaths(script)).toEqual([[0, 0], [1]]);
+    });
+
+    it('should stop at loops', () => {
+      const loop: ConversationPath = {
+        start: 'a',
+        steps: { a: { prompt: 'A', options: [{ text: 'x', reply: 'y', next: 'a' }, { text: 'z', reply: 'w' }] } },
+      };
+
+      expect(listConversationPaths(loop)).toEqual([[0], [1]]);
+    });
+  });
+
+  describe('summarizeConversationPath', () => {
+    it('should measure from the first message to the last reply', () => {
+      const timeline = simulateConversation(walkConversationPath(script, [0, 0]).messages, mondayMorning);
+
+      // 2h for the first reply, 4m to write again, 30m for the answer
+      expect(summarizeConversationPath(timeline)).toEqual({ elapsedMs: 154 * MINUTE, sentCount: 2 });
+    });
+
+    it('should handle an empty conversation', () => {
+      expect(summarizeConversationPath([])).toEqual({ elapsedMs: 0, sentCount: 0 });
+    });
+  });
+
+  describe('findFastestConversationPath', () => {
+    it('should find the quickest way through', () => {
+      expect(findFastestConversationPath(script, mondayMorning)).toEqual({ choices: [1], elapsedMs: 30 * MINUTE });
+    });
+
+    it('should count the wait for business hours', () => {
+      const fridayEvening = new Date(2024, 0, 19, 17, 45);
+
+      // The reply waits until Monday at 9 AM
+      expect(findFastestConversationPath(script, fridayEvening).elapsedMs).toBeGreaterThan(2 * 24 * 60 * MINUTE);
+    });
+  });
+
+  describe('locale files', () => {
+    Object.entries(locales).forEach(([language, locale]) => {
+      it(`should have a valid script in ${language}`, () => {
+        const { path, errors } = parseConversationPath(locale.path.script);
+
+        expect(errors).toEqual([]);
+        expect(listConversationPaths(path!).length).toBeGreaterThan(1);
+      });
+    });
+
+    it('should reward the direct question with the quickest path in every language', () => {
+      Object.values(locales).forEach((locale) => {
+        const { path } = parseConversationPath(locale.path.script);
+        const fastest = findFastestConversationPath(path!, mondayMorning);
+
+        expect(path!.steps[path!.start].options[fastest.choices[0]].text).toBe(locale.problem.example.good.messages[0].text);
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPermalink,
+  decodeConversations,
+  encodeConversations,
+  isBuilderPath,
+  readPermalinkCode,
+  type ConversationPair,
+} from '../conversationPermalink';
+
+const conversations: ConversationPair = {
+  bad: [
+    { text: 'Hi', sender: 'you' },
+    { text: 'Hello? 👋', sender: 'support', delay: '2h', reactions: [{ emoji: '👀', count: 2 }] },
+  ],
+  good: [
+    { text: 'Hi - the deploy fails with "EACCES". Can you check the runner?', sender: 'you' },
+    { text: '확인해 볼게요', sender: 'support', delay: '45m', thread: [{ text: 'Thanks!', sender: 'you', delay: '2m' }] },
+  ],
+};
+
+// Compresses arbitrary JSON the way encodeConversations does, to test hand-made links
+async function encodeJson(value: unknown): Promise<string> {
+  const stream = new Response(JSON.stringify(value)).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('conversationPermalink', () => {
+  it('should round-trip both conversations', async () => {
+    const code = await encodeConversations(conversations);
+
+    expect(await decodeConversations(code)).toEqual(conversations);
+  });
+
+  it('should produce URL-safe codes', async () => {
+    const code = await encodeConversations(conversations);
+
+    expect(code).toMatch(/^[\w-]+$/);
+  });
+
+  it('should compress long conversations', async () => {
+    const long: ConversationPair = {
+      bad: Array.from({ length: 40 }, (_, index) => ({ text: 'Are you there? I have a question', sender: index % 2 ? 'support' : 'you' })),
+      good: [],
+    };
+    const code = await encodeConversations(long);
+
+    expect(code.length).toBeLessThan(JSON.stringify(long).length / 4);
+  });
+
+  it('should reject damaged codes', async () => {
+    const code = await encodeConversations(conversations);
+
+    expect(await decodeConversations(code.slice(0, -10))).toBeNull();
+    expect(await decodeConversations('not a code!')).toBeNull();
+  });
+
+  it('should reject codes from another version', async () => {
+    expect(await decodeConversations(await encodeJson({ v: 99, bad: [], good: [] }))).toBeNull();
+  });
+
+  it('should leave out messages that do not match the schema', async () => {
+    const code = await encodeJson({
+      v: 1,
+      bad: [{ text: 'Hi', sender: 'you' }, { text: '<b>', sender: 'admin' }],
+      good: 'nope',
+    });
+
+    expect(await decodeConversations(code)).toEqual({ bad: [{ text: 'Hi', sender: 'you' }], good: [] });
+  });
+
+  it('should read the code from the URL hash', () => {
+    expect(readPermalinkCode('#c=abc-_123')).toBe('abc-_123');
+    expect(readPermalinkCode('')).toBeNull();
+  });
+
+  it('should build links to the builder', () => {
+    expect(buildPermalink('abc', 'https://nohello.boo')).toBe('https://nohello.boo/builder#c=abc');
+  });
+
+  it('should recognize the builder path', () => {
+    expect(isBuilderPath('/builder')).toBe(true);
+    expect(isBuilderPath('/builder/')).toBe(true);
+    expect(isBuilderPath('/')).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { parseConversation, parseDelay } from '../conversationSchema';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+
+describe('conversationSchema', () => {
+  describe('parseDelay', () => {
+    it('should parse days, hours and minutes', () => {
+      expect(parseDelay('45m')).toBe(45);
+      expect(parseDelay('2h')).toBe(120);
+      expect(parseDelay('1d 3h')).toBe(27 * 60);
+      expect(parseDelay('1h 30m')).toBe(90);
+    });
+
+    it('should reject anything else', () => {
+      expect(parseDelay('')).toBeNull();
+      expect(parseDelay('soon')).toBeNull();
+      expect(parseDelay('30m 1h')).toBeNull();
+      expect(parseDelay('2 hours')).toBeNull();
+    });
+  });
+
+  describe('parseConversation', () => {
+    it('should accept a full message', () => {
+      const result = parseConversation([
+        { sender: 'you', text: 'Hi - the login form is broken' },
+        {
+          sender: 'support',
+          text: 'Looking now',
+          delay: '45m',
+          reactions: [{ emoji: '👀' }, { emoji: '👍', count: 2 }],
+          edits: ['Lookign now'],
+          thread: [{ sender: 'you', text: 'Thanks!', delay: '2m' }],
+        },
+      ]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.messages[1]).toEqual({
+        sender: 'support',
+        text: 'Looking now',
+        delay: '45m',
+        reactions: [{ emoji: '👀', count: 1 }, { emoji: '👍', count: 2 }],
+        edits: ['Lookign now'],
+        thread: [{ sender: 'you', text: 'Thanks!', delay: '2m' }],
+      });
+    });
+
+    it('should treat plain strings as alternating messages starting with you', () => {
+      const result = parseConversation(['Hi', 'Hello?', 'Question']);
+
+      expect(result.errors).toEqual([]);
+      expect(result.messages.map((message) => message.sender)).toEqual(['you', 'support', 'you']);
+    });
+
+    it('should leave out invalid messages and report where they are', () => {
+      const result = parseConversation([
+        { sender: 'you', text: 'Hi' },
+        { sender: 'boss', text: 'Hello' },
+        { sender: 'support', text: '', delay: 'later' },
+        { sender: 'support', text: 'OK', reactions: [{ emoji: '👍', count: 0 }] },
+        42,
+      ]);
+
+      expect(result.messages).toEqual([{ sender: 'you', text: 'Hi' }]);
+      expect(result.errors).toEqual([
+        'messages[1].sender: expected "you" or "support"',
+        'messages[2].text: expected a non-empty string',
+        'messages[2].delay: expected a delay such as "45m", "2h" or "1d 3h"',
+        'messages[3].reactions[0].count: expected a positive whole number',
+        'messages[4]: expected a string or a message object',
+      ]);
+    });
+
+    it('should not allow threads inside threads', () => {
+      const result = parseConversation([
+        {
+          sender: 'you',
+          text: 'Hi',
+          thread: [{ sender: 'support', text: 'Yes?', thread: [{ sender: 'you', text: 'Nested' }] }],
+        },
+      ]);
+
+      expect(result.errors).toEqual(['messages[0].thread[0].thread: thread replies cannot have threads of their own']);
+      expect(result.messages[0].thread).toEqual([]);
+    });
+
+    it('should reject values that are not a list of messages', () => {
+      expect(parseConversation('')).toEqual({ messages: [], errors: ['messages: expected an array'] });
+    });
+  });
+
+  describe('locale files', () => {
+    Object.entries(locales).forEach(([language, locale]) => {
+      it(`should have valid example conversations in ${language}`, () => {
+        const bad = parseConversation(locale.problem.example.bad.messages);
+        const good = parseConversation(locale.problem.example.good.messages);
+
+        expect(bad.errors).toEqual([]);
+        expect(good.errors).toEqual([]);
+        expect(bad.messages.length).toBeGreaterThan(0);
+        expect(good.messages.length).toBeGreaterThan(0);
+      });
+    });
+  });
+});
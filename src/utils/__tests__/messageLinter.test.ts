@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildOpenerPattern,
+  countWords,
+  getExampleGreeting,
+  lintFirstMessage,
+  suggestRewrite,
+} from '../messageLinter';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+
+const patternFor = (locale: typeof en) =>
+  buildOpenerPattern([...locale.rotatingMessages, ...locale.examples.bad]);
+
+describe('messageLinter', () => {
+  describe('buildOpenerPattern', () => {
+    it('should return null for an empty corpus', () => {
+      expect(buildOpenerPattern([])).toBeNull();
+      expect(buildOpenerPattern(['...', ' '])).toBeNull();
+    });
+
+    it('should match corpus phrases regardless of case and surrounding punctuation', () => {
+      const pattern = buildOpenerPattern(['you there?', '¿estás ahí?']);
+
+      expect(pattern?.test('You there')).toBe(true);
+      expect(pattern?.test('Estás ahí')).toBe(true);
+    });
+
+    it('should match stretched greetings', () => {
+      const pattern = buildOpenerPattern(['hey']);
+
+      expect(pattern?.test('heyyyy')).toBe(true);
+    });
+
+    it('should not match inside a longer word', () => {
+      const pattern = buildOpenerPattern(['hi']);
+
+      expect(pattern?.test('higher')).toBe(false);
+    });
+  });
+
+  describe('lintFirstMessage', () => {
+    const pattern = patternFor(en);
+
+    it('should not flag an empty message', () => {
+      expect(lintFirstMessage('   ', pattern, 'en').issues).toEqual([]);
+    });
+
+    it.each(['hi', 'Hello!', 'you there?', 'ping', 'Hi, are you there?', 'hey John'])(
+      'should flag "%s" as greeting only',
+      (message) => {
+        expect(lintFirstMessage(message, pattern, 'en').issues).toContain('greetingOnly');
+      }
+    );
+
+    it('should flag announced questions as teasers', () => {
+      const result = lintFirstMessage('quick question...', pattern, 'en');
+
+      expect(result.issues).toEqual(['greetingOnly', 'teaser']);
+    });
+
+    it('should flag short messages without context', () => {
+      const result = lintFirstMessage("Hi, it's broken", pattern, 'en');
+
+      expect(result.issues).toEqual(['missingContext']);
+      expect(result.opener).toBe('Hi');
+      expect(result.details).toBe("it's broken");
+    });
+
+    it('should accept the good examples of every locale', () => {
+      Object.entries(locales).forEach(([code, locale]) => {
+        locale.examples.good.forEach((example) => {
+          expect(lintFirstMessage(example, patternFor(locale), code).issues).toEqual([]);
+        });
+      });
+    });
+
+    it('should flag the bad examples of every locale', () => {
+      Object.entries(locales).forEach(([code, locale]) => {
+        locale.examples.bad.forEach((example) => {
+          expect(lintFirstMessage(example, patternFor(locale), code).issues).toContain('greetingOnly');
+        });
+      });
+    });
+  });
+
+  describe('countWords', () => {
+    it('should count words in languages with spaces', () => {
+      expect(countWords('the login form is broken', 'en')).toBe(5);
+    });
+
+    it('should ignore punctuation', () => {
+      expect(countWords('hi - there!', 'en')).toBe(2);
+    });
+  });
+
+  describe('getExampleGreeting', () => {
+    it('should extract the greeting before the dash', () => {
+      expect(getExampleGreeting(en.problem.example.good.messages[0].text)).toBe('Hi');
+      expect(getExampleGreeting(ko.problem.example.good.messages[0].text)).toBe('안녕하세요');
+    });
+
+    it('should return an empty string without a dash', () => {
+      expect(getExampleGreeting('No greeting here')).toBe('');
+    });
+  });
+
+  describe('suggestRewrite', () => {
+    it('should combine greeting, details and placeholders', () => {
+      const result = lintFirstMessage('hi, the build is failing', patternFor(en), 'en');
+
+      expect(suggestRewrite(result, 'Hi', ['[a]', '[b]'])).toBe('Hi - the build is failing. [a] [b]');
+    });
+
+    it('should drop the trailing ellipsis of a teaser', () => {
+      const result = lintFirstMessage('hey, about the deploy...', patternFor(en), 'en');
+
+      expect(suggestRewrite(result, 'Hi', ['[a]'])).toBe('Hi - about the deploy. [a]');
+    });
+
+    it('should keep existing punctuation', () => {
+      const result = lintFirstMessage('yo, can you help?', patternFor(en), 'en');
+
+      expect(suggestRewrite(result, 'Hi', ['[a]'])).toBe('Hi - can you help? [a]');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCuePattern,
+  buildMergeCorpus,
+  classifyFragment,
+  findMissingContext,
+  formatMergedMessage,
+  mergeMessages,
+  type MergeTemplate,
+} from '../messageMerge';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+
+const corpusFor = (locale: typeof en) =>
+  buildMergeCorpus([...locale.rotatingMessages, ...locale.examples.bad], locale.merge.filler, {
+    what: locale.merge.sections.what.cues,
+    where: locale.merge.sections.where.cues,
+    tried: locale.merge.sections.tried.cues,
+  });
+
+const template: MergeTemplate = {
+  greeting: 'Hi',
+  question: '[your question]',
+  sections: {
+    what: { label: 'What', placeholder: '[what happens]' },
+    where: { label: 'Where', placeholder: '[the file]' },
+    tried: { label: 'Tried', placeholder: '[what you tried]' },
+  },
+};
+
+describe('messageMerge', () => {
+  const corpus = corpusFor(en);
+
+  describe('classifyFragment', () => {
+    it('should drop greetings and pings', () => {
+      expect(classifyFragment('hi', corpus, 'en').kind).toBe('greeting');
+      expect(classifyFragment('you there??', corpus, 'en').kind).toBe('greeting');
+      expect(classifyFragment('heyyy John', corpus, 'en').kind).toBe('greeting');
+    });
+
+    it('should drop filler', () => {
+      expect(classifyFragment('I have a question...', corpus, 'en').kind).toBe('filler');
+      expect(classifyFragment('hi, sorry to bother you', corpus, 'en').kind).toBe('filler');
+      expect(classifyFragment('??', corpus, 'en').kind).toBe('filler');
+      expect(classifyFragment('🙏', corpus, 'en').kind).toBe('filler');
+    });
+
+    it('should keep content without the greeting in front of it', () => {
+      expect(classifyFragment('hi, the build fails', corpus, 'en')).toEqual({
+        line: 'hi, the build fails',
+        kind: 'content',
+        text: 'the build fails',
+      });
+      expect(classifyFragment('I have a question about my code', corpus, 'en').text).toBe('I have a question about my code');
+    });
+  });
+
+  describe('findMissingContext', () => {
+    it('should report every section for a vague request', () => {
+      expect(findMissingContext("It's not working.", corpus.cuePatterns)).toEqual(['what', 'where', 'tried']);
+    });
+
+    it('should recognise cue words', () => {
+      expect(
+        findMissingContext('The deploy script fails on step 3. I already restarted the runner.', corpus.cuePatterns)
+      ).toEqual([]);
+    });
+
+    it('should treat files, paths and code as a location in any language', () => {
+      ['in src/App.tsx', 'auf /api/users', 'with `npm run build`', 'here: https://example.com/login'].forEach((text) => {
+        expect(findMissingContext(text, corpus.cuePatterns)).not.toContain('where');
+      });
+    });
+  });
+
+  describe('buildCuePattern', () => {
+    it('should return null without cues', () => {
+      expect(buildCuePattern([' '])).toBeNull();
+    });
+
+    it('should only match Latin cues at the start of a word', () => {
+      const pattern = buildCuePattern(['line'])!;
+      expect(pattern.test('on line 12')).toBe(true);
+      expect(pattern.test('the pipeline')).toBe(false);
+    });
+
+    it('should match Hangul cues after another word', () => {
+      expect(buildCuePattern(['스크립트'])!.test('배포스크립트가')).toBe(true);
+    });
+  });
+
+  describe('mergeMessages', () => {
+    it('should turn a fragmented thread into one request', () => {
+      const result = mergeMessages(
+        "hi\nyou there?\nI have a question about my code\n\n  it's not working  ",
+        corpus,
+        'en'
+      );
+
+      expect(result.fragments.map((fragment) => fragment.kind)).toEqual(['greeting', 'greeting', 'content', 'content']);
+      expect(result.request).toBe("I have a question about my code. It's not working.");
+      expect(result.missing).toEqual(['what', 'where', 'tried']);
+    });
+
+    it('should keep the punctuation that is already there', () => {
+      expect(mergeMessages('why does deploy.sh fail?\nthanks', corpus, 'en').request).toBe('Why does deploy.sh fail?');
+    });
+
+    it('should return an empty request when nothing is worth keeping', () => {
+      expect(mergeMessages('hi\nping\n??', corpus, 'en').request).toBe('');
+    });
+  });
+
+  describe('formatMergedMessage', () => {
+    it('should add a placeholder for each missing section', () => {
+      const result = mergeMessages("hi\nit's not working", corpus, 'en');
+
+      expect(formatMergedMessage(result, template)).toBe(
+        "Hi - It's not working.\n\nWhat: [what happens]\nWhere: [the file]\nTried: [what you tried]"
+      );
+    });
+
+    it('should leave a complete request as it is', () => {
+      const result = mergeMessages('hey\nthe deploy script fails on step 3\nI already restarted it', corpus, 'en');
+
+      expect(formatMergedMessage(result, template)).toBe(
+        'Hi - The deploy script fails on step 3. I already restarted it.'
+      );
+    });
+
+    it('should ask for the question when nothing was kept', () => {
+      const result = mergeMessages('hi', corpus, 'en');
+
+      expect(formatMergedMessage(result, { ...template, greeting: '' }).split('\n')[0]).toBe('[your question]');
+    });
+  });
+
+  describe('locale files', () => {
+    it('should drop every bad example of every locale', () => {
+      Object.entries(locales).forEach(([code, locale]) => {
+        const result = mergeMessages(locale.examples.bad.join('\n'), corpusFor(locale), code);
+
+        expect(result.fragments.every((fragment) => fragment.kind !== 'content')).toBe(true);
+      });
+    });
+
+    it('should keep the question in the placeholder thread of every locale', () => {
+      Object.entries(locales).forEach(([code, locale]) => {
+        const result = mergeMessages(locale.merge.placeholder, corpusFor(locale), code);
+
+        expect(result.fragments.map((fragment) => fragment.kind)).toEqual(['greeting', 'greeting', 'content', 'content']);
+        expect(result.missing).toEqual(['what', 'where', 'tried']);
+      });
+    });
+
+    it('should find what and where in the first good example of every locale', () => {
+      Object.entries(locales).forEach(([code, locale]) => {
+        const corpus = corpusFor(locale);
+        const good = mergeMessages(locale.examples.good[0], corpus, code);
+
+        expect(good.fragments[0].kind).toBe('content');
+        expect(good.missing).not.toContain('what');
+        expect(good.missing).not.toContain('where');
+      });
+    });
+  });
+});
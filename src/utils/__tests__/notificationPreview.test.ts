@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { truncateNotificationText } from '../notificationPreview';
+import type { NotificationRules } from '../../types/chat';
+
+const rules = (maxLines: number, charsPerLine: number): NotificationRules => ({
+  name: 'Test',
+  device: 'phone',
+  maxLines,
+  charsPerLine,
+});
+
+describe('truncateNotificationText', () => {
+  it('should keep short messages whole', () => {
+    expect(truncateNotificationText('Hi', rules(1, 40))).toEqual({ text: 'Hi', isTruncated: false });
+  });
+
+  it('should cut long messages at a word boundary', () => {
+    const result = truncateNotificationText('Hi - I need help with the deployment script. It fails on step 3.', rules(1, 40));
+
+    expect(result).toEqual({ text: 'Hi - I need help with the deployment…', isTruncated: true });
+  });
+
+  it('should allow more text on surfaces with more lines', () => {
+    const text = 'Hi - I need help with the deployment script. It fails on step 3.';
+
+    expect(truncateNotificationText(text, rules(2, 40)).isTruncated).toBe(false);
+  });
+
+  it('should cut inside a word rather than drop most of the line', () => {
+    const result = truncateNotificationText('Supercalifragilisticexpialidocious indeed', rules(1, 20));
+
+    expect(result.text).toBe('Supercalifragilisti…');
+  });
+
+  it('should leave out formatting and line breaks', () => {
+    const result = truncateNotificationText("Here it is:\n```TypeError: *oops*```", rules(2, 40));
+
+    expect(result).toEqual({ text: 'Here it is: TypeError: *oops*', isTruncated: false });
+  });
+
+  it('should not split emoji', () => {
+    const result = truncateNotificationText('👀👀👀👀👀👀', rules(1, 4));
+
+    expect(result.text).toBe('👀👀👀…');
+  });
+});
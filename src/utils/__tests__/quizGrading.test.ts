@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getExplainedOptions,
+  getInitialAnswer,
+  gradeAnswer,
+  isAnswerComplete,
+  isValidAnswer,
+  moveItem,
+  toggleOption,
+} from '../quizGrading';
+import type { QuizQuestion } from '../../types/quiz';
+
+const single: QuizQuestion = { id: 1, question: 'Single', options: ['A', 'B', 'C'], correctAnswer: 1 };
+const multiple: QuizQuestion = { id: 2, type: 'multiple', question: 'Multiple', options: ['A', 'B', 'C'], correctAnswers: [0, 2] };
+const trueFalse: QuizQuestion = { id: 3, type: 'trueFalse', question: 'True or false', correctAnswer: false };
+const ordering: QuizQuestion = { id: 4, type: 'ordering', question: 'Ordering', items: ['A', 'B', 'C'], correctOrder: [2, 0, 1] };
+const rewrite: QuizQuestion = { id: 5, type: 'rewrite', question: 'Rewrite', chat: ['Hi'], options: ['A', 'B'], correctAnswer: 0 };
+
+describe('quizGrading', () => {
+  describe('getInitialAnswer', () => {
+    it('should start ordering questions with the items as shown', () => {
+      expect(getInitialAnswer(ordering)).toEqual([0, 1, 2]);
+    });
+
+    it('should start every other type without an answer', () => {
+      [single, multiple, trueFalse, rewrite].forEach((question) => {
+        expect(getInitialAnswer(question)).toBeNull();
+      });
+    });
+  });
+
+  describe('isValidAnswer', () => {
+    it('should accept answers the question could have been given', () => {
+      expect(isValidAnswer(single, 2)).toBe(true);
+      expect(isValidAnswer(multiple, [])).toBe(true);
+      expect(isValidAnswer(trueFalse, false)).toBe(true);
+      expect(isValidAnswer(ordering, [2, 0, 1])).toBe(true);
+      expect(isValidAnswer(rewrite, 1)).toBe(true);
+    });
+
+    it('should reject answers of the wrong type or out of range', () => {
+      expect(isValidAnswer(single, 3)).toBe(false);
+      expect(isValidAnswer(single, '1')).toBe(false);
+      expect(isValidAnswer(multiple, [0, 3])).toBe(false);
+      expect(isValidAnswer(trueFalse, 0)).toBe(false);
+      expect(isValidAnswer(ordering, [0, 1])).toBe(false);
+      expect(isValidAnswer(ordering, [0, 0, 1])).toBe(false);
+      expect(isValidAnswer(rewrite, 0.5)).toBe(false);
+    });
+  });
+
+  describe('isAnswerComplete', () => {
+    it('should need at least one ticked option for multi-select', () => {
+      expect(isAnswerComplete(multiple, [])).toBe(false);
+      expect(isAnswerComplete(multiple, [1])).toBe(true);
+    });
+
+    it('should accept false as an answer', () => {
+      expect(isAnswerComplete(trueFalse, false)).toBe(true);
+      expect(isAnswerComplete(trueFalse, null)).toBe(false);
+    });
+  });
+
+  describe('gradeAnswer', () => {
+    it('should grade single choice and rewrites by the option picked', () => {
+      expect(gradeAnswer(single, 1)).toBe(true);
+      expect(gradeAnswer(single, 0)).toBe(false);
+      expect(gradeAnswer(rewrite, 0)).toBe(true);
+    });
+
+    it('should need exactly the right options for multi-select, in any order', () => {
+      expect(gradeAnswer(multiple, [2, 0])).toBe(true);
+      expect(gradeAnswer(multiple, [0])).toBe(false);
+      expect(gradeAnswer(multiple, [0, 1, 2])).toBe(false);
+    });
+
+    it('should grade true/false', () => {
+      expect(gradeAnswer(trueFalse, false)).toBe(true);
+      expect(gradeAnswer(trueFalse, true)).toBe(false);
+    });
+
+    it('should need every ordering item in place', () => {
+      expect(gradeAnswer(ordering, [2, 0, 1])).toBe(true);
+      expect(gradeAnswer(ordering, [2, 1, 0])).toBe(false);
+    });
+
+    it('should not accept an answer of the wrong kind', () => {
+      expect(gradeAnswer(multiple, 0)).toBe(false);
+      expect(gradeAnswer(single, null)).toBe(false);
+    });
+  });
+
+  describe('getExplainedOptions', () => {
+    it('should explain the option picked, then the right one if it was wrong', () => {
+      expect(getExplainedOptions(single, 1)).toEqual([1]);
+      expect(getExplainedOptions(single, 2)).toEqual([2, 1]);
+      expect(getExplainedOptions(rewrite, 1)).toEqual([1, 0]);
+    });
+
+    it('should explain every option ticked and every right one missed', () => {
+      expect(getExplainedOptions(multiple, [2, 1])).toEqual([1, 2, 0]);
+    });
+
+    it('should leave true/false and ordering to their single explanation', () => {
+      expect(getExplainedOptions(trueFalse, true)).toEqual([]);
+      expect(getExplainedOptions(ordering, [0, 1, 2])).toEqual([]);
+    });
+  });
+
+  describe('toggleOption', () => {
+    it('should tick options in index order and untick them again', () => {
+      expect(toggleOption(null, 2)).toEqual([2]);
+      expect(toggleOption([2], 0)).toEqual([0, 2]);
+      expect(toggleOption([0, 2], 2)).toEqual([0]);
+    });
+  });
+
+  describe('moveItem', () => {
+    it('should move an item without changing the original', () => {
+      const order = [0, 1, 2];
+
+      expect(moveItem(order, 2, 0)).toEqual([2, 0, 1]);
+      expect(order).toEqual([0, 1, 2]);
+    });
+
+    it('should keep the order when moving past either end', () => {
+      expect(moveItem([0, 1, 2], 0, -1)).toEqual([0, 1, 2]);
+      expect(moveItem([0, 1, 2], 2, 3)).toEqual([0, 1, 2]);
+    });
+  });
+});
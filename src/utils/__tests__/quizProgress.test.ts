@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  QUIZ_PROGRESS_STORAGE_KEY,
+  QUIZ_PROGRESS_VERSION,
+  getQuestionSetFingerprint,
+  loadQuizProgress,
+  parseQuizProgress,
+  saveQuizProgress,
+} from '../quizProgress';
+import { buildQuizSession, toQuizQuestions } from '../quizSession';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import type { QuizProgress } from '../../types/quiz';
+
+const pool = toQuizQuestions(en.quiz.questions);
+const SEED = 6;
+const session = buildQuizSession(pool, { seed: SEED });
+
+const progress = (overrides: Partial<QuizProgress> = {}): QuizProgress => ({
+  version: QUIZ_PROGRESS_VERSION,
+  fingerprint: getQuestionSetFingerprint(pool),
+  seed: SEED,
+  currentQuestionIndex: 1,
+  answers: [[session[0].id, 0]],
+  answeredQuestionIds: [session[0].id],
+  results: [
+    { questionId: session[0].id, firstAnswer: 0, firstAttemptCorrect: true, isCorrect: true, retries: 0, blackjackRounds: 0, timeSpentMs: 4000 },
+  ],
+  pendingQuestionIndex: null,
+  currentQuestionTimeMs: 1500,
+  ...overrides,
+});
+
+describe('quizProgress', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('getQuestionSetFingerprint', () => {
+    it('should be the same in every language', () => {
+      expect(getQuestionSetFingerprint(toQuizQuestions(es.quiz.questions))).toBe(getQuestionSetFingerprint(pool));
+    });
+
+    it('should change when a question is added or its answer moves', () => {
+      const fingerprint = getQuestionSetFingerprint(pool);
+
+      expect(getQuestionSetFingerprint(pool.slice(1))).not.toBe(fingerprint);
+      expect(getQuestionSetFingerprint([...pool].reverse())).not.toBe(fingerprint);
+    });
+  });
+
+  describe('parseQuizProgress', () => {
+    it('should accept a session that fits the question pool', () => {
+      expect(parseQuizProgress(progress(), pool)).toEqual(progress());
+    });
+
+    it('should reject other versions and question sets', () => {
+      expect(parseQuizProgress(progress({ version: QUIZ_PROGRESS_VERSION + 1 }), pool)).toBeNull();
+      expect(parseQuizProgress(progress({ fingerprint: 'single:4:1' }), pool)).toBeNull();
+    });
+
+    it('should reject positions outside the session', () => {
+      expect(parseQuizProgress(progress({ currentQuestionIndex: session.length }), pool)).toBeNull();
+      expect(parseQuizProgress(progress({ pendingQuestionIndex: -1 }), pool)).toBeNull();
+    });
+
+    it('should reject answers for questions not in the session or of the wrong type', () => {
+      const otherQuestion = pool.find((question) => !session.some(({ id }) => id === question.id))!;
+
+      expect(parseQuizProgress(progress({ answers: [[otherQuestion.id, 0]] }), pool)).toBeNull();
+      expect(parseQuizProgress(progress({ answers: [[session[0].id, true]] }), pool)).toBeNull();
+      expect(parseQuizProgress(progress({ answeredQuestionIds: [otherQuestion.id] }), pool)).toBeNull();
+    });
+
+    it('should reject malformed values', () => {
+      expect(parseQuizProgress(null, pool)).toBeNull();
+      expect(parseQuizProgress('quiz', pool)).toBeNull();
+      expect(parseQuizProgress({ ...progress(), results: [{ questionId: session[0].id }] }, pool)).toBeNull();
+    });
+  });
+
+  describe('loadQuizProgress', () => {
+    it('should read a saved session back', () => {
+      saveQuizProgress(progress());
+
+      expect(loadQuizProgress(pool)).toEqual(progress());
+    });
+
+    it('should return null when nothing is saved', () => {
+      expect(loadQuizProgress(pool)).toBeNull();
+    });
+
+    it('should discard a session that no longer fits the question pool', () => {
+      saveQuizProgress(progress());
+
+      expect(loadQuizProgress(pool.slice(0, -1))).toBeNull();
+      expect(localStorage.getItem(QUIZ_PROGRESS_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should discard data that is not JSON', () => {
+      localStorage.setItem(QUIZ_PROGRESS_STORAGE_KEY, '{broken');
+
+      expect(loadQuizProgress(pool)).toBeNull();
+      expect(localStorage.getItem(QUIZ_PROGRESS_STORAGE_KEY)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { formatQuizTime, recordBlackjackRounds, recordSubmission, summarizeResults } from '../quizResults';
+import type { QuizQuestionResult } from '../../types/quiz';
+
+const result = (overrides: Partial<QuizQuestionResult>): QuizQuestionResult => ({
+  questionId: 1,
+  firstAnswer: 0,
+  firstAttemptCorrect: true,
+  isCorrect: true,
+  retries: 0,
+  blackjackRounds: 0,
+  timeSpentMs: 0,
+  ...overrides,
+});
+
+describe('quizResults', () => {
+  describe('recordSubmission', () => {
+    it('should record a right first try', () => {
+      expect(recordSubmission(undefined, { questionId: 3, answer: 0, isCorrect: true, timeSpentMs: 4000 })).toEqual(
+        result({ questionId: 3, timeSpentMs: 4000 })
+      );
+    });
+
+    it('should keep a wrong first try wrong after a right retry', () => {
+      const wrong = recordSubmission(undefined, { questionId: 1, answer: 2, isCorrect: false, timeSpentMs: 3000 });
+      const right = recordSubmission(wrong, { questionId: 1, answer: 0, isCorrect: true, timeSpentMs: 2000 });
+
+      expect(wrong).toMatchObject({ firstAnswer: 2, firstAttemptCorrect: false, isCorrect: false, retries: 1 });
+      expect(right).toMatchObject({ firstAnswer: 2, firstAttemptCorrect: false, isCorrect: true, retries: 1, timeSpentMs: 5000 });
+    });
+
+    it('should not count negative time, e.g. after the clock changed', () => {
+      expect(recordSubmission(undefined, { questionId: 1, answer: 0, isCorrect: true, timeSpentMs: -500 }).timeSpentMs).toBe(0);
+    });
+  });
+
+  describe('recordBlackjackRounds', () => {
+    it('should add the hands played', () => {
+      expect(recordBlackjackRounds(result({ blackjackRounds: 2 }), 3).blackjackRounds).toBe(5);
+    });
+  });
+
+  describe('summarizeResults', () => {
+    it('should score first tries and measure accuracy over every submission', () => {
+      const summary = summarizeResults(
+        [
+          result({ questionId: 1, timeSpentMs: 1000 }),
+          result({ questionId: 2, firstAttemptCorrect: false, retries: 2, blackjackRounds: 4, timeSpentMs: 6000 }),
+          result({ questionId: 3, timeSpentMs: 2000 }),
+        ],
+        4
+      );
+
+      expect(summary).toEqual({
+        score: 2,
+        total: 4,
+        accuracy: 3 / 5,
+        retries: 2,
+        blackjackRounds: 4,
+        timeSpentMs: 9000,
+      });
+    });
+
+    it('should give no accuracy before anything was submitted', () => {
+      expect(summarizeResults([], 5)).toMatchObject({ score: 0, total: 5, accuracy: 0 });
+    });
+  });
+
+  describe('formatQuizTime', () => {
+    it('should show seconds, and minutes once there are any', () => {
+      expect(formatQuizTime(42_400, 'en')).toBe('42s');
+      expect(formatQuizTime(65_000, 'en')).toBe('1m 5s');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QUIZ_QUESTION_COUNT,
+  buildQuizSession,
+  createRandom,
+  shuffle,
+  shuffleOptions,
+  toQuizQuestions,
+} from '../quizSession';
+import type { OrderingQuestion, QuizQuestion, SingleChoiceQuestion } from '../../types/quiz';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+
+const question: SingleChoiceQuestion = {
+  id: 1,
+  question: 'What is everything in asynchronous communication?',
+  options: ['Speed', 'Context', 'Length', 'Emojis'],
+  correctAnswer: 1,
+};
+
+const pool = toQuizQuestions(en.quiz.questions);
+
+// What the right answer says, whichever way the options were shuffled
+const correctContent = (entry: QuizQuestion) => {
+  switch (entry.type) {
+    case 'multiple':
+      return entry.correctAnswers.map((index) => entry.options[index]).sort();
+    case 'trueFalse':
+      return entry.correctAnswer;
+    case 'ordering':
+      return entry.correctOrder.map((index) => entry.items[index]);
+    default:
+      return entry.options[entry.correctAnswer];
+  }
+};
+
+describe('quizSession', () => {
+  describe('createRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+
+      expect(Array.from({ length: 5 }, a)).toEqual(Array.from({ length: 5 }, b));
+    });
+
+    it('should give different sequences for different seeds', () => {
+      expect(createRandom(1)()).not.toBe(createRandom(2)());
+    });
+
+    it('should stay within [0, 1)', () => {
+      const random = createRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('shuffle', () => {
+    it('should keep every item without changing the original', () => {
+      const items = [1, 2, 3, 4, 5, 6];
+      const shuffled = shuffle(items, createRandom(3));
+
+      expect([...shuffled].sort()).toEqual(items);
+      expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+  });
+
+  describe('shuffleOptions', () => {
+    it('should keep correctAnswer pointing at the right option', () => {
+      for (let seed = 0; seed < 50; seed++) {
+        const shuffled = shuffleOptions(question, createRandom(seed)) as SingleChoiceQuestion;
+
+        expect(shuffled.options[shuffled.correctAnswer]).toBe('Context');
+        expect([...shuffled.options].sort()).toEqual([...question.options].sort());
+      }
+    });
+
+    it('should not always put the right answer in the same place', () => {
+      const positions = new Set(
+        Array.from({ length: 50 }, (_, seed) => (shuffleOptions(question, createRandom(seed)) as SingleChoiceQuestion).correctAnswer)
+      );
+
+      expect(positions.size).toBe(question.options.length);
+    });
+
+    it('should keep every right option of a multi-select question', () => {
+      const multiple: QuizQuestion = { ...question, type: 'multiple', correctAnswers: [0, 1] };
+
+      for (let seed = 0; seed < 20; seed++) {
+        expect(correctContent(shuffleOptions(multiple, createRandom(seed)))).toEqual(['Context', 'Speed']);
+      }
+    });
+
+    it('should never show ordering items in the right order already', () => {
+      const ordering: OrderingQuestion = {
+        id: 2,
+        type: 'ordering',
+        question: 'Put these in order',
+        items: ['First', 'Second', 'Third'],
+        correctOrder: [0, 1, 2],
+      };
+
+      for (let seed = 0; seed < 50; seed++) {
+        const shuffled = shuffleOptions(ordering, createRandom(seed)) as OrderingQuestion;
+
+        expect(shuffled.correctOrder).not.toEqual([0, 1, 2]);
+        expect(correctContent(shuffled)).toEqual(['First', 'Second', 'Third']);
+      }
+    });
+
+    it('should keep each explanation with its option', () => {
+      const explained: SingleChoiceQuestion = { ...question, explanations: ['Fast', 'Right', 'Long', 'Fun'] };
+
+      for (let seed = 0; seed < 20; seed++) {
+        const shuffled = shuffleOptions(explained, createRandom(seed)) as SingleChoiceQuestion;
+
+        expect(shuffled.explanations![shuffled.correctAnswer]).toBe('Right');
+      }
+    });
+
+    it('should leave true/false questions alone', () => {
+      const trueFalse: QuizQuestion = { id: 3, type: 'trueFalse', question: 'True?', correctAnswer: true };
+
+      expect(shuffleOptions(trueFalse, createRandom(1))).toBe(trueFalse);
+    });
+  });
+
+  describe('toQuizQuestions', () => {
+    it('should number questions by their place in the pool', () => {
+      expect(pool.map((entry) => entry.id)).toEqual(pool.map((_, index) => index + 1));
+    });
+
+    it('should read every question type', () => {
+      expect(new Set(pool.map((entry) => entry.type ?? 'single'))).toEqual(
+        new Set(['single', 'multiple', 'trueFalse', 'ordering', 'rewrite'])
+      );
+    });
+
+    it('should read ordering items as listed in the right order', () => {
+      const ordering = pool.find((entry): entry is OrderingQuestion => entry.type === 'ordering')!;
+
+      expect(ordering.correctOrder).toEqual(ordering.items.map((_, index) => index));
+    });
+
+    it('should drop a learnMore section that is not on the page, and explanations that miss an option', () => {
+      const [entry] = toQuizQuestions([
+        { question: 'Q', options: ['A', 'B'], correctAnswer: 0, explanations: ['Only one'], learnMore: 'pricing' },
+      ]) as SingleChoiceQuestion[];
+
+      expect(entry.learnMore).toBeUndefined();
+      expect(entry.explanations).toBeUndefined();
+    });
+
+    it('should explain every question of every locale and link it to a section', () => {
+      Object.values(locales).forEach((locale) => {
+        toQuizQuestions(locale.quiz.questions).forEach((entry) => {
+          expect(entry.learnMore).toBeDefined();
+          const explained = entry.type === 'trueFalse' || entry.type === 'ordering' ? entry.explanation : entry.explanations;
+          expect(explained).toBeDefined();
+        });
+      });
+    });
+
+    it('should return no questions for anything but an array', () => {
+      expect(toQuizQuestions('quiz.questions')).toEqual([]);
+    });
+  });
+
+  describe('buildQuizSession', () => {
+    it('should sample the session size from a larger pool', () => {
+      const session = buildQuizSession(pool, { seed: 1 });
+
+      expect(pool.length).toBeGreaterThan(QUIZ_QUESTION_COUNT);
+      expect(session).toHaveLength(QUIZ_QUESTION_COUNT);
+      expect(new Set(session.map((entry) => entry.id)).size).toBe(QUIZ_QUESTION_COUNT);
+    });
+
+    it('should reproduce a session from its seed', () => {
+      expect(buildQuizSession(pool, { seed: 99 })).toEqual(buildQuizSession(pool, { seed: 99 }));
+      expect(buildQuizSession(pool, { seed: 99 })).not.toEqual(buildQuizSession(pool, { seed: 100 }));
+    });
+
+    it('should ask the whole pool when it is smaller than the session', () => {
+      expect(buildQuizSession(pool.slice(0, 3), { seed: 5 })).toHaveLength(3);
+      expect(buildQuizSession(pool, { seed: 5, count: 2 })).toHaveLength(2);
+    });
+
+    it('should keep each correct answer with its question', () => {
+      const session = buildQuizSession(pool, { seed: 8, count: pool.length });
+
+      session.forEach((entry) => {
+        expect(correctContent(entry)).toEqual(correctContent(pool[entry.id - 1]));
+      });
+    });
+
+    it('should pick the same questions in every language for the same seed', () => {
+      const ids = Object.values(locales).map((locale) =>
+        buildQuizSession(toQuizQuestions(locale.quiz.questions), { seed: 12 }).map((entry) => entry.id)
+      );
+
+      ids.forEach((languageIds) => expect(languageIds).toEqual(ids[0]));
+    });
+  });
+});
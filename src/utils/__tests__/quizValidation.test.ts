@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatQuizValidationReport,
+  validateQuizCopy,
+  validateQuizLocales,
+  validateQuizQuestions,
+} from '../quizValidation';
+import { quizData } from '../../data/quizData';
+import en from '../../i18n/locales/en.json';
+import es from '../../i18n/locales/es.json';
+import fr from '../../i18n/locales/fr.json';
+import de from '../../i18n/locales/de.json';
+import ko from '../../i18n/locales/ko.json';
+
+const locales = { en, es, fr, de, ko };
+
+const single = { question: 'Q', options: ['A', 'B', 'C'], correctAnswer: 1, explanations: ['a', 'b', 'c'] };
+const trueFalse = { type: 'trueFalse', question: 'Q', correctAnswer: true, explanation: 'Because' };
+
+// A locale file with just the quiz questions
+const locale = (questions: unknown[]) => ({ quiz: { questions } });
+
+describe('quizValidation', () => {
+  it('should find the locale files consistent', () => {
+    const reports = validateQuizLocales(locales);
+
+    expect(reports.map(({ locale }) => locale)).toEqual(['en', 'es', 'fr', 'de', 'ko']);
+    reports.forEach(({ locale, errors }) => {
+      expect(errors, `${locale}.json:\n${errors.join('\n')}`).toEqual([]);
+    });
+  });
+
+  it('should match the English copy in quizData', () => {
+    expect(validateQuizCopy(quizData.questions, en.quiz.questions)).toEqual([]);
+  });
+
+  describe('validateQuizQuestions', () => {
+    it('should report answers out of range', () => {
+      expect(validateQuizQuestions([{ ...single, correctAnswer: 3 }])).toEqual([
+        'quiz.questions[0].correctAnswer: expected an index into options (0-2), got 3',
+      ]);
+      expect(validateQuizQuestions([{ ...single, type: 'multiple', correctAnswer: undefined, correctAnswers: [0, 0] }])).toEqual([
+        'quiz.questions[0].correctAnswers: expected distinct indexes into options (0-2)',
+      ]);
+      expect(validateQuizQuestions([{ ...trueFalse, correctAnswer: 'true' }])).toEqual([
+        'quiz.questions[0].correctAnswer: expected true or false',
+      ]);
+    });
+
+    it('should report explanations that would be dropped', () => {
+      expect(validateQuizQuestions([{ ...single, explanations: ['a', 'b'] }])).toEqual([
+        'quiz.questions[0].explanations: expected one non-empty string per option (3)',
+      ]);
+    });
+
+    it('should report malformed questions', () => {
+      expect(validateQuizQuestions([])).toEqual(['quiz.questions: expected a non-empty array of questions']);
+      expect(validateQuizQuestions([{ ...single, type: 'essay' }])).toEqual([
+        'quiz.questions[0].type: expected one of single, multiple, trueFalse, ordering, rewrite',
+      ]);
+      expect(validateQuizQuestions([{ type: 'ordering', question: '', items: ['Only one'], learnMore: 'footer' }])).toEqual([
+        'quiz.questions[0].question: expected a non-empty string',
+        'quiz.questions[0].learnMore: expected a landing page section',
+        'quiz.questions[0].items: expected at least two non-empty strings',
+      ]);
+    });
+  });
+
+  describe('validateQuizLocales', () => {
+    it('should report a locale with a question missing', () => {
+      const [, de] = validateQuizLocales({ en: locale([single, trueFalse]), de: locale([single]) });
+
+      expect(de).toEqual({ locale: 'de', errors: ['quiz.questions: 1 questions in this locale, but 2 in en'] });
+    });
+
+    it('should report answers that differ from English', () => {
+      const [, fr] = validateQuizLocales({
+        en: locale([single, trueFalse]),
+        fr: locale([{ ...single, correctAnswer: 2 }, { ...trueFalse, correctAnswer: false }]),
+      });
+
+      expect(fr.errors).toEqual([
+        'quiz.questions[0].correctAnswer: 2 in this locale, but 1 in en',
+        'quiz.questions[1].correctAnswer: false in this locale, but true in en',
+      ]);
+    });
+
+    it('should report questions that changed type, options or explanations', () => {
+      const [, ko] = validateQuizLocales({
+        en: locale([single, trueFalse, single]),
+        ko: locale([
+          { ...single, options: ['A', 'B'], explanations: undefined },
+          { ...single },
+          { ...single, learnMore: 'merge' },
+        ]),
+      });
+
+      expect(ko.errors).toEqual([
+        'quiz.questions[0].options.length: 2 in this locale, but 3 in en',
+        'quiz.questions[0].explanations: missing, but en has them',
+        'quiz.questions[1].type: "single" in this locale, but "trueFalse" in en',
+        'quiz.questions[2].learnMore: "merge" in this locale, but none in en',
+      ]);
+    });
+
+    it('should say when there is nothing to compare against', () => {
+      const [es] = validateQuizLocales({ es: locale([single]) });
+
+      expect(es.errors).toEqual(['quiz.questions: not compared, since there is no en locale']);
+    });
+  });
+
+  describe('validateQuizCopy', () => {
+    it('should report a copy that drifted from the locale', () => {
+      const copy = [{ id: 1, question: 'Q', options: ['A', 'B', 'C'], correctAnswer: 2 }, { id: 3, question: 'Q', options: ['A'], correctAnswer: 0 }];
+
+      expect(validateQuizCopy(copy, [single])).toEqual([
+        'questions[id 1].correctAnswer: 2, but 1 in the locale',
+        'questions[id 3]: no single choice question at this place in the pool',
+      ]);
+    });
+  });
+
+  describe('formatQuizValidationReport', () => {
+    it('should group problems by locale', () => {
+      const report = formatQuizValidationReport([
+        { locale: 'en', errors: [] },
+        { locale: 'de', errors: ['quiz.questions: 16 questions in this locale, but 17 in en'] },
+        { locale: 'ko', errors: ['quiz.questions[3].correctAnswer: 2 in this locale, but 1 in en', 'quiz.questions[9].learnMore: "path" in this locale, but "merge" in en'] },
+      ]);
+
+      expect(report).toBe(
+        [
+          'Found 3 quiz problem(s) in 2 locale(s):',
+          '',
+          'de:',
+          '  - quiz.questions: 16 questions in this locale, but 17 in en',
+          '',
+          'ko:',
+          '  - quiz.questions[3].correctAnswer: 2 in this locale, but 1 in en',
+          '  - quiz.questions[9].learnMore: "path" in this locale, but "merge" in en',
+        ].join('\n')
+      );
+    });
+
+    it('should say when everything is consistent', () => {
+      expect(formatQuizValidationReport([{ locale: 'en', errors: [] }])).toBe('Quiz questions are consistent across 1 locale(s).');
+    });
+  });
+});
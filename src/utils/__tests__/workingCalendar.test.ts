@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createWorkingCalendar,
+  getLocaleHolidays,
+  getLocaleWeekendDays,
+  isHoliday,
+  isWeekendDay,
+  isWithinWorkingHours,
+  isWorkingDay,
+  DEFAULT_WORKING_CALENDAR,
+} from '../workingCalendar';
+
+describe('workingCalendar', () => {
+  describe('getLocaleWeekendDays', () => {
+    it('should use Saturday and Sunday for most locales', () => {
+      expect(getLocaleWeekendDays('en-US').sort()).toEqual([0, 6]);
+      expect(getLocaleWeekendDays('de').sort()).toEqual([0, 6]);
+    });
+
+    it('should use Friday and Saturday where that is the weekend', () => {
+      expect(getLocaleWeekendDays('he-IL').sort()).toEqual([5, 6]);
+      expect(getLocaleWeekendDays('ar-EG').sort()).toEqual([5, 6]);
+    });
+
+    it('should fall back to the default weekend for invalid locales', () => {
+      expect(getLocaleWeekendDays('not a locale')).toEqual(DEFAULT_WORKING_CALENDAR.weekendDays);
+    });
+  });
+
+  describe('getLocaleHolidays', () => {
+    it('should use the holidays of the language\'s main region', () => {
+      expect(getLocaleHolidays('en')).toContain('07-04');
+      expect(getLocaleHolidays('de')).toContain('10-03');
+      expect(getLocaleHolidays('fr-FR')).toContain('07-14');
+      expect(getLocaleHolidays('es')).toContain('10-12');
+      expect(getLocaleHolidays('ko')).toContain('10-09');
+    });
+
+    it('should have none for other regions and invalid locales', () => {
+      expect(getLocaleHolidays('he-IL')).toEqual([]);
+      expect(getLocaleHolidays('not a locale')).toEqual([]);
+    });
+  });
+
+  describe('createWorkingCalendar', () => {
+    it('should take the weekend from the locale and keep default hours', () => {
+      const calendar = createWorkingCalendar('he-IL');
+
+      expect(calendar.weekendDays.sort()).toEqual([5, 6]);
+      expect(calendar.startHour).toBe(DEFAULT_WORKING_CALENDAR.startHour);
+      expect(calendar.endHour).toBe(DEFAULT_WORKING_CALENDAR.endHour);
+      expect(calendar.holidays).toEqual([]);
+    });
+
+    it('should skip the locale\'s public holidays', () => {
+      const calendar = createWorkingCalendar('de');
+
+      // Tuesday, October 3, 2023 - German Unity Day
+      expect(isWorkingDay(new Date(2023, 9, 3), calendar)).toBe(false);
+      expect(isWorkingDay(new Date(2023, 9, 4), calendar)).toBe(true);
+    });
+
+    it('should apply overrides', () => {
+      const calendar = createWorkingCalendar('en-US', { startHour: 10, holidays: ['12-25'] });
+
+      expect(calendar.startHour).toBe(10);
+      expect(calendar.holidays).toEqual(['12-25']);
+    });
+  });
+
+  describe('working days', () => {
+    const calendar = createWorkingCalendar('en-US', { holidays: ['2024-01-15', '12-25'] });
+
+    it('should match one-off and recurring holidays', () => {
+      expect(isHoliday(new Date(2024, 0, 15), calendar)).toBe(true);
+      expect(isHoliday(new Date(2025, 0, 15), calendar)).toBe(false);
+      expect(isHoliday(new Date(2023, 11, 25), calendar)).toBe(true);
+      expect(isHoliday(new Date(2031, 11, 25), calendar)).toBe(true);
+    });
+
+    it('should treat weekends and holidays as days off', () => {
+      expect(isWeekendDay(new Date(2024, 0, 13), calendar)).toBe(true);
+      expect(isWorkingDay(new Date(2024, 0, 13), calendar)).toBe(false);
+      expect(isWorkingDay(new Date(2024, 0, 15), calendar)).toBe(false);
+      expect(isWorkingDay(new Date(2024, 0, 16), calendar)).toBe(true);
+    });
+
+    it('should include the whole last working hour', () => {
+      expect(isWithinWorkingHours(new Date(2024, 0, 16, 17, 59), calendar)).toBe(true);
+      expect(isWithinWorkingHours(new Date(2024, 0, 16, 18, 0), calendar)).toBe(false);
+    });
+  });
+});
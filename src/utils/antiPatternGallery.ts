@@ -0,0 +1,72 @@
+import type { AntiPatternCard } from '../types/chat';
+import { parseConversation } from './conversationSchema';
+
+export interface AntiPatternGalleryParseResult {
+  cards: AntiPatternCard[]; // Every card that passed validation
+  errors: string[];
+}
+
+interface AntiPatternGalleryBounds {
+  badCount: number; // Length of `examples.bad`
+  goodCount: number; // Length of `examples.good`
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIndex = (value: unknown, count: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < count;
+
+function parseCard(
+  value: unknown,
+  path: string,
+  { badCount, goodCount }: AntiPatternGalleryBounds,
+  errors: string[]
+): AntiPatternCard | null {
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected a card object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const { bad, good, why } = value;
+
+  if (!isIndex(bad, badCount)) {
+    errors.push(`${path}.bad: expected an index into examples.bad`);
+  }
+  if (!isIndex(good, goodCount)) {
+    errors.push(`${path}.good: expected an index into examples.good`);
+  }
+  if (typeof why !== 'string' || why.trim() === '') {
+    errors.push(`${path}.why: expected a non-empty string`);
+  }
+
+  const conversation = parseConversation(value.messages);
+  errors.push(...conversation.errors.map((error) => `${path}.${error}`));
+  if (conversation.messages.length === 0 && conversation.errors.length === 0) {
+    errors.push(`${path}.messages: expected at least one message`);
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  return { bad: bad as number, good: good as number, why: why as string, messages: conversation.messages };
+}
+
+/**
+ * Validates the anti-pattern gallery from the locale files (`examples.gallery.cards`).
+ * A card with any problem is left out, so it never shows half a conversation.
+ */
+export function parseAntiPatternGallery(value: unknown, bounds: AntiPatternGalleryBounds): AntiPatternGalleryParseResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(value)) {
+    return { cards: [], errors: ['cards: expected an array'] };
+  }
+
+  const cards = value
+    .map((card, index) => parseCard(card, `cards[${index}]`, bounds, errors))
+    .filter((card): card is AntiPatternCard => card !== null);
+  return { cards, errors };
+}
@@ -0,0 +1,195 @@
+import { buildQuizSession } from './quizSession';
+import { gradeAnswer, isValidAnswer } from './quizGrading';
+import type { QuizAnswer, QuizCertificate, QuizQuestion } from '../types/quiz';
+
+// Shared by the app and the Pages Functions in functions/certificates, so both read
+// certificates the same way. Signing itself needs the secret, so it only runs there.
+
+export const VERIFY_PATH = '/verify';
+export const CERTIFICATE_NAME_MAX_LENGTH = 80;
+
+// Bumped whenever the signed payload changes, which invalidates every code issued before
+const CERTIFICATE_VERSION = 1;
+
+// Crockford's base32: no I, L, O or U, so a code read off paper is hard to mistype
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 12;
+const CODE_GROUP = 4;
+
+// Spacing and composed characters vary with how a name was typed, so they are evened out before signing
+export const normalizeCertificateName = (name: string) => name.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Checks what a certificate claims, e.g. from a request body or a verification link.
+ * Without a `date`, as when asking for a new certificate, pass the day to issue it on.
+ */
+export function parseCertificateClaims(value: unknown, issuedOn?: string): QuizCertificate | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, score, total } = value as Record<string, unknown>;
+  const date = issuedOn ?? (value as Record<string, unknown>).date;
+
+  if (typeof name !== 'string') return null;
+  const normalizedName = normalizeCertificateName(name);
+  if (!normalizedName || normalizedName.length > CERTIFICATE_NAME_MAX_LENGTH) return null;
+  if (!isCount(total) || total === 0 || !isCount(score) || score > total || !isIsoDate(date)) return null;
+
+  return { name: normalizedName, score, total, date };
+}
+
+// What the browser sends for a certificate: the name, and the seed and answers of the finished session
+export interface CertificateRequest {
+  name: string;
+  seed: number;
+  answers: [number, QuizAnswer][]; // First answer to each question, by question id
+}
+
+/**
+ * Grades a certificate request on the questions its seed draws from the pool, the way the
+ * results screen does: a question counts when its first answer was right. Returns the claims
+ * to sign, or null unless every question of the session has exactly one valid answer.
+ */
+export function gradeCertificateRequest(value: unknown, pool: QuizQuestion[], issuedOn: string): QuizCertificate | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, seed, answers } = value as Record<string, unknown>;
+  if (!isCount(seed) || !Array.isArray(answers)) return null;
+
+  const session = buildQuizSession(pool, { seed });
+  const questionsById = new Map(session.map((question) => [question.id, question]));
+  const firstAnswers = new Map<number, QuizAnswer>();
+  for (const entry of answers) {
+    if (!Array.isArray(entry) || entry.length !== 2) return null;
+    const [questionId, answer] = entry;
+    const question = questionsById.get(questionId);
+    if (!question || firstAnswers.has(questionId) || !isValidAnswer(question, answer)) return null;
+    firstAnswers.set(questionId, answer);
+  }
+  if (firstAnswers.size !== session.length) return null;
+
+  const score = session.filter((question) => gradeAnswer(question, firstAnswers.get(question.id) ?? null)).length;
+  return parseCertificateClaims({ name, score, total: session.length }, issuedOn);
+}
+
+// Today as YYYY-MM-DD in UTC, the date certificates are issued on
+export const getCertificateDate = (now = new Date()) => now.toISOString().slice(0, 10);
+
+// Upper case without separators, reading the letters Crockford's base32 leaves out as the digits they look like
+export function normalizeCertificateCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+}
+
+// Splits a code into groups, e.g. 7K3M-Q9ZP-D2XA
+export function formatCertificateCode(code: string): string {
+  const normalized = normalizeCertificateCode(code);
+  return normalized.match(new RegExp(`.{1,${CODE_GROUP}}`, 'g'))?.join('-') ?? normalized;
+}
+
+export function isCertificateCode(code: string): boolean {
+  const normalized = normalizeCertificateCode(code);
+  return normalized.length === CODE_LENGTH && [...normalized].every((char) => CODE_ALPHABET.includes(char));
+}
+
+const encoder = new TextEncoder();
+
+function toBase32(bytes: Uint8Array, length: number): string {
+  let code = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5 && code.length < length) {
+      bits -= 5;
+      code += CODE_ALPHABET[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+    if (code.length === length) break;
+  }
+  return code;
+}
+
+/**
+ * The verification code for a certificate: the start of an HMAC-SHA256 over its claims.
+ * Sixty bits are far too many to guess, yet short enough to type from a printed certificate.
+ */
+export async function createCertificateCode(certificate: QuizCertificate, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const payload = JSON.stringify([
+    CERTIFICATE_VERSION,
+    certificate.name,
+    certificate.score,
+    certificate.total,
+    certificate.date,
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return formatCertificateCode(toBase32(new Uint8Array(signature), CODE_LENGTH));
+}
+
+// Whether the code was issued for exactly these claims, compared in constant time
+export async function verifyCertificateCode(certificate: QuizCertificate, code: string, secret: string): Promise<boolean> {
+  const expected = normalizeCertificateCode(await createCertificateCode(certificate, secret));
+  const actual = normalizeCertificateCode(code);
+  if (actual.length !== expected.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+// The code from a /verify/:code path, or null on any other page
+export function getVerifyCode(pathname: string): string | null {
+  const match = pathname.match(new RegExp(`^${VERIFY_PATH}/([^/]+)/*$`));
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Link that checks a certificate. With the claims it checks straight away;
+ * without them, the page asks for the details printed on the certificate.
+ */
+export function buildVerifyUrl(origin: string, code: string, certificate?: QuizCertificate): string {
+  const url = `${origin}${VERIFY_PATH}/${formatCertificateCode(code)}`;
+  if (!certificate) return url;
+
+  const params = new URLSearchParams({
+    name: certificate.name,
+    score: String(certificate.score),
+    total: String(certificate.total),
+    date: certificate.date,
+  });
+  return `${url}?${params}`;
+}
+
+// The claims from a verification link's query, if it has all of them
+export function readVerifyClaims(search: string): QuizCertificate | null {
+  const params = new URLSearchParams(search);
+  const score = params.get('score');
+  const total = params.get('total');
+  if (score === null || total === null || !/^\d+$/.test(score) || !/^\d+$/.test(total)) return null;
+
+  return parseCertificateClaims({
+    name: params.get('name'),
+    score: Number(score),
+    total: Number(total),
+    date: params.get('date'),
+  });
+}
@@ -0,0 +1,125 @@
+import { FONT_FAMILY, escapeXml, wrapText, type ChatImage, type TextMeasurer } from './chatImage';
+
+// The certificate's text, already translated and formatted
+export interface CertificateText {
+  site: string;
+  heading: string;
+  intro: string;
+  name: string;
+  body: string;
+  date: string;
+  code: string;
+  verify: string;
+}
+
+// A4 landscape at 96 dpi
+export const CERTIFICATE_WIDTH = 1123;
+export const CERTIFICATE_HEIGHT = 794;
+
+const MARGIN = 200;
+const NAME_SIZE = 48;
+const BODY_SIZE = 20;
+const BODY_LINE_HEIGHT = 30;
+const ACCENT = '#1d4ed8';
+
+const text = (content: string, y: number, size: number, { weight = 400, fill = '#111827', family = FONT_FAMILY } = {}) =>
+  `<text x="${CERTIFICATE_WIDTH / 2}" y="${y}" font-size="${size}" font-weight="${weight}" fill="${fill}" font-family="${escapeXml(family)}" text-anchor="middle">${escapeXml(content)}</text>`;
+
+/**
+ * Draws the certificate as an SVG. Colors are fixed rather than themed,
+ * since it is printed and the PDF needs a white page.
+ */
+export function buildCertificateSvg(certificate: CertificateText, measureText: TextMeasurer): ChatImage {
+  const width = CERTIFICATE_WIDTH;
+  const height = CERTIFICATE_HEIGHT;
+  const maxWidth = width - MARGIN * 2;
+
+  // Long names shrink to fit on one line instead of wrapping
+  const nameWidth = measureText(certificate.name, NAME_SIZE, 700);
+  const nameSize = nameWidth > maxWidth ? Math.max(16, Math.floor((NAME_SIZE * maxWidth) / nameWidth)) : NAME_SIZE;
+  const bodyLines = wrapText(certificate.body, maxWidth, BODY_SIZE, measureText);
+
+  const content = [
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<rect x="24" y="24" width="${width - 48}" height="${height - 48}" fill="none" stroke="${ACCENT}" stroke-width="4"/>`,
+    `<rect x="36" y="36" width="${width - 72}" height="${height - 72}" fill="none" stroke="${ACCENT}" stroke-width="1"/>`,
+    text(certificate.site, 120, 18, { weight: 600, fill: ACCENT }),
+    text(certificate.heading, 200, 44, { weight: 700 }),
+    text(certificate.intro, 270, BODY_SIZE, { fill: '#4b5563' }),
+    text(certificate.name, 350, nameSize, { weight: 700, fill: ACCENT }),
+    `<line x1="${MARGIN}" y1="372" x2="${width - MARGIN}" y2="372" stroke="#9ca3af" stroke-width="1"/>`,
+    ...bodyLines.map((line, index) => text(line, 430 + index * BODY_LINE_HEIGHT, BODY_SIZE)),
+    text(certificate.date, height - 160, 18, { fill: '#374151' }),
+    text(certificate.code, height - 120, 18, { weight: 700, family: 'ui-monospace, Menlo, Consolas, monospace' }),
+    text(certificate.verify, height - 88, 14, { fill: '#6b7280' }),
+  ].join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${content}</svg>`;
+  return { svg, width, height };
+}
+
+export interface PdfImageSize {
+  width: number; // Page size in CSS pixels
+  height: number;
+  pixelWidth: number; // The JPEG's own size
+  pixelHeight: number;
+}
+
+const ascii = (value: string) => new TextEncoder().encode(value);
+
+/**
+ * Wraps a JPEG in a one-page PDF the size of the image. PDF readers decode JPEG themselves,
+ * so the certificate is drawn once by the browser and every script, Korean included,
+ * looks the same as on screen without embedding fonts.
+ */
+export function jpegToPdf(jpeg: Uint8Array, { width, height, pixelWidth, pixelHeight }: PdfImageSize): Uint8Array<ArrayBuffer> {
+  // CSS pixels are 1/96 inch, PDF points 1/72 inch
+  const pageWidth = Math.round(width * 0.75);
+  const pageHeight = Math.round(height * 0.75);
+  const drawing = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+        '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>',
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${drawing.length} >>\nstream\n${drawing}\nendstream`],
+  ];
+
+  const chunks: Uint8Array[] = [ascii('%PDF-1.4\n')];
+  let length = chunks[0].length;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? ascii(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const offsets = objects.map((parts, index) => {
+    const offset = length;
+    push(`${index + 1} 0 obj\n`);
+    parts.forEach(push);
+    push('\nendobj\n');
+    return offset;
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+}
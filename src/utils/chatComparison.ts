@@ -0,0 +1,100 @@
+import type { AssignedMessage, ChatSender, ConversationType } from '../types/chat';
+import { startOfDay } from './chatTimeline';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ComparisonPoint {
+  index: number; // Position of the message in its conversation
+  sender: ChatSender;
+  text: string;
+  sentAt: Date;
+  position: number; // Where the message sits on the shared axis, from 0 to 1
+}
+
+export interface ComparisonTrack {
+  type: ConversationType;
+  points: ComparisonPoint[];
+  questionIndex: number | null; // Message where the question is finally asked
+  answerIndex: number | null; // Message that answers it
+  answerElapsedMs: number | null; // Time from the earliest message to the answer
+}
+
+export interface ComparisonTimeline {
+  tracks: ComparisonTrack[];
+  dayCount: number; // Number of day columns on the axis
+  sharedStart: Date | null; // First day, when every conversation starts on the same day
+}
+
+/**
+ * Finds where the question is finally asked and where it is answered:
+ * the answer is the last support message, the question the last of your
+ * messages before it. Without an answer, the question is your last message.
+ */
+export function findQuestionAndAnswer(messages: AssignedMessage[]): { questionIndex: number | null; answerIndex: number | null } {
+  const lastIndexOf = (sender: ChatSender, before: number) => {
+    for (let i = before - 1; i >= 0; i--) {
+      if (messages[i].sender === sender) return i;
+    }
+    return null;
+  };
+
+  const answerIndex = lastIndexOf('support', messages.length);
+  const questionIndex = lastIndexOf('you', answerIndex ?? messages.length);
+  return { questionIndex, answerIndex };
+}
+
+// Calendar days between two midnights, rounded so DST changes don't matter
+const daysBetween = (from: Date, to: Date) =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+
+// Earliest and latest send times in a conversation, whatever order its messages are in
+const getSpan = (messages: AssignedMessage[]) => {
+  const times = messages.map((message) => message.sentAt.getTime());
+  return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) };
+};
+
+/**
+ * Lines conversations up on one axis of whole days. Each conversation starts
+ * on "day 1" at the day its earliest message was sent, so a message's position
+ * shows both how many days have passed and the time of day it was sent.
+ */
+export function buildComparisonTimeline(conversations: Partial<Record<ConversationType, AssignedMessage[]>>): ComparisonTimeline {
+  const entries = (Object.entries(conversations) as [ConversationType, AssignedMessage[]][])
+    .filter(([, messages]) => messages.length > 0)
+    .map(([type, messages]) => ({ type, messages, ...getSpan(messages) }));
+
+  // Days spanned by the longest conversation
+  const dayCount = Math.max(1, ...entries.map(({ start, end }) => daysBetween(start, end) + 1));
+
+  const tracks = entries.map(({ type, messages, start }): ComparisonTrack => {
+    const points = messages.map((message, index) => {
+      const day = startOfDay(message.sentAt);
+      const nextDay = new Date(day);
+      nextDay.setDate(nextDay.getDate() + 1);
+      const dayFraction = (message.sentAt.getTime() - day.getTime()) / (nextDay.getTime() - day.getTime());
+
+      return {
+        index,
+        sender: message.sender,
+        text: message.text,
+        sentAt: message.sentAt,
+        position: (daysBetween(start, message.sentAt) + dayFraction) / dayCount,
+      };
+    });
+    const { questionIndex, answerIndex } = findQuestionAndAnswer(messages);
+
+    return {
+      type,
+      points,
+      questionIndex,
+      answerIndex,
+      // Measured from the earliest message, so it can't come out negative
+      answerElapsedMs: answerIndex === null ? null : messages[answerIndex].sentAt.getTime() - start.getTime(),
+    };
+  });
+
+  const starts = entries.map(({ start }) => startOfDay(start).getTime());
+  const sharedStart = starts.length > 0 && starts.every((start) => start === starts[0]) ? new Date(starts[0]) : null;
+
+  return { tracks, dayCount, sharedStart };
+}
@@ -0,0 +1,387 @@
+import type { AvatarShape, ChatSender, PlatformStyles } from '../types/chat';
+
+export type ChatImageFormat = 'svg' | 'png';
+
+// A message as it is shown on screen, with names and times already formatted
+export interface ChatImageMessage {
+  sender: ChatSender;
+  senderName: string;
+  avatarInitial: string;
+  avatarColor: string;
+  avatarUrl?: string; // Drawn over the initial, which shows through if the image cannot be loaded
+  timestamp: string;
+  text: string;
+  dateLabel?: string; // Date separator shown above the message
+  details?: string[]; // Small lines under the message, e.g. reactions or a thread summary
+}
+
+export interface ChatImageOptions {
+  styles: PlatformStyles;
+  title: string;
+  titleColor: string;
+  messages: ChatImageMessage[];
+  transparent: boolean; // Leave out the panel background
+  resolveColor: (value: string) => string; // Turns CSS variables into the current theme's colors
+  measureText: TextMeasurer;
+  width?: number;
+  direction?: 'ltr' | 'rtl'; // The page's direction; right-to-left mirrors the layout
+}
+
+export interface ChatImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export type TextMeasurer = (text: string, fontSize: number, fontWeight: number) => number;
+
+export const CHAT_IMAGE_WIDTH = 480;
+export const FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+const ROOT_FONT_SIZE = 16;
+
+// Sizes match ChatMessage and ChatDateSeparator
+const AVATAR_SIZE = 36;
+const TEXT_SIZE = 15;
+const LINE_HEIGHT = 24;
+const TIMESTAMP_SIZE = 12;
+const TITLE_SIZE = 20;
+const MESSAGE_GAP = 4;
+const BUBBLE_MAX_WIDTH = 0.85;
+
+const mirroredAnchors: Record<string, string> = { start: 'end', end: 'start' };
+
+const avatarRadius: Record<Exclude<AvatarShape, 'none'>, number> = {
+  circle: AVATAR_SIZE / 2,
+  rounded: 8,
+  square: 2,
+};
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Converts a CSS length such as "0.9375rem", "16px" or "0" to pixels
+ */
+export function parseCssLength(value: string): number {
+  const number = parseFloat(value);
+  if (Number.isNaN(number)) return 0;
+  return value.trim().endsWith('rem') ? number * ROOT_FONT_SIZE : number;
+}
+
+/**
+ * Expands a CSS padding shorthand into [top, right, bottom, left] pixels
+ */
+function parsePadding(value: string): [number, number, number, number] {
+  const [top = 0, right = top, bottom = top, left = right] = value.trim().split(/\s+/).map(parseCssLength);
+  return [top, right, bottom, left];
+}
+
+/**
+ * Breaks text into lines that fit the given width, splitting long words if needed
+ */
+export function wrapText(text: string, maxWidth: number, fontSize: number, measureText: TextMeasurer): string[] {
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, fontSize, 400) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      // Words wider than the line are broken across lines, like overflow-wrap: anywhere
+      Array.from(word).forEach((char) => {
+        if (line && measureText(line + char, fontSize, 400) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      });
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+/**
+ * Estimates text width when no canvas is available to measure it
+ */
+const estimateTextWidth: TextMeasurer = (text, fontSize, fontWeight) =>
+  Array.from(text).length * fontSize * (fontWeight >= 600 ? 0.6 : 0.55);
+
+/**
+ * Measures text with an offscreen canvas, so lines wrap where the browser would wrap them
+ */
+export function createTextMeasurer(): TextMeasurer {
+  if (typeof OffscreenCanvas === 'undefined') {
+    return estimateTextWidth;
+  }
+  const context = new OffscreenCanvas(1, 1).getContext('2d');
+  if (!context) {
+    return estimateTextWidth;
+  }
+  return (text, fontSize, fontWeight) => {
+    context.font = `${fontWeight} ${fontSize}px ${FONT_FAMILY}`;
+    return context.measureText(text).width;
+  };
+}
+
+/**
+ * Resolves CSS variables like "var(--color-text-primary)" against the page,
+ * so the image uses the current light or dark theme
+ */
+export function createColorResolver(element: Element = document.documentElement): (value: string) => string {
+  const computed = getComputedStyle(element);
+  return (value) =>
+    value.replace(/var\((--[\w-]+)\)/g, (_, name: string) => computed.getPropertyValue(name).trim() || 'transparent');
+}
+
+/**
+ * Draws a conversation as an SVG image, laid out like the on-screen chat panel
+ */
+export function buildChatSvg({
+  styles,
+  title,
+  titleColor,
+  messages,
+  transparent,
+  resolveColor,
+  measureText,
+  width = CHAT_IMAGE_WIDTH,
+  direction = 'ltr',
+}: ChatImageOptions): ChatImage {
+  const [padTop, padRight, padBottom, padLeft] = parsePadding(styles.container.padding);
+  const contentWidth = width - padLeft - padRight;
+  const isBubble = styles.layout === 'bubble';
+  const timeColor = resolveColor('var(--color-text-tertiary)');
+  const timePassageSize = parseCssLength(styles.timePassage.fontSize);
+  const nameSize = parseCssLength(styles.senderName.fontSize);
+  const parts: string[] = [];
+
+  // Everything is laid out left to right; right-to-left mirrors the x positions and text anchors
+  const isRtl = direction === 'rtl';
+  const toX = (x: number, itemWidth = 0) => (isRtl ? width - x - itemWidth : x);
+  const toAnchor = (anchor: string) => (isRtl ? mirroredAnchors[anchor] ?? anchor : anchor);
+
+  const text = (x: number, y: number, content: string, size: number, color: string, weight = 400, anchor = 'start') =>
+    `<text x="${toX(x)}" y="${y}" font-size="${size}" font-weight="${weight}" fill="${escapeXml(color)}" text-anchor="${toAnchor(anchor)}">${escapeXml(content)}</text>`;
+
+  let y = padTop;
+
+  // Title, e.g. "Bad:"
+  y += TITLE_SIZE;
+  parts.push(text(padLeft, y, title, TITLE_SIZE, resolveColor(titleColor), 700));
+  y += 24 + 8;
+
+  messages.forEach((message, index) => {
+    if (message.dateLabel) {
+      const { style, uppercase } = styles.dateSeparator;
+      const label = uppercase ? message.dateLabel.toLocaleUpperCase() : message.dateLabel;
+      const labelSize = style === 'pill' ? TIMESTAMP_SIZE : timePassageSize;
+      const labelWidth = measureText(label, labelSize, 500);
+      const centerX = padLeft + contentWidth / 2;
+
+      y += index === 0 ? 0 : 16;
+      const middle = y + labelSize / 2 + (style === 'pill' ? 4 : 0);
+      if (style === 'line') {
+        const lineColor = resolveColor('var(--color-border)');
+        const gap = labelWidth / 2 + 8 + 16;
+        const lineWidth = Math.max(contentWidth / 2 - gap, 0);
+        parts.push(`<rect x="${toX(padLeft, lineWidth)}" y="${middle}" width="${lineWidth}" height="1" fill="${escapeXml(lineColor)}"/>`);
+        parts.push(`<rect x="${toX(centerX + gap, lineWidth)}" y="${middle}" width="${lineWidth}" height="1" fill="${escapeXml(lineColor)}"/>`);
+      } else if (style === 'pill') {
+        parts.push(`<rect x="${toX(centerX - labelWidth / 2 - 12, labelWidth + 24)}" y="${y}" width="${labelWidth + 24}" height="${labelSize + 8}" rx="8" fill="${escapeXml(resolveColor('var(--color-bg-secondary)'))}"/>`);
+      }
+      parts.push(text(centerX, middle + labelSize * 0.35, label, labelSize, resolveColor(styles.timePassage.color), 500, 'middle'));
+      y += labelSize + (style === 'pill' ? 8 : 0) + 16;
+    }
+
+    const isUser = message.sender === 'you';
+    const alignEnd = isBubble && isUser;
+    const showAvatar = styles.avatarShape !== 'none' && (!isUser || styles.showOwnAvatar);
+    const showName = !isUser || styles.showOwnName;
+    const showHeader = showName || styles.timestampPlacement === 'header';
+    const messageStyles = isUser ? styles.userMessage : styles.otherMessage;
+    const textColor = resolveColor(messageStyles.color);
+    const avatarSpace = showAvatar ? AVATAR_SIZE + (isBubble ? 8 : 12) : 0;
+
+    y += 2;
+    const top = y;
+
+    if (showAvatar) {
+      const avatarX = alignEnd ? padLeft + contentWidth - AVATAR_SIZE : padLeft;
+      const radius = avatarRadius[styles.avatarShape as Exclude<AvatarShape, 'none'>];
+      parts.push(`<rect x="${toX(avatarX, AVATAR_SIZE)}" y="${top}" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}" rx="${radius}" fill="${escapeXml(message.avatarColor)}"/>`);
+      parts.push(text(avatarX + AVATAR_SIZE / 2, top + AVATAR_SIZE / 2 + 5, message.avatarInitial, 14, '#ffffff', 700, 'middle'));
+      if (message.avatarUrl) {
+        const clipId = `avatar-${index}`;
+        parts.push(`<clipPath id="${clipId}"><rect x="${toX(avatarX, AVATAR_SIZE)}" y="${top}" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}" rx="${radius}"/></clipPath>`);
+        parts.push(`<image href="${escapeXml(message.avatarUrl)}" x="${toX(avatarX, AVATAR_SIZE)}" y="${top}" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}" preserveAspectRatio="xMidYMid slice" clip-path="url(#${clipId})"/>`);
+      }
+    }
+
+    // Header with name and timestamp, returns its height
+    const drawHeader = (x: number, headerTop: number) => {
+      if (!showHeader) return 0;
+      const baseline = headerTop + Math.max(nameSize, TIMESTAMP_SIZE);
+      let cursor = x;
+      if (showName) {
+        parts.push(text(cursor, baseline, message.senderName, nameSize, resolveColor(styles.senderName.color), 700));
+        cursor += measureText(message.senderName, nameSize, 700) + 8;
+      }
+      if (styles.timestampPlacement === 'header') {
+        parts.push(text(cursor, baseline, message.timestamp, TIMESTAMP_SIZE, timeColor));
+      }
+      return Math.max(nameSize, TIMESTAMP_SIZE) + 6;
+    };
+
+    const headerWidth = (showName ? measureText(message.senderName, nameSize, 700) + 8 : 0)
+      + (styles.timestampPlacement === 'header' ? measureText(message.timestamp, TIMESTAMP_SIZE, 400) : 0);
+    const timestampWidth = measureText(message.timestamp, TIMESTAMP_SIZE, 400);
+    // Where reactions and thread summaries start, under the text or the bubble
+    let detailsX = padLeft + avatarSpace;
+    let detailsAnchor = 'start';
+
+    if (!isBubble) {
+      const x = padLeft + avatarSpace;
+      y += drawHeader(x, y);
+      wrapText(message.text, contentWidth - avatarSpace, TEXT_SIZE, measureText).forEach((line) => {
+        parts.push(text(x, y + 17, line, TEXT_SIZE, textColor));
+        y += LINE_HEIGHT;
+      });
+      if (styles.timestampPlacement === 'below') {
+        parts.push(text(x, y + TIMESTAMP_SIZE, message.timestamp, TIMESTAMP_SIZE, timeColor));
+        y += TIMESTAMP_SIZE + 4;
+      }
+    } else {
+      const [bubbleTop, bubbleRight, bubbleBottom, bubbleLeft] = parsePadding(messageStyles.padding);
+      const marginStart = parseCssLength(messageStyles.marginStart);
+      const marginEnd = parseCssLength(messageStyles.marginEnd);
+      const available = contentWidth - avatarSpace - marginStart - marginEnd;
+      const maxTextWidth = available * BUBBLE_MAX_WIDTH - bubbleLeft - bubbleRight;
+      const lines = wrapText(message.text, maxTextWidth, TEXT_SIZE, measureText);
+      const lineWidths = lines.map((line) => measureText(line, TEXT_SIZE, 400));
+
+      // WhatsApp keeps the time on the last line when it fits
+      let timeOnOwnLine = false;
+      if (styles.timestampPlacement === 'inside') {
+        const lastWidth = lineWidths[lineWidths.length - 1] ?? 0;
+        if (lastWidth + 8 + timestampWidth <= maxTextWidth) {
+          lineWidths[lineWidths.length - 1] = lastWidth + 8 + timestampWidth;
+        } else {
+          timeOnOwnLine = true;
+          lineWidths.push(timestampWidth);
+        }
+      }
+
+      const innerWidth = Math.min(Math.max(headerWidth, ...lineWidths), maxTextWidth);
+      const headerHeight = showHeader ? Math.max(nameSize, TIMESTAMP_SIZE) + 6 : 0;
+      const textHeight = lines.length * LINE_HEIGHT + (timeOnOwnLine ? TIMESTAMP_SIZE + 4 : 0);
+      const bubbleWidth = innerWidth + bubbleLeft + bubbleRight;
+      const bubbleHeight = bubbleTop + headerHeight + textHeight + bubbleBottom;
+      const bubbleX = alignEnd
+        ? padLeft + contentWidth - avatarSpace - marginEnd - bubbleWidth
+        : padLeft + avatarSpace + marginStart;
+      detailsX = alignEnd ? bubbleX + bubbleWidth : bubbleX;
+      detailsAnchor = alignEnd ? 'end' : 'start';
+
+      parts.push(`<rect x="${toX(bubbleX, bubbleWidth)}" y="${y}" width="${bubbleWidth}" height="${bubbleHeight}" rx="${parseCssLength(messageStyles.borderRadius)}" fill="${escapeXml(resolveColor(messageStyles.background))}"/>`);
+
+      const textX = bubbleX + bubbleLeft;
+      let textY = y + bubbleTop;
+      textY += drawHeader(textX, textY);
+      lines.forEach((line) => {
+        parts.push(text(textX, textY + 17, line, TEXT_SIZE, textColor));
+        textY += LINE_HEIGHT;
+      });
+      if (styles.timestampPlacement === 'inside') {
+        const timeY = timeOnOwnLine ? textY + TIMESTAMP_SIZE : textY - 4;
+        parts.push(text(bubbleX + bubbleWidth - bubbleRight, timeY, message.timestamp, TIMESTAMP_SIZE, timeColor, 400, 'end'));
+      }
+      y += bubbleHeight;
+
+      if (styles.timestampPlacement === 'below') {
+        const timeX = alignEnd ? bubbleX + bubbleWidth - 6 : bubbleX + 6;
+        parts.push(text(timeX, y + 2 + TIMESTAMP_SIZE, message.timestamp, TIMESTAMP_SIZE, timeColor, 400, alignEnd ? 'end' : 'start'));
+        y += TIMESTAMP_SIZE + 6;
+      }
+    }
+
+    message.details?.forEach((detail) => {
+      parts.push(text(detailsX, y + 4 + TIMESTAMP_SIZE, detail, TIMESTAMP_SIZE, timeColor, 400, detailsAnchor));
+      y += TIMESTAMP_SIZE + 6;
+    });
+
+    y = Math.max(y, top + (showAvatar ? AVATAR_SIZE : 0)) + 4 + MESSAGE_GAP;
+  });
+
+  const height = Math.ceil(y + padBottom);
+  const background = transparent
+    ? ''
+    : `<rect width="${width}" height="${height}" rx="${parseCssLength(styles.container.borderRadius)}" fill="${escapeXml(resolveColor(styles.container.background))}"/>`;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT_FAMILY)}">`,
+    background,
+    ...parts,
+    '</svg>',
+  ].join('');
+
+  return { svg, width, height };
+}
+
+/**
+ * Renders an SVG image to a PNG in the browser, at twice the size for sharp text
+ */
+export function svgToPngBlob(image: ChatImage, scale = 2): Promise<Blob> {
+  return svgToImageBlob(image, 'image/png', scale);
+}
+
+/**
+ * Renders an SVG image to a bitmap format in the browser. JPEG has no transparency,
+ * so the SVG should paint its own background.
+ */
+export function svgToImageBlob({ svg, width, height }: ChatImage, type: 'image/png' | 'image/jpeg', scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error(`Could not create ${type}`))), type, 0.92);
+    };
+    image.onerror = () => reject(new Error('Could not load SVG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+/**
+ * Saves a file through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
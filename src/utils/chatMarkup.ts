@@ -0,0 +1,140 @@
+// A Slack-like markup subset for chat messages and examples:
+// *bold*, _italic_, `code`, ```code blocks```, @mentions, <https://example.com|links> and bare URLs.
+// Text comes from translations on a remote bucket, so it is only ever turned into these
+// nodes and rendered as React elements - never as HTML.
+
+export type MarkupInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkupInline[] }
+  | { type: 'italic'; children: MarkupInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'mention'; name: string }
+  | { type: 'link'; href: string; text: string };
+
+export type MarkupNode = MarkupInline | { type: 'codeBlock'; text: string };
+
+// Only these schemes become links; anything else (javascript:, data:…) stays plain text
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const CODE_BLOCK_PATTERN = /```\n?([\s\S]*?)\n?```/g;
+
+// Letters in scripts that separate words with spaces. Emphasis can't start or end inside
+// one of their words (snake_case, 2*3*4), but Korean particles may follow it (*3단계*에서).
+const WORD = '[\\p{Script=Latin}\\p{Script=Cyrillic}\\p{Script=Greek}\\p{N}]';
+
+const INLINE_PATTERN = new RegExp([
+  // 1: inline code
+  '`([^`\\n]+)`',
+  // 2, 3: <url> or <url|label>
+  '<((?:https?:\\/\\/|mailto:)[^|>\\s]+)(?:\\|([^>\\n]+))?>',
+  // 4: bare URL, without trailing punctuation
+  '(https?:\\/\\/[^\\s<>]*[^\\s<>.,;:!?)\'"])',
+  // 5: @mention, not the middle of an email address
+  '(?<![\\p{L}\\p{N}_.])@([\\p{L}\\p{N}](?:[\\p{L}\\p{N}._-]*[\\p{L}\\p{N}])?)',
+  // 6: *bold*
+  `(?<!${WORD}|\\*)\\*(?!\\s)([^*\\n]+?)(?<!\\s)\\*(?!${WORD}|\\*)`,
+  // 7: _italic_
+  `(?<!${WORD}|_)_(?!\\s)([^_\\n]+?)(?<!\\s)_(?!${WORD}|_)`,
+].join('|'), 'gu');
+
+/**
+ * Returns the URL if it is absolute and uses a safe scheme, otherwise null
+ */
+export function toSafeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function pushText(nodes: MarkupInline[], text: string) {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+}
+
+function parseInline(text: string): MarkupInline[] {
+  const nodes: MarkupInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, code, linkUrl, linkLabel, bareUrl, mention, bold, italic] = match;
+    pushText(nodes, text.slice(lastIndex, match.index));
+    lastIndex = match.index + whole.length;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (linkUrl !== undefined || bareUrl !== undefined) {
+      const url = linkUrl ?? bareUrl;
+      const href = toSafeHref(url);
+      if (href) {
+        nodes.push({ type: 'link', href, text: linkLabel?.trim() || url });
+      } else {
+        pushText(nodes, whole);
+      }
+    } else if (mention !== undefined) {
+      nodes.push({ type: 'mention', name: mention });
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(bold) });
+    } else if (italic !== undefined) {
+      nodes.push({ type: 'italic', children: parseInline(italic) });
+    }
+  }
+
+  pushText(nodes, text.slice(lastIndex));
+  return nodes;
+}
+
+/**
+ * Splits a message into formatted nodes. Code blocks are taken out first,
+ * so nothing inside them is formatted.
+ */
+export function parseChatMarkup(text: string): MarkupNode[] {
+  const nodes: MarkupNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CODE_BLOCK_PATTERN)) {
+    nodes.push(...parseInline(text.slice(lastIndex, match.index)));
+    nodes.push({ type: 'codeBlock', text: match[1] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  nodes.push(...parseInline(text.slice(lastIndex)));
+  return nodes;
+}
+
+function inlineToPlainText(node: MarkupInline): string {
+  switch (node.type) {
+    case 'bold':
+    case 'italic':
+      return node.children.map(inlineToPlainText).join('');
+    case 'mention':
+      return `@${node.name}`;
+    default:
+      return node.text;
+  }
+}
+
+/**
+ * The message without its markup, as it reads on screen - used where
+ * formatting can't be drawn, such as exported images
+ */
+export function chatMarkupToPlainText(text: string): string {
+  let plain = '';
+  for (const node of parseChatMarkup(text)) {
+    if (node.type === 'codeBlock') {
+      // Code blocks sit on lines of their own
+      plain += `${plain && !plain.endsWith('\n') ? '\n' : ''}${node.text}\n`;
+    } else {
+      const part = inlineToPlainText(node);
+      plain += plain.endsWith('\n') && part.startsWith('\n') ? part.slice(1) : part;
+    }
+  }
+  return plain.replace(/\n$/, '');
+}
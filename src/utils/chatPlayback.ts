@@ -0,0 +1,125 @@
+// Compressed clock used to replay a conversation:
+// every simulated hour between two messages adds this much real playback time
+export const MS_PER_SIMULATED_HOUR = 250;
+// Minimum real time between two messages, so back-to-back replies stay readable
+export const MIN_STEP_MS = 1500;
+// How long the typing indicator is shown before a message appears
+export const TYPING_MS = 1200;
+// How often the playback clock advances while playing
+export const PLAYBACK_TICK_MS = 50;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface PlaybackStep {
+  messageIndex: number;
+  startMs: number; // Real playback time when the wait for this message begins
+  typingStartMs: number; // Real playback time when the typing indicator appears
+  endMs: number; // Real playback time when the message is shown
+  instant: number; // Simulated time the message was sent
+}
+
+export interface PlaybackTimeline {
+  steps: PlaybackStep[];
+  totalMs: number;
+}
+
+export interface PlaybackFrame {
+  visibleCount: number; // Number of messages already sent
+  typingIndex: number | null; // Message currently being typed, if any
+  elapsedMs: number; // Simulated time since the first message
+  currentInstant: Date | null; // Simulated "now", null before the first message
+}
+
+/**
+ * Builds a playback timeline from the instants messages were sent.
+ * Long waits take proportionally longer to play back, so a conversation that
+ * burns days visibly drags compared with one that is answered in hours.
+ */
+export function buildPlaybackTimeline(instants: Date[]): PlaybackTimeline {
+  const steps: PlaybackStep[] = [];
+  let cursor = 0;
+  let previousInstant = instants.length > 0 ? instants[0].getTime() : 0;
+
+  instants.forEach((date, messageIndex) => {
+    // Never let the clock run backwards, even if two messages share a timestamp
+    const instant = Math.max(date.getTime(), previousInstant);
+    const gapHours = (instant - previousInstant) / MS_PER_HOUR;
+    const durationMs = Math.round(MIN_STEP_MS + gapHours * MS_PER_SIMULATED_HOUR);
+    const endMs = cursor + durationMs;
+
+    steps.push({
+      messageIndex,
+      startMs: cursor,
+      typingStartMs: endMs - Math.min(TYPING_MS, durationMs / 2),
+      endMs,
+      instant,
+    });
+
+    cursor = endMs;
+    previousInstant = instant;
+  });
+
+  return { steps, totalMs: cursor };
+}
+
+/**
+ * Works out what is visible at a given real playback position
+ */
+export function getPlaybackFrame(timeline: PlaybackTimeline, positionMs: number): PlaybackFrame {
+  const { steps } = timeline;
+  const visibleCount = steps.filter((step) => step.endMs <= positionMs).length;
+
+  if (steps.length === 0 || visibleCount === 0) {
+    const firstStep = steps[0];
+    return {
+      visibleCount: 0,
+      typingIndex: firstStep && positionMs >= firstStep.typingStartMs ? 0 : null,
+      elapsedMs: 0,
+      currentInstant: null,
+    };
+  }
+
+  const firstInstant = steps[0].instant;
+  const lastSent = steps[visibleCount - 1];
+  const nextStep = steps[visibleCount];
+
+  if (!nextStep) {
+    return {
+      visibleCount,
+      typingIndex: null,
+      elapsedMs: lastSent.instant - firstInstant,
+      currentInstant: new Date(lastSent.instant),
+    };
+  }
+
+  // Interpolate the simulated clock across the wait for the next message
+  const fraction = (positionMs - nextStep.startMs) / (nextStep.endMs - nextStep.startMs);
+  const simulatedNow = lastSent.instant + (nextStep.instant - lastSent.instant) * Math.min(Math.max(fraction, 0), 1);
+
+  return {
+    visibleCount,
+    typingIndex: positionMs >= nextStep.typingStartMs ? nextStep.messageIndex : null,
+    elapsedMs: simulatedNow - firstInstant,
+    currentInstant: new Date(simulatedNow),
+  };
+}
+
+/**
+ * Formats a simulated duration as e.g. "2d 3h 15m", using the locale's unit names
+ */
+export function formatElapsed(elapsedMs: number, locale: string): string {
+  const totalMinutes = Math.floor(elapsedMs / 60000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  const format = (value: number, unit: 'day' | 'hour' | 'minute') =>
+    new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'narrow' }).format(value);
+
+  const parts: string[] = [];
+  if (days > 0) parts.push(format(days, 'day'));
+  if (days > 0 || hours > 0) parts.push(format(hours, 'hour'));
+  parts.push(format(minutes, 'minute'));
+
+  return parts.join(' ');
+}
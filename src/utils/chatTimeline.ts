@@ -0,0 +1,438 @@
+import type { AssignedMessage, ConversationMessage, PlatformStyles, Presence, SendTime } from '../types/chat';
+import { parseDelay } from './conversationSchema';
+import {
+  DEFAULT_WORKING_CALENDAR,
+  isWeekendDay,
+  isWithinWorkingHours,
+  isWorkingDay,
+  type WorkingCalendar,
+} from './workingCalendar';
+
+// Helper function to format date separators the way each platform does
+export function formatDateForPlatform(date: Date, locale: string, styles: PlatformStyles): string {
+  // Check if date is today or yesterday
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const checkDate = new Date(date);
+  checkDate.setHours(0, 0, 0, 0);
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  
+  const isToday = checkDate.getTime() === today.getTime();
+  const isYesterday = checkDate.getTime() === yesterday.getTime();
+  
+  if (isToday) {
+    // Use Intl.RelativeTimeFormat for "Today" in user's locale
+    // Capitalize first letter to match the platforms' format
+    const rtf = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+    const formatted = rtf.format(0, 'day');
+    return formatted.charAt(0).toUpperCase() + formatted.slice(1);
+  } else if (isYesterday) {
+    // Use Intl.RelativeTimeFormat for "Yesterday" in user's locale
+    // Capitalize first letter to match the platforms' format
+    const rtf = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+    const formatted = rtf.format(-1, 'day');
+    return formatted.charAt(0).toUpperCase() + formatted.slice(1);
+  } else {
+    // Older dates use the platform's own format,
+    // e.g. "Monday, January 15" on Slack or "January 15, 2024" on Discord
+    const formatter = new Intl.DateTimeFormat(locale, styles.dateSeparator.format);
+    return formatter.format(date);
+  }
+}
+
+// Generate dates spanning at least 3 days, extending over weekends and holidays
+// Ensures we have enough working days for supporter messages
+export function generateDates(calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): Date[] {
+  const dates: Date[] = [];
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  
+  // Start from today and go back
+  // We need at least 3 days, but if there's a weekend or holiday, we need to extend
+  // to ensure we have enough working days for supporter messages
+  let daysBack = 0;
+  let workingDayCount = 0;
+  const minDays = 3;
+  
+  // First, count how many days we need to go back to get at least 3 working days
+  while (workingDayCount < minDays || daysBack < minDays) {
+    const checkDate = new Date(today);
+    checkDate.setDate(today.getDate() - daysBack);
+    
+    if (isWorkingDay(checkDate, calendar)) {
+      workingDayCount++;
+    }
+    
+    daysBack++;
+    
+    // Safety limit to prevent infinite loop
+    if (daysBack > 14) break;
+  }
+  
+  // Generate dates from daysBack days ago to today
+  for (let i = daysBack; i >= 0; i--) {
+    const date = new Date(today);
+    date.setDate(today.getDate() - i);
+    dates.push(date);
+  }
+  
+  return dates;
+}
+
+// Check if a date is a weekend in the working calendar (Saturday and Sunday by default)
+export function isWeekend(date: Date, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): boolean {
+  return isWeekendDay(date, calendar);
+}
+
+// Time slots for messages, in minutes after midnight:
+// 9:07, 11:19, 14:00, 16:07, then evening slots 17:26, 18:31, 19:15
+const ALL_SLOTS = [9 * 60 + 7, 11 * 60 + 19, 14 * 60, 16 * 60 + 7, 17 * 60 + 26, 18 * 60 + 31, 19 * 60 + 15];
+
+/**
+ * Returns a copy of the date set to the given number of minutes after midnight
+ */
+function atMinutes(date: Date, minutes: number): Date {
+  const result = new Date(date);
+  result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return result;
+}
+
+/**
+ * Gets the slots that fall within the calendar's working hours,
+ * falling back to the start of the working day if none do
+ */
+function getBusinessHoursSlots(calendar: WorkingCalendar): number[] {
+  const slots = ALL_SLOTS.filter(minutes => {
+    const hour = Math.floor(minutes / 60);
+    return hour >= calendar.startHour && hour <= calendar.endHour;
+  });
+  return slots.length > 0 ? slots : [calendar.startHour * 60];
+}
+
+/**
+ * Returns a copy of the date at midnight
+ */
+export function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Checks if an instant is within business hours (9AM - 5PM by default)
+ * Includes the last working hour as the last valid hour
+ */
+export function isWithinBusinessHours(date: Date, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): boolean {
+  return isWithinWorkingHours(date, calendar);
+}
+
+/**
+ * Gets the next working day at the start of business hours from a given date,
+ * skipping weekends and holidays
+ */
+export function getNextBusinessDay(date: Date, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): Date {
+  const nextDate = new Date(date);
+  nextDate.setDate(date.getDate() + 1);
+  nextDate.setHours(calendar.startHour, 0, 0, 0);
+  
+  // Safety limit in case the calendar has no working days at all
+  for (let i = 0; i < 366 && !isWorkingDay(nextDate, calendar); i++) {
+    nextDate.setDate(nextDate.getDate() + 1);
+  }
+  
+  return nextDate;
+}
+
+/**
+ * Adjusts an instant to ensure it's within business hours
+ * Before business hours on a working day, waits until they start.
+ * If the time is after business hours, on a weekend or on a holiday,
+ * moves to the start of the next working day
+ */
+export function adjustToBusinessHours(date: Date, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): Date {
+  if (isWorkingDay(date, calendar) && date.getHours() < calendar.startHour) {
+    return atMinutes(date, calendar.startHour * 60);
+  }
+  
+  // First check if it's a working day, then if the time is within business hours
+  if (!isWorkingDay(date, calendar) || !isWithinBusinessHours(date, calendar)) {
+    return getNextBusinessDay(date, calendar);
+  }
+  
+  // Already within business hours on a working day
+  return date;
+}
+
+/**
+ * Generates timestamps for messages based on date progression.
+ * Support replies follow the working calendar, and every message is sent
+ * at or after the one before it. A message with its own delay in the conversation
+ * is sent that long after the previous one.
+ */
+export function generateTimestamps(
+  messages: AssignedMessage[],
+  availableDates: Date[],
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR,
+  conversation: ConversationMessage[] = []
+): AssignedMessage[] {
+  const businessHoursSlots = getBusinessHoursSlots(calendar);
+
+  // Group messages by date breaks (every 2 messages or when sender changes after support)
+  const dateBreaks: number[] = [0]; // Always show date at start
+  
+  for (let i = 1; i < messages.length; i++) {
+    const currentSender = messages[i].sender;
+    const prevSender = messages[i - 1].sender;
+    
+    // Add date break when:
+    // 1. Every 2 messages (roughly)
+    // 2. When switching from support back to you (time has passed)
+    if (i % 2 === 0 || (prevSender === 'support' && currentSender === 'you')) {
+      dateBreaks.push(i);
+    }
+  }
+  
+  // Assign dates to messages
+  const totalDateBreaks = dateBreaks.length;
+  
+  // Dates messages can go on: the available ones, followed by the days after them
+  // when a support reply has to wait past the last one
+  const dates = [...availableDates];
+  const dateAt = (dateIndex: number): Date => {
+    while (dates.length <= dateIndex) {
+      const nextDate = new Date(dates[dates.length - 1]);
+      nextDate.setDate(nextDate.getDate() + 1);
+      dates.push(nextDate);
+    }
+    return dates[dateIndex];
+  };
+  
+  // Track the previous message so every message is sent at or after it
+  let previousSentAt: Date | null = null;
+  let previousDateIndex = 0;
+  let previousDateBreakIndex = 0;
+  
+  messages.forEach((msg, index) => {
+    // Find which date break this message belongs to
+    let dateBreakIndex = 0;
+    for (let i = dateBreaks.length - 1; i >= 0; i--) {
+      if (index >= dateBreaks[i]) {
+        dateBreakIndex = i;
+        break;
+      }
+    }
+    
+    // Map date break to available dates (working backwards from today),
+    // never before the date of the previous message
+    let mappedDateIndex = Math.max(
+      previousDateIndex,
+      Math.min(availableDates.length - 1, availableDates.length - totalDateBreaks + dateBreakIndex)
+    );
+    
+    // Support never replies on a weekend or holiday: wait for the next working day,
+    // even if it means the reply is on a later date than the message it answers
+    if (msg.sender === 'support') {
+      // Safety limit in case the calendar has no working days at all
+      for (let i = 0; i < 366 && !isWorkingDay(dateAt(mappedDateIndex), calendar); i++) {
+        mappedDateIndex++;
+      }
+    }
+    
+    const messageDate = dateAt(mappedDateIndex);
+    
+    // Generate time of day with chronological ordering
+    // For support messages, only use business hours slots
+    // For user messages, can use any slot
+    const times = msg.sender === 'support' ? businessHoursSlots : ALL_SLOTS;
+    
+    // The first message on a date gets a base time based on its date break,
+    // later ones the next slot after the previous message (or the same time once slots run out)
+    const previousMinutes = previousSentAt && startOfDay(previousSentAt).getTime() === startOfDay(messageDate).getTime()
+      ? previousSentAt.getHours() * 60 + previousSentAt.getMinutes()
+      : null;
+    const minutes = previousMinutes === null
+      ? times[Math.min(dateBreakIndex, times.length - 1)]
+      : times.find(slot => slot > previousMinutes) ?? previousMinutes;
+    
+    let sentAt = atMinutes(messageDate, minutes);
+    
+    if (previousSentAt && conversation[index]?.delay !== undefined) {
+      // The conversation says how long after the previous message this one is sent
+      sentAt = getReplyTime(previousSentAt, conversation[index], calendar);
+    } else if (msg.sender === 'support') {
+      // For support messages, ensure the time is within business hours,
+      // moving on to the next working day if it isn't
+      sentAt = adjustToBusinessHours(sentAt, calendar);
+    }
+    while (startOfDay(dateAt(mappedDateIndex)).getTime() < startOfDay(sentAt).getTime()) {
+      mappedDateIndex++;
+    }
+    
+    // A new date break starts whenever the conversation moves to another day
+    if (previousSentAt && startOfDay(sentAt).getTime() !== startOfDay(previousSentAt).getTime()) {
+      previousDateBreakIndex++;
+    }
+    msg.dateBreakIndex = previousDateBreakIndex;
+    
+    previousSentAt = sentAt;
+    previousDateIndex = mappedDateIndex;
+    msg.sentAt = sentAt;
+  });
+  
+  return messages;
+}
+
+// Reply delays for messages placed after the previous one (send time simulation, thread replies)
+// when they have no delay of their own:
+// you answer almost straight away, support checks the chat every couple of hours
+export const YOUR_REPLY_DELAY_MINUTES = 4;
+export const SUPPORT_REPLY_DELAY_MINUTES = 120;
+
+/**
+ * Works out when a message following another one is sent.
+ * Support replies wait for business hours.
+ */
+function getReplyTime(
+  previousSentAt: Date,
+  { sender, delay }: ConversationMessage,
+  calendar: WorkingCalendar
+): Date {
+  const defaultDelay = sender === 'support' ? SUPPORT_REPLY_DELAY_MINUTES : YOUR_REPLY_DELAY_MINUTES;
+  const delayMinutes = (delay !== undefined ? parseDelay(delay) : null) ?? defaultDelay;
+  const sentAt = new Date(previousSentAt.getTime() + delayMinutes * 60 * 1000);
+  return sender === 'support' ? adjustToBusinessHours(sentAt, calendar) : sentAt;
+}
+
+/**
+ * Gets someone's presence at an instant: active during working hours, away otherwise
+ */
+export function getPresence(date: Date, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): Presence {
+  return isWorkingDay(date, calendar) && isWithinBusinessHours(date, calendar) ? 'active' : 'away';
+}
+
+/**
+ * Adds presence, reactions, edits and thread replies once a message has its send time.
+ * Thread replies follow their parent message one after another.
+ */
+function withMessageDetails(
+  message: AssignedMessage,
+  { reactions, edits, thread }: ConversationMessage,
+  calendar: WorkingCalendar
+): AssignedMessage {
+  const detailed: AssignedMessage = { ...message, presence: getPresence(message.sentAt, calendar) };
+  if (reactions) detailed.reactions = reactions;
+  if (edits) detailed.edited = true;
+  if (thread && thread.length > 0) {
+    let previousSentAt = message.sentAt;
+    detailed.thread = thread.map((reply) => {
+      const sentAt = getReplyTime(previousSentAt, reply, calendar);
+      previousSentAt = sentAt;
+      return withMessageDetails(
+        { text: reply.text, sender: reply.sender, sentAt, dateBreakIndex: message.dateBreakIndex, presence: 'active' },
+        reply,
+        calendar
+      );
+    });
+  }
+  return detailed;
+}
+
+/**
+ * Processes conversation messages and assigns timestamps to them
+ * Senders come from the conversation itself
+ */
+export function assignMessagesToUsers(
+  conversation: ConversationMessage[],
+  availableDates: Date[],
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): AssignedMessage[] {
+  const assignedMessages: AssignedMessage[] = conversation.map(({ text, sender }) => ({
+    text,
+    sender,
+    sentAt: new Date(), // Will be assigned by generateTimestamps
+    dateBreakIndex: 0, // Will be assigned by generateTimestamps
+    presence: 'active', // Will be assigned once the send time is known
+  }));
+  
+  return generateTimestamps(assignedMessages, availableDates, calendar, conversation)
+    .map((message, index) => withMessageDetails(message, conversation[index], calendar));
+}
+
+/**
+ * Gets the most recent instant, at or before now, matching a chosen send time,
+ * e.g. last Friday at 4:55 PM. Later today means the same day last week.
+ */
+export function getSendTimeAnchor(sendTime: SendTime, now: Date = new Date()): Date {
+  const anchor = atMinutes(now, sendTime.minutes);
+  anchor.setDate(anchor.getDate() - ((now.getDay() - sendTime.day + 7) % 7));
+  if (anchor > now) {
+    anchor.setDate(anchor.getDate() - 7);
+  }
+  return anchor;
+}
+
+/**
+ * Works out when each message is sent if the first one goes out at a given instant.
+ * Support only replies within business hours, so every round trip that
+ * lands after hours or on a day off costs the wait until the next working day.
+ */
+export function simulateConversation(
+  conversation: ConversationMessage[],
+  firstSentAt: Date,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): AssignedMessage[] {
+  let previousSentAt = firstSentAt;
+  let dateBreakIndex = 0;
+  
+  return conversation.map((message, index) => {
+    let sentAt = firstSentAt;
+    
+    if (index > 0) {
+      sentAt = getReplyTime(previousSentAt, message, calendar);
+      // Start a new date break whenever the conversation moves to another day
+      if (startOfDay(sentAt).getTime() !== startOfDay(previousSentAt).getTime()) {
+        dateBreakIndex++;
+      }
+    }
+    
+    previousSentAt = sentAt;
+    return withMessageDetails(
+      { text: message.text, sender: message.sender, sentAt, dateBreakIndex, presence: 'active' },
+      message,
+      calendar
+    );
+  });
+}
+
+/**
+ * Times a conversation the way the chat examples show it: from the chosen send time
+ * when there is one, otherwise spread over the last few days up to today
+ */
+export function scheduleConversation(
+  conversation: ConversationMessage[],
+  sendTime: SendTime | null,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): AssignedMessage[] {
+  if (sendTime) {
+    return simulateConversation(conversation, getSendTimeAnchor(sendTime), calendar);
+  }
+  return assignMessagesToUsers(conversation, generateDates(calendar), calendar);
+}
+
+/**
+ * Formats the time of day a message was sent, in the locale's own clock
+ * (e.g. "9:07 AM" in English, "09:07" in German).
+ * Pass a time zone to show the time as someone elsewhere sees it.
+ */
+export function formatMessageTime(date: Date, locale: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(locale, { timeStyle: 'short', timeZone }).format(date);
+}
+
+/**
+ * Gets the localized name of a time zone, e.g. "Eastern Time" or "Nordamerikanische Ostküstenzeit"
+ */
+export function formatTimeZoneName(timeZone: string, locale: string, date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'longGeneric' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
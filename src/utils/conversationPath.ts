@@ -0,0 +1,197 @@
+import type {
+  AssignedMessage,
+  ConversationMessage,
+  ConversationPath,
+  ConversationPathOption,
+  ConversationPathStep,
+} from '../types/chat';
+import { parseDelay } from './conversationSchema';
+import { simulateConversation } from './chatTimeline';
+import { DEFAULT_WORKING_CALENDAR, type WorkingCalendar } from './workingCalendar';
+
+export interface ConversationPathParseResult {
+  path: ConversationPath | null; // null when the script has no usable first step
+  errors: string[];
+}
+
+export interface ConversationPathWalk {
+  messages: ConversationMessage[]; // Your choices and the replies, ready to simulate
+  stepId: string | null; // The step waiting for a choice, null once the conversation is over
+}
+
+export interface ConversationPathSummary {
+  elapsedMs: number; // From your first message to the last reply
+  sentCount: number; // Messages you sent
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+function parseOption(value: unknown, path: string, errors: string[]): ConversationPathOption | null {
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected an option object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const { text, reply, delay, next } = value;
+
+  if (!isText(text)) {
+    errors.push(`${path}.text: expected a non-empty string`);
+  }
+  if (!isText(reply)) {
+    errors.push(`${path}.reply: expected a non-empty string`);
+  }
+  if (delay !== undefined && (typeof delay !== 'string' || parseDelay(delay) === null)) {
+    errors.push(`${path}.delay: expected a delay such as "45m", "2h" or "1d 3h"`);
+  }
+  if (next !== undefined && !isText(next)) {
+    errors.push(`${path}.next: expected the name of a step`);
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  const option: ConversationPathOption = { text: text as string, reply: reply as string };
+  if (delay !== undefined) option.delay = delay as string;
+  if (next !== undefined) option.next = next as string;
+  return option;
+}
+
+function parseStep(value: unknown, path: string, errors: string[]): ConversationPathStep | null {
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected a step object`);
+    return null;
+  }
+  if (!isText(value.prompt)) {
+    errors.push(`${path}.prompt: expected a non-empty string`);
+    return null;
+  }
+  if (!Array.isArray(value.options)) {
+    errors.push(`${path}.options: expected an array of options`);
+    return null;
+  }
+
+  const options = value.options
+    .map((option, index) => parseOption(option, `${path}.options[${index}]`, errors))
+    .filter((option): option is ConversationPathOption => option !== null);
+  return { prompt: value.prompt, options };
+}
+
+/**
+ * Validates the branching script from the locale files (`path.script`).
+ * Like parseConversation, broken options are left out and reported, and so are
+ * steps left without options and options leading to a step that doesn't exist.
+ */
+export function parseConversationPath(value: unknown): ConversationPathParseResult {
+  const errors: string[] = [];
+
+  if (!isRecord(value) || !isRecord(value.steps)) {
+    return { path: null, errors: ['script.steps: expected an object of steps'] };
+  }
+
+  const steps: Record<string, ConversationPathStep> = {};
+  Object.entries(value.steps).forEach(([id, entry]) => {
+    const step = parseStep(entry, `script.steps.${id}`, errors);
+    if (step) steps[id] = step;
+  });
+
+  // Dropping a step can strand the options leading to it, so repeat until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    Object.entries(steps).forEach(([id, step]) => {
+      const options = step.options.filter((option, index) => {
+        if (option.next === undefined || option.next in steps) return true;
+        errors.push(`script.steps.${id}.options[${index}].next: no step called "${option.next}"`);
+        return false;
+      });
+      if (options.length === 0) {
+        errors.push(`script.steps.${id}: expected at least one option`);
+        delete steps[id];
+        changed = true;
+      } else if (options.length !== step.options.length) {
+        steps[id] = { ...step, options };
+        changed = true;
+      }
+    });
+  }
+
+  if (!isText(value.start) || !(value.start in steps)) {
+    errors.push('script.start: expected the name of a step');
+    return { path: null, errors };
+  }
+
+  return { path: { start: value.start, steps }, errors };
+}
+
+/**
+ * Follows the options picked so far (one index per step) and turns them into
+ * a conversation: each of your messages followed by the coworker's reply
+ */
+export function walkConversationPath(path: ConversationPath, choices: number[]): ConversationPathWalk {
+  const messages: ConversationMessage[] = [];
+  let stepId: string | null = path.start;
+
+  for (const choice of choices) {
+    const option: ConversationPathOption | undefined = stepId ? path.steps[stepId]?.options[choice] : undefined;
+    if (!option) break;
+
+    messages.push({ sender: 'you', text: option.text });
+    messages.push({ sender: 'support', text: option.reply, ...(option.delay !== undefined && { delay: option.delay }) });
+    stepId = option.next ?? null;
+  }
+
+  return { messages, stepId };
+}
+
+/**
+ * Lists every way through the script as the options picked at each step.
+ * A step already on the way there is never revisited, so loops in a script end.
+ */
+export function listConversationPaths(path: ConversationPath): number[][] {
+  const routes: number[][] = [];
+
+  const visit = (stepId: string, choices: number[], visited: Set<string>) => {
+    path.steps[stepId].options.forEach((option, index) => {
+      const route = [...choices, index];
+      if (option.next === undefined || visited.has(option.next)) {
+        routes.push(route);
+      } else {
+        visit(option.next, route, new Set(visited).add(option.next));
+      }
+    });
+  };
+
+  visit(path.start, [], new Set([path.start]));
+  return routes;
+}
+
+export function summarizeConversationPath(timeline: AssignedMessage[]): ConversationPathSummary {
+  const first = timeline[0];
+  const last = timeline[timeline.length - 1];
+  return {
+    elapsedMs: first && last ? last.sentAt.getTime() - first.sentAt.getTime() : 0,
+    sentCount: timeline.filter((message) => message.sender === 'you').length,
+  };
+}
+
+/**
+ * Replays every way through the script from the same first message and returns the quickest,
+ * so business hours count just as they did for the visitor's own choices
+ */
+export function findFastestConversationPath(
+  path: ConversationPath,
+  firstSentAt: Date,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): { choices: number[]; elapsedMs: number } {
+  return listConversationPaths(path)
+    .map((choices) => {
+      const timeline = simulateConversation(walkConversationPath(path, choices).messages, firstSentAt, calendar);
+      return { choices, elapsedMs: summarizeConversationPath(timeline).elapsedMs };
+    })
+    .reduce((fastest, route) => (route.elapsedMs < fastest.elapsedMs ? route : fastest));
+}
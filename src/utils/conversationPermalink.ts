@@ -0,0 +1,82 @@
+import type { ConversationMessage, ConversationType } from '../types/chat';
+import { parseConversation } from './conversationSchema';
+
+// Page with the conversation builder; the conversations themselves travel in the URL hash,
+// so they are never sent to a server
+export const BUILDER_PATH = '/builder';
+export const PERMALINK_HASH_KEY = 'c';
+
+// Bumped whenever the payload format changes, so old links can still be told apart
+const PERMALINK_VERSION = 1;
+
+export type ConversationPair = Record<ConversationType, ConversationMessage[]>;
+
+export function isBuilderPath(pathname: string): boolean {
+  return pathname.replace(/\/+$/, '') === BUILDER_PATH;
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const body = new Response(bytes).body;
+  if (!body) {
+    throw new Error('Streams are not available');
+  }
+  return new Uint8Array(await new Response(body.pipeThrough(stream)).arrayBuffer());
+}
+
+/**
+ * Packs both conversations into a short, URL-safe code: JSON, deflated, then base64url
+ */
+export async function encodeConversations(conversations: ConversationPair): Promise<string> {
+  const json = JSON.stringify({ v: PERMALINK_VERSION, bad: conversations.bad, good: conversations.good });
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return toBase64Url(compressed);
+}
+
+/**
+ * Unpacks a code made by encodeConversations. The messages are validated like the
+ * locale examples, so a hand-edited link can't inject anything unexpected.
+ * Returns null if the code is damaged or from an unknown version.
+ */
+export async function decodeConversations(code: string): Promise<ConversationPair | null> {
+  try {
+    const json = await transform(fromBase64Url(code), new DecompressionStream('deflate-raw'));
+    const payload: unknown = JSON.parse(new TextDecoder().decode(json));
+    if (typeof payload !== 'object' || payload === null || (payload as { v?: unknown }).v !== PERMALINK_VERSION) {
+      return null;
+    }
+    const { bad, good } = payload as Record<string, unknown>;
+    return {
+      bad: parseConversation(bad).messages,
+      good: parseConversation(good).messages,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the permalink code from a URL hash such as "#c=…"
+ */
+export function readPermalinkCode(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(PERMALINK_HASH_KEY);
+}
+
+/**
+ * Builds the full link to the builder with the conversations in its hash
+ */
+export function buildPermalink(code: string, origin: string): string {
+  return `${origin}${BUILDER_PATH}#${PERMALINK_HASH_KEY}=${code}`;
+}
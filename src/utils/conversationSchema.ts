@@ -0,0 +1,123 @@
+import type { ChatSender, ConversationMessage, ConversationReaction } from '../types/chat';
+
+export interface ConversationParseResult {
+  messages: ConversationMessage[]; // Every entry that passed validation
+  errors: string[]; // One entry per problem, e.g. "messages[2].sender: expected \"you\" or \"support\""
+}
+
+const SENDERS: ChatSender[] = ['you', 'support'];
+const DELAY_PATTERN = /^(?:(\d+)d)?\s*(?:(\d+)h)?\s*(?:(\d+)m)?$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a relative delay such as "45m", "2h" or "1d 3h" into minutes
+ * Returns null if the delay is not in that format
+ */
+export function parseDelay(delay: string): number | null {
+  const match = DELAY_PATTERN.exec(delay.trim());
+  if (!match || !match.slice(1).some(Boolean)) {
+    return null;
+  }
+  const [days, hours, minutes] = match.slice(1).map((part) => Number(part ?? 0));
+  return (days * 24 + hours) * 60 + minutes;
+}
+
+function parseReactions(value: unknown, path: string, errors: string[]): ConversationReaction[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of reactions`);
+    return undefined;
+  }
+
+  const reactions: ConversationReaction[] = [];
+  value.forEach((reaction, index) => {
+    const reactionPath = `${path}[${index}]`;
+    if (!isRecord(reaction) || typeof reaction.emoji !== 'string' || reaction.emoji.trim() === '') {
+      errors.push(`${reactionPath}.emoji: expected a non-empty string`);
+      return;
+    }
+    if (reaction.count !== undefined && (!Number.isInteger(reaction.count) || (reaction.count as number) < 1)) {
+      errors.push(`${reactionPath}.count: expected a positive whole number`);
+      return;
+    }
+    reactions.push({ emoji: reaction.emoji, count: (reaction.count as number | undefined) ?? 1 });
+  });
+  return reactions;
+}
+
+function parseMessage(
+  value: unknown,
+  index: number,
+  path: string,
+  errors: string[],
+  allowThread: boolean
+): ConversationMessage | null {
+  // Plain strings are shorthand for a message, alternating senders starting with "you"
+  if (typeof value === 'string') {
+    return { text: value, sender: index % 2 === 0 ? 'you' : 'support' };
+  }
+
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected a string or a message object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const { text, sender, delay, reactions, edits, thread } = value;
+
+  if (typeof text !== 'string' || text.trim() === '') {
+    errors.push(`${path}.text: expected a non-empty string`);
+  }
+  if (!SENDERS.includes(sender as ChatSender)) {
+    errors.push(`${path}.sender: expected "you" or "support"`);
+  }
+  if (delay !== undefined && (typeof delay !== 'string' || parseDelay(delay) === null)) {
+    errors.push(`${path}.delay: expected a delay such as "45m", "2h" or "1d 3h"`);
+  }
+  if (edits !== undefined && (!Array.isArray(edits) || !edits.every((edit) => typeof edit === 'string'))) {
+    errors.push(`${path}.edits: expected an array of earlier versions of the text`);
+  }
+  if (thread !== undefined && !allowThread) {
+    errors.push(`${path}.thread: thread replies cannot have threads of their own`);
+  } else if (thread !== undefined && !Array.isArray(thread)) {
+    errors.push(`${path}.thread: expected an array of messages`);
+  }
+
+  const parsedReactions = reactions === undefined ? undefined : parseReactions(reactions, `${path}.reactions`, errors);
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  const message: ConversationMessage = { text: text as string, sender: sender as ChatSender };
+  if (delay !== undefined) message.delay = delay as string;
+  if (parsedReactions && parsedReactions.length > 0) message.reactions = parsedReactions;
+  if (Array.isArray(edits) && edits.length > 0) message.edits = edits as string[];
+  if (Array.isArray(thread)) {
+    message.thread = parseEntries(thread, `${path}.thread`, errors, false);
+  }
+  return message;
+}
+
+function parseEntries(entries: unknown[], path: string, errors: string[], allowThreads: boolean): ConversationMessage[] {
+  return entries
+    .map((entry, index) => parseMessage(entry, index, `${path}[${index}]`, errors, allowThreads))
+    .filter((message): message is ConversationMessage => message !== null);
+}
+
+/**
+ * Validates a conversation from the locale files (`problem.example.*.messages`).
+ * Invalid messages are left out and reported in `errors`, so one broken
+ * translation never takes the whole example down.
+ */
+export function parseConversation(value: unknown): ConversationParseResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(value)) {
+    return { messages: [], errors: ['messages: expected an array'] };
+  }
+
+  const messages = parseEntries(value, 'messages', errors, true);
+  return { messages, errors };
+}
@@ -0,0 +1,112 @@
+// Below this many words, whatever follows the opener is too thin to act on
+export const MIN_CONTEXT_WORDS = 5;
+
+export type LintIssueId = 'greetingOnly' | 'teaser' | 'missingContext';
+
+export interface LintResult {
+  issues: LintIssueId[];
+  opener: string; // Leading greetings and pings, as typed
+  details: string; // Everything after the opener, as typed
+}
+
+// Punctuation and whitespace that can surround or separate openers ("¿", "…", "，" etc.)
+const SEPARATOR_PATTERN = /^[\p{P}\p{Z}\s]+/u;
+const TRAILING_SEPARATOR_PATTERN = /[\p{P}\p{Z}\s]+$/u;
+const TEASER_PATTERN = /(\.{2,}|…)\s*$/u;
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a pattern matching any greeting or ping from the locale corpora
+ * (`rotatingMessages` and `examples.bad`) at the start of a message.
+ * Each character may repeat, so "heyyy" and "yooooo" still count.
+ */
+export function buildOpenerPattern(corpus: string[]): RegExp | null {
+  const phrases = Array.from(new Set(
+    corpus
+      .map((phrase) => phrase.replace(SEPARATOR_PATTERN, '').replace(TRAILING_SEPARATOR_PATTERN, ''))
+      .filter((phrase) => phrase.length > 0)
+      .map((phrase) => Array.from(phrase).map((char) => `${escapeRegExp(char)}+`).join(''))
+  ));
+
+  if (phrases.length === 0) return null;
+
+  // Longest first so "buenos días" wins over "buenos"
+  phrases.sort((a, b) => b.length - a.length);
+  return new RegExp(`^(?:${phrases.join('|')})(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Counts words with the locale's word segmentation, so languages
+ * without spaces between words are still counted sensibly
+ */
+export function countWords(text: string, locale: string): number {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+    return Array.from(segmenter.segment(text)).filter((segment) => segment.isWordLike).length;
+  }
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Checks a first message for greeting-only or context-free openers
+ */
+export function lintFirstMessage(text: string, openerPattern: RegExp | null, locale: string): LintResult {
+  const trimmed = text.trim();
+  let rest = trimmed;
+  let openerEnd = 0;
+
+  // Strip every leading greeting or ping, e.g. "hi, you there?"
+  while (openerPattern) {
+    const withoutSeparator = rest.replace(SEPARATOR_PATTERN, '');
+    const match = openerPattern.exec(withoutSeparator);
+    if (!match) break;
+    rest = withoutSeparator.slice(match[0].length);
+    openerEnd = trimmed.length - rest.length;
+  }
+
+  const opener = trimmed.slice(0, openerEnd).trim();
+  const details = rest.replace(SEPARATOR_PATTERN, '').trim();
+  const detailWords = countWords(details, locale);
+  const issues: LintIssueId[] = [];
+
+  if (trimmed.length === 0) {
+    return { issues, opener, details };
+  }
+
+  // A greeting plus a single word is usually just a name ("hi John")
+  if (detailWords === 0 || (opener.length > 0 && detailWords <= 1)) {
+    issues.push('greetingOnly');
+  } else if (detailWords < MIN_CONTEXT_WORDS) {
+    issues.push('missingContext');
+  }
+
+  if (TEASER_PATTERN.test(trimmed)) {
+    issues.push('teaser');
+  }
+
+  return { issues, opener, details };
+}
+
+/**
+ * Gets the greeting the locale's good example opens with ("Hi - ...")
+ */
+export function getExampleGreeting(goodExample: string): string {
+  const separatorIndex = goodExample.indexOf(' - ');
+  return separatorIndex > 0 ? goodExample.slice(0, separatorIndex) : '';
+}
+
+/**
+ * Rewrites a message to follow the good example: greeting, then the request
+ * with placeholders for the context that is still missing
+ */
+export function suggestRewrite(result: LintResult, greeting: string, placeholders: string[]): string {
+  let details = result.details.replace(TEASER_PATTERN, '').trim();
+  if (details && !/\p{P}$/u.test(details)) {
+    details += '.';
+  }
+  const body = [details, ...placeholders].filter(Boolean).join(' ');
+  return greeting ? `${greeting} - ${body}` : body;
+}
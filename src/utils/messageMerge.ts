@@ -0,0 +1,129 @@
+import { buildOpenerPattern, countWords, escapeRegExp, lintFirstMessage } from './messageLinter';
+
+export type MergeFragmentKind = 'greeting' | 'filler' | 'content';
+
+export type ContextSection = 'what' | 'where' | 'tried';
+
+export const CONTEXT_SECTIONS: ContextSection[] = ['what', 'where', 'tried'];
+
+export interface MergeFragment {
+  line: string; // As pasted
+  kind: MergeFragmentKind;
+  text: string; // What goes into the merged message, empty for dropped lines
+}
+
+export interface MergeCorpus {
+  greetingPattern: RegExp | null; // Greetings and pings (`rotatingMessages` and `examples.bad`)
+  fillerPattern: RegExp | null; // The same plus the locale's filler phrases (`merge.filler`)
+  cuePatterns: Record<ContextSection, RegExp | null>; // Words that show a section is already covered
+}
+
+export interface MessageMergeResult {
+  fragments: MergeFragment[];
+  request: string; // The kept lines as sentences, empty if nothing was kept
+  missing: ContextSection[]; // Context the request doesn't give yet
+}
+
+export interface MergeTemplate {
+  greeting: string; // Opens the message, as in the locale's good example
+  question: string; // Placeholder for the question when no line was kept
+  sections: Record<ContextSection, { label: string; placeholder: string }>;
+}
+
+// File names, paths, URLs and code are a "where" in any language
+const LOCATION_PATTERN = /`[^`\n]+`|https?:\/\/\S+|[\p{L}\p{N}_-]{2,}\.[a-z]{1,5}\b|[\w.-]*\/[\w.-]+\/?/iu;
+const SENTENCE_END_PATTERN = /[\p{P}\p{Extended_Pictographic}]$/u;
+
+/**
+ * Builds a pattern matching any of the locale's cue words. A cue has to start a word
+ * in Latin script, but may sit right after another word in scripts like Hangul.
+ */
+export function buildCuePattern(cues: string[]): RegExp | null {
+  const phrases = cues
+    .map((cue) => cue.trim())
+    .filter((cue) => cue.length > 0)
+    .map((cue) => escapeRegExp(cue).replace(/\s+/g, '\\s+'));
+
+  if (phrases.length === 0) return null;
+
+  return new RegExp(`(?<![\\p{Script=Latin}\\p{N}])(?:${phrases.join('|')})`, 'iu');
+}
+
+export function buildMergeCorpus(
+  greetings: string[],
+  filler: string[],
+  cues: Record<ContextSection, string[]>
+): MergeCorpus {
+  return {
+    greetingPattern: buildOpenerPattern(greetings),
+    fillerPattern: buildOpenerPattern([...greetings, ...filler]),
+    cuePatterns: {
+      what: buildCuePattern(cues.what),
+      where: buildCuePattern(cues.where),
+      tried: buildCuePattern(cues.tried),
+    },
+  };
+}
+
+/**
+ * Sorts one pasted line: greetings and pings, filler such as "quick question…" or "??",
+ * or content worth keeping. Greetings in front of content are stripped off.
+ */
+export function classifyFragment(line: string, corpus: MergeCorpus, locale: string): MergeFragment {
+  const greeting = lintFirstMessage(line, corpus.greetingPattern, locale);
+  if (greeting.opener && greeting.issues.includes('greetingOnly')) {
+    return { line, kind: 'greeting', text: '' };
+  }
+
+  const filler = lintFirstMessage(line, corpus.fillerPattern, locale);
+  if (countWords(filler.details, locale) === 0) {
+    return { line, kind: 'filler', text: '' };
+  }
+
+  return { line, kind: 'content', text: greeting.details };
+}
+
+export function findMissingContext(text: string, cuePatterns: MergeCorpus['cuePatterns']): ContextSection[] {
+  return CONTEXT_SECTIONS.filter((section) => {
+    if (section === 'where' && LOCATION_PATTERN.test(text)) return false;
+    return !cuePatterns[section]?.test(text);
+  });
+}
+
+function toSentence(text: string, locale: string): string {
+  const [first = '', ...rest] = Array.from(text.trim());
+  const sentence = first.toLocaleUpperCase(locale) + rest.join('');
+  return SENTENCE_END_PATTERN.test(sentence) ? sentence : `${sentence}.`;
+}
+
+/**
+ * Merges a thread pasted one message per line into a single request,
+ * and works out which context it still lacks
+ */
+export function mergeMessages(text: string, corpus: MergeCorpus, locale: string): MessageMergeResult {
+  const fragments = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => classifyFragment(line, corpus, locale));
+
+  const request = fragments
+    .filter((fragment) => fragment.kind === 'content')
+    .map((fragment) => toSentence(fragment.text, locale))
+    .join(' ');
+
+  return { fragments, request, missing: findMissingContext(request, corpus.cuePatterns) };
+}
+
+/**
+ * Lays the merge out like the good example: greeting and request on the first line,
+ * then one labelled placeholder per missing section
+ */
+export function formatMergedMessage(result: MessageMergeResult, template: MergeTemplate): string {
+  const body = result.request || template.question;
+  const opening = template.greeting ? `${template.greeting} - ${body}` : body;
+  const sections = result.missing.map(
+    (section) => `${template.sections[section].label}: ${template.sections[section].placeholder}`
+  );
+  return sections.length > 0 ? `${opening}\n\n${sections.join('\n')}` : opening;
+}
@@ -0,0 +1,31 @@
+import { chatMarkupToPlainText } from './chatMarkup';
+import type { NotificationRules } from '../types/chat';
+
+export interface NotificationText {
+  text: string;
+  isTruncated: boolean;
+}
+
+// Cutting at a space is only worth it if it doesn't throw away most of the last line
+const WORD_BREAK_LOOKBACK = 0.25;
+
+/**
+ * The message as a notification banner shows it: without formatting, on as many lines
+ * as the system allows and cut off with "…", at a word boundary where possible
+ */
+export function truncateNotificationText(text: string, rules: NotificationRules): NotificationText {
+  const plain = chatMarkupToPlainText(text).replace(/\s+/g, ' ').trim();
+  const chars = Array.from(plain); // Keeps emoji and other surrogate pairs whole
+  const maxChars = rules.maxLines * rules.charsPerLine;
+
+  if (chars.length <= maxChars) {
+    return { text: plain, isTruncated: false };
+  }
+
+  let cut = chars.slice(0, maxChars - 1).join('');
+  const lastSpace = cut.lastIndexOf(' ');
+  if (lastSpace > cut.length * (1 - WORD_BREAK_LOOKBACK)) {
+    cut = cut.slice(0, lastSpace);
+  }
+  return { text: `${cut.replace(/[\s\p{P}]+$/u, '')}…`, isTruncated: true };
+}
@@ -0,0 +1,94 @@
+import type { QuizAnswer, QuizQuestion } from '../types/quiz';
+
+const sameIndexes = (a: number[], b: number[]) => a.length === b.length && a.every((value, index) => value === b[index]);
+
+const sortIndexes = (indexes: number[]) => [...indexes].sort((a, b) => a - b);
+
+/**
+ * The answer before the visitor touches anything: the items as shown for ordering,
+ * nothing for the other types
+ */
+export function getInitialAnswer(question: QuizQuestion): QuizAnswer | null {
+  return question.type === 'ordering' ? question.items.map((_, index) => index) : null;
+}
+
+const isIndex = (value: unknown, length: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < length;
+
+// Whether a value is an answer this question could have been given, e.g. when reading a saved session
+export function isValidAnswer(question: QuizQuestion, answer: unknown): answer is QuizAnswer {
+  switch (question.type) {
+    case 'multiple':
+      return Array.isArray(answer) && answer.every((index) => isIndex(index, question.options.length));
+    case 'trueFalse':
+      return typeof answer === 'boolean';
+    case 'ordering':
+      return (
+        Array.isArray(answer) &&
+        answer.length === question.items.length &&
+        new Set(answer).size === answer.length &&
+        answer.every((index) => isIndex(index, question.items.length))
+      );
+    default:
+      return isIndex(answer, question.options.length);
+  }
+}
+
+// Whether the answer can be submitted, e.g. at least one option ticked for multi-select
+export function isAnswerComplete(question: QuizQuestion, answer: QuizAnswer | null): boolean {
+  if (answer === null) return false;
+  return question.type === 'multiple' ? Array.isArray(answer) && answer.length > 0 : true;
+}
+
+/**
+ * Grades an answer by the question's type. Multi-select needs exactly the right options,
+ * and ordering needs every item in place.
+ */
+export function gradeAnswer(question: QuizQuestion, answer: QuizAnswer | null): boolean {
+  if (answer === null) return false;
+
+  switch (question.type) {
+    case 'multiple':
+      return Array.isArray(answer) && sameIndexes(sortIndexes(answer), sortIndexes(question.correctAnswers));
+    case 'ordering':
+      return Array.isArray(answer) && sameIndexes(answer, question.correctOrder);
+    default:
+      return answer === question.correctAnswer;
+  }
+}
+
+// Ticks or unticks an option of a multi-select question
+export function toggleOption(answer: QuizAnswer | null, index: number): number[] {
+  const selected = Array.isArray(answer) ? answer : [];
+  return selected.includes(index)
+    ? selected.filter((option) => option !== index)
+    : sortIndexes([...selected, index]);
+}
+
+// Moves an item of an ordering answer to another place
+export function moveItem(order: number[], from: number, to: number): number[] {
+  if (to < 0 || to >= order.length) return order;
+  const moved = [...order];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+/**
+ * Options whose explanations the feedback shows: the ones picked, then any right ones that weren't
+ */
+export function getExplainedOptions(question: QuizQuestion, answer: QuizAnswer | null): number[] {
+  switch (question.type) {
+    case 'trueFalse':
+    case 'ordering':
+      return [];
+    case 'multiple': {
+      const picked = Array.isArray(answer) ? sortIndexes(answer) : [];
+      return [...picked, ...question.correctAnswers.filter((index) => !picked.includes(index))];
+    }
+    default: {
+      const picked = typeof answer === 'number' ? [answer] : [];
+      return picked.includes(question.correctAnswer) ? picked : [...picked, question.correctAnswer];
+    }
+  }
+}
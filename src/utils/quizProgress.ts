@@ -0,0 +1,117 @@
+import { buildQuizSession } from './quizSession';
+import { isValidAnswer } from './quizGrading';
+import type { QuizAnswer, QuizProgress, QuizQuestion, QuizQuestionResult } from '../types/quiz';
+
+// Bump when QuizProgress changes shape; saved sessions of other versions are ignored
+export const QUIZ_PROGRESS_VERSION = 2;
+
+// localStorage key for the quiz session in progress
+export const QUIZ_PROGRESS_STORAGE_KEY = `quizProgress:v${QUIZ_PROGRESS_VERSION}`;
+
+/**
+ * Describes the question pool by what saved answers depend on: types, option counts and right answers.
+ * It is the same in every language, so switching language keeps a saved session, while adding,
+ * removing or reordering questions discards it.
+ */
+export function getQuestionSetFingerprint(pool: QuizQuestion[]): string {
+  return pool
+    .map((question) => {
+      switch (question.type) {
+        case 'multiple':
+          return `multiple:${question.options.length}:${question.correctAnswers.join(',')}`;
+        case 'trueFalse':
+          return `trueFalse:${question.correctAnswer}`;
+        case 'ordering':
+          return `ordering:${question.items.length}`;
+        default:
+          return `${question.type ?? 'single'}:${question.options.length}:${question.correctAnswer}`;
+      }
+    })
+    .join('|');
+}
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+function isResult(value: unknown, questionsById: Map<number, QuizQuestion>): value is QuizQuestionResult {
+  if (!isObject(value)) return false;
+  const question = questionsById.get(value.questionId as number);
+  return (
+    question !== undefined &&
+    isValidAnswer(question, value.firstAnswer) &&
+    typeof value.firstAttemptCorrect === 'boolean' &&
+    typeof value.isCorrect === 'boolean' &&
+    isCount(value.retries) &&
+    isCount(value.blackjackRounds) &&
+    typeof value.timeSpentMs === 'number' &&
+    value.timeSpentMs >= 0
+  );
+}
+
+/**
+ * Checks a saved session against the current question pool. Anything that doesn't fit,
+ * from an older version to an answer for a question that changed, discards the whole session.
+ */
+export function parseQuizProgress(value: unknown, pool: QuizQuestion[]): QuizProgress | null {
+  if (!isObject(value) || value.version !== QUIZ_PROGRESS_VERSION) return null;
+  if (value.fingerprint !== getQuestionSetFingerprint(pool) || typeof value.seed !== 'number') return null;
+
+  const session = buildQuizSession(pool, { seed: value.seed });
+  const questionsById = new Map(session.map((question) => [question.id, question]));
+  const questionIds = new Set(questionsById.keys());
+  const isQuestionIndex = (index: unknown): index is number => isCount(index) && index < session.length;
+
+  const { currentQuestionIndex, answers, answeredQuestionIds, results, pendingQuestionIndex, currentQuestionTimeMs } = value;
+  if (!isQuestionIndex(currentQuestionIndex)) return null;
+  if (pendingQuestionIndex !== null && !isQuestionIndex(pendingQuestionIndex)) return null;
+  if (typeof currentQuestionTimeMs !== 'number' || currentQuestionTimeMs < 0) return null;
+
+  const isSavedAnswer = (entry: unknown): entry is [number, QuizAnswer] => {
+    if (!Array.isArray(entry) || entry.length !== 2) return false;
+    const question = questionsById.get(entry[0]);
+    return question !== undefined && isValidAnswer(question, entry[1]);
+  };
+  if (!Array.isArray(answers) || !answers.every(isSavedAnswer)) return null;
+  if (!Array.isArray(answeredQuestionIds) || !answeredQuestionIds.every((id) => questionIds.has(id))) return null;
+  if (!Array.isArray(results) || !results.every((result) => isResult(result, questionsById))) return null;
+
+  return {
+    version: QUIZ_PROGRESS_VERSION,
+    fingerprint: value.fingerprint,
+    seed: value.seed,
+    currentQuestionIndex,
+    answers,
+    answeredQuestionIds,
+    results,
+    pendingQuestionIndex,
+    currentQuestionTimeMs,
+  };
+}
+
+// The saved session, if there is one and it still fits the question pool
+export function loadQuizProgress(pool: QuizQuestion[]): QuizProgress | null {
+  const saved = localStorage.getItem(QUIZ_PROGRESS_STORAGE_KEY);
+  if (saved === null) return null;
+
+  try {
+    const progress = parseQuizProgress(JSON.parse(saved), pool);
+    if (!progress) clearQuizProgress();
+    return progress;
+  } catch {
+    clearQuizProgress();
+    return null;
+  }
+}
+
+export function saveQuizProgress(progress: QuizProgress): void {
+  try {
+    localStorage.setItem(QUIZ_PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Storage is full or blocked - the quiz still works, it just can't be resumed
+  }
+}
+
+export function clearQuizProgress(): void {
+  localStorage.removeItem(QUIZ_PROGRESS_STORAGE_KEY);
+}
@@ -0,0 +1,63 @@
+import type { QuizAnswer, QuizQuestionResult, QuizSummary } from '../types/quiz';
+
+interface Submission {
+  questionId: number;
+  answer: QuizAnswer;
+  isCorrect: boolean;
+  timeSpentMs: number; // Since the question was last shown
+}
+
+/**
+ * Adds a submitted answer to the question's result. Only the first submission decides
+ * `firstAnswer` and `firstAttemptCorrect`; every wrong one counts as a retry.
+ */
+export function recordSubmission(
+  previous: QuizQuestionResult | undefined,
+  { questionId, answer, isCorrect, timeSpentMs }: Submission
+): QuizQuestionResult {
+  return {
+    questionId,
+    firstAnswer: previous ? previous.firstAnswer : answer,
+    firstAttemptCorrect: previous ? previous.firstAttemptCorrect : isCorrect,
+    isCorrect,
+    retries: (previous?.retries ?? 0) + (isCorrect ? 0 : 1),
+    blackjackRounds: previous?.blackjackRounds ?? 0,
+    timeSpentMs: (previous?.timeSpentMs ?? 0) + Math.max(timeSpentMs, 0),
+  };
+}
+
+// Adds the hands played at the blackjack table after a wrong answer
+export function recordBlackjackRounds(result: QuizQuestionResult, rounds: number): QuizQuestionResult {
+  return { ...result, blackjackRounds: result.blackjackRounds + rounds };
+}
+
+/**
+ * Sums up a session. `total` is the number of questions asked, so unanswered ones count against the score.
+ */
+export function summarizeResults(results: QuizQuestionResult[], total: number): QuizSummary {
+  const rightSubmissions = results.filter((result) => result.isCorrect).length;
+  const submissions = results.reduce((sum, result) => sum + result.retries, rightSubmissions);
+
+  return {
+    score: results.filter((result) => result.firstAttemptCorrect).length,
+    total,
+    accuracy: submissions === 0 ? 0 : rightSubmissions / submissions,
+    retries: results.reduce((sum, result) => sum + result.retries, 0),
+    blackjackRounds: results.reduce((sum, result) => sum + result.blackjackRounds, 0),
+    timeSpentMs: results.reduce((sum, result) => sum + result.timeSpentMs, 0),
+  };
+}
+
+/**
+ * Formats time spent on the quiz as e.g. "1m 5s", using the locale's unit names
+ */
+export function formatQuizTime(timeMs: number, locale: string): string {
+  const totalSeconds = Math.round(timeMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  const format = (value: number, unit: 'minute' | 'second') =>
+    new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'narrow' }).format(value);
+
+  return minutes > 0 ? `${format(minutes, 'minute')} ${format(seconds, 'second')}` : format(seconds, 'second');
+}
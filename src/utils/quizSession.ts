@@ -0,0 +1,161 @@
+import { isLandingSection } from '../data/landingSections';
+import type { QuizQuestion } from '../types/quiz';
+
+// How many questions from the pool one quiz session asks
+export const QUIZ_QUESTION_COUNT = 5;
+
+export interface QuizSessionOptions {
+  seed: number; // The same seed and pool always give the same session
+  count?: number;
+}
+
+/**
+ * Small seedable random number generator (mulberry32), returning numbers in [0, 1).
+ * Math.random can't be seeded, and a session has to be reproducible in tests.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A fresh seed for a new session
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Puts per-option explanations in the same order as the shuffled options
+const reorder = (items: string[] | undefined, order: number[]) => items && order.map((index) => items[index]);
+
+// Explanations only count when there is one for every option
+function readExplanations(value: unknown, options: string[]): string[] | undefined {
+  return Array.isArray(value) && value.length === options.length && value.every((item) => typeof item === 'string')
+    ? value
+    : undefined;
+}
+
+const readExplanation = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+/**
+ * Shuffles the options of a question and points the answer at the right ones again.
+ * Ordering items are shuffled too, but never left in the right order already.
+ */
+export function shuffleOptions(question: QuizQuestion, random: () => number): QuizQuestion {
+  switch (question.type) {
+    case 'trueFalse':
+      return question;
+    case 'ordering': {
+      let order = shuffle(question.items.map((_, index) => index), random);
+      if (order.length > 1 && order.every((item, index) => item === question.correctOrder[index])) {
+        order = [...order.slice(1), order[0]];
+      }
+      return {
+        ...question,
+        items: order.map((index) => question.items[index]),
+        correctOrder: question.correctOrder.map((index) => order.indexOf(index)),
+      };
+    }
+    case 'multiple': {
+      const order = shuffle(question.options.map((_, index) => index), random);
+      return {
+        ...question,
+        options: order.map((index) => question.options[index]),
+        explanations: reorder(question.explanations, order),
+        correctAnswers: question.correctAnswers.map((index) => order.indexOf(index)).sort((a, b) => a - b),
+      };
+    }
+    default: {
+      const order = shuffle(question.options.map((_, index) => index), random);
+      return {
+        ...question,
+        options: order.map((index) => question.options[index]),
+        explanations: reorder(question.explanations, order),
+        correctAnswer: order.indexOf(question.correctAnswer),
+      };
+    }
+  }
+}
+
+/**
+ * Turns `quiz.questions` from the locale files into questions, numbered by their place in the pool.
+ * Ordering items are listed in the right order there.
+ */
+export function toQuizQuestions(value: unknown): QuizQuestion[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map((entry, index): QuizQuestion => {
+    const base = {
+      id: index + 1,
+      question: entry.question,
+      learnMore: isLandingSection(entry.learnMore) ? entry.learnMore : undefined,
+    };
+    switch (entry.type) {
+      case 'multiple':
+        return {
+          ...base,
+          type: 'multiple',
+          options: entry.options,
+          correctAnswers: entry.correctAnswers,
+          explanations: readExplanations(entry.explanations, entry.options),
+        };
+      case 'trueFalse':
+        return { ...base, type: 'trueFalse', correctAnswer: entry.correctAnswer, explanation: readExplanation(entry.explanation) };
+      case 'ordering':
+        return {
+          ...base,
+          type: 'ordering',
+          items: entry.items,
+          correctOrder: entry.items.map((_: string, item: number) => item),
+          explanation: readExplanation(entry.explanation),
+        };
+      case 'rewrite':
+        return {
+          ...base,
+          type: 'rewrite',
+          chat: entry.chat,
+          options: entry.options,
+          correctAnswer: entry.correctAnswer,
+          explanations: readExplanations(entry.explanations, entry.options),
+        };
+      default:
+        return {
+          ...base,
+          options: entry.options,
+          correctAnswer: entry.correctAnswer,
+          explanations: readExplanations(entry.explanations, entry.options),
+        };
+    }
+  });
+}
+
+/**
+ * Picks `count` questions from the pool and shuffles their options.
+ * Questions keep their pool ids, so the same seed picks the same questions in every language.
+ */
+export function buildQuizSession(
+  pool: QuizQuestion[],
+  { seed, count = QUIZ_QUESTION_COUNT }: QuizSessionOptions
+): QuizQuestion[] {
+  const random = createRandom(seed);
+  return shuffle(pool, random)
+    .slice(0, count)
+    .map((question) => shuffleOptions(question, random));
+}
@@ -0,0 +1,246 @@
+import { isLandingSection } from '../data/landingSections';
+import type { SingleChoiceQuestion } from '../types/quiz';
+
+/**
+ * Checks `quiz.questions` in every locale file. toQuizQuestions trusts its input, and a session
+ * picks questions by their place in the pool, so a question missing from one locale or an answer
+ * that moved in a translation quietly grades visitors wrong. Used by the test suite and
+ * scripts/upload-translations.ts.
+ */
+
+export const QUIZ_REFERENCE_LOCALE = 'en';
+
+export interface QuizLocaleReport {
+  locale: string;
+  errors: string[]; // One entry per problem, e.g. "quiz.questions[3].correctAnswer: expected ..."
+}
+
+const QUESTION_TYPES = ['single', 'multiple', 'trueFalse', 'ordering', 'rewrite'];
+
+type Entry = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Entry => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isTextList = (value: unknown, minLength: number): value is string[] =>
+  Array.isArray(value) && value.length >= minLength && value.every(isText);
+
+const isIndex = (value: unknown, length: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < length;
+
+const typeOf = (entry: Entry) => (entry.type === undefined ? 'single' : entry.type);
+
+const choicesOf = (entry: Entry): unknown => (typeOf(entry) === 'ordering' ? entry.items : entry.options);
+
+function checkEntry(entry: unknown, path: string, errors: string[]): void {
+  if (!isObject(entry)) {
+    errors.push(`${path}: expected a question object`);
+    return;
+  }
+
+  const type = typeOf(entry);
+  if (!QUESTION_TYPES.includes(type as string)) {
+    errors.push(`${path}.type: expected one of ${QUESTION_TYPES.join(', ')}`);
+    return;
+  }
+  if (!isText(entry.question)) {
+    errors.push(`${path}.question: expected a non-empty string`);
+  }
+  if (entry.learnMore !== undefined && !isLandingSection(entry.learnMore)) {
+    errors.push(`${path}.learnMore: expected a landing page section`);
+  }
+
+  switch (type) {
+    case 'trueFalse':
+      if (typeof entry.correctAnswer !== 'boolean') {
+        errors.push(`${path}.correctAnswer: expected true or false`);
+      }
+      break;
+    case 'ordering':
+      if (!isTextList(entry.items, 2)) {
+        errors.push(`${path}.items: expected at least two non-empty strings`);
+      }
+      break;
+    default: {
+      if (!isTextList(entry.options, 2)) {
+        errors.push(`${path}.options: expected at least two non-empty strings`);
+        return;
+      }
+      const count = entry.options.length;
+      if (type === 'multiple') {
+        const answers = entry.correctAnswers;
+        if (
+          !Array.isArray(answers) ||
+          answers.length === 0 ||
+          new Set(answers).size !== answers.length ||
+          !answers.every((answer) => isIndex(answer, count))
+        ) {
+          errors.push(`${path}.correctAnswers: expected distinct indexes into options (0-${count - 1})`);
+        }
+      } else if (!isIndex(entry.correctAnswer, count)) {
+        errors.push(`${path}.correctAnswer: expected an index into options (0-${count - 1}), got ${JSON.stringify(entry.correctAnswer)}`);
+      }
+      if (type === 'rewrite' && !isTextList(entry.chat, 1)) {
+        errors.push(`${path}.chat: expected at least one message`);
+      }
+    }
+  }
+
+  // Explanations that don't line up with the options are dropped by the quiz without a word
+  if (type === 'trueFalse' || type === 'ordering') {
+    if (entry.explanation !== undefined && !isText(entry.explanation)) {
+      errors.push(`${path}.explanation: expected a non-empty string`);
+    }
+  } else if (entry.explanations !== undefined) {
+    const count = Array.isArray(entry.options) ? entry.options.length : 0;
+    if (!isTextList(entry.explanations, 0) || entry.explanations.length !== count) {
+      errors.push(`${path}.explanations: expected one non-empty string per option (${count})`);
+    }
+  }
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const show = (value: unknown) => (value === undefined ? 'none' : JSON.stringify(value));
+
+const lengthOf = (value: unknown) => (Array.isArray(value) ? value.length : undefined);
+
+// What has to be the same in every translation of a question: everything but the wording
+function compareEntry(entry: Entry, reference: Entry, path: string, referenceLocale: string, errors: string[]): void {
+  const differs = (field: string, actual: unknown, expected: unknown) =>
+    errors.push(`${path}.${field}: ${show(actual)} in this locale, but ${show(expected)} in ${referenceLocale}`);
+
+  if (typeOf(entry) !== typeOf(reference)) {
+    differs('type', typeOf(entry), typeOf(reference));
+    return;
+  }
+
+  const choices = typeOf(entry) === 'ordering' ? 'items' : 'options';
+  if (lengthOf(choicesOf(entry)) !== lengthOf(choicesOf(reference))) {
+    differs(`${choices}.length`, lengthOf(choicesOf(entry)), lengthOf(choicesOf(reference)));
+  }
+  if (typeOf(entry) === 'rewrite' && lengthOf(entry.chat) !== lengthOf(reference.chat)) {
+    differs('chat.length', lengthOf(entry.chat), lengthOf(reference.chat));
+  }
+  if (typeOf(entry) === 'multiple') {
+    if (!sameJson(entry.correctAnswers, reference.correctAnswers)) {
+      differs('correctAnswers', entry.correctAnswers, reference.correctAnswers);
+    }
+  } else if (typeOf(entry) !== 'ordering' && entry.correctAnswer !== reference.correctAnswer) {
+    differs('correctAnswer', entry.correctAnswer, reference.correctAnswer);
+  }
+  if (entry.learnMore !== reference.learnMore) {
+    differs('learnMore', entry.learnMore, reference.learnMore);
+  }
+
+  const explanations = typeOf(entry) === 'trueFalse' || typeOf(entry) === 'ordering' ? 'explanation' : 'explanations';
+  if ((entry[explanations] === undefined) !== (reference[explanations] === undefined)) {
+    errors.push(
+      entry[explanations] === undefined
+        ? `${path}.${explanations}: missing, but ${referenceLocale} has them`
+        : `${path}.${explanations}: not in ${referenceLocale}`
+    );
+  }
+}
+
+const questionsOf = (locale: unknown): unknown =>
+  isObject(locale) && isObject(locale.quiz) ? locale.quiz.questions : undefined;
+
+/**
+ * Checks one locale's questions on their own and, if given, against the reference locale's.
+ * Reference problems are reported for the reference itself, so they aren't compared here.
+ */
+export function validateQuizQuestions(questions: unknown, reference?: { locale: string; questions: unknown }): string[] {
+  const errors: string[] = [];
+  const path = 'quiz.questions';
+
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return [`${path}: expected a non-empty array of questions`];
+  }
+  questions.forEach((entry, index) => checkEntry(entry, `${path}[${index}]`, errors));
+
+  const referenceQuestions = reference?.questions;
+  if (!reference || !Array.isArray(referenceQuestions)) {
+    return errors;
+  }
+  if (questions.length !== referenceQuestions.length) {
+    errors.push(`${path}: ${questions.length} questions in this locale, but ${referenceQuestions.length} in ${reference.locale}`);
+  }
+  questions.forEach((entry, index) => {
+    const referenceEntry = referenceQuestions[index];
+    if (isObject(entry) && isObject(referenceEntry)) {
+      compareEntry(entry, referenceEntry, `${path}[${index}]`, reference.locale, errors);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Checks every locale file, keyed by language code, against the reference locale.
+ * Returns a report for each locale, in the order given.
+ */
+export function validateQuizLocales(
+  locales: Record<string, unknown>,
+  referenceLocale = QUIZ_REFERENCE_LOCALE
+): QuizLocaleReport[] {
+  const referenceQuestions = questionsOf(locales[referenceLocale]);
+
+  return Object.entries(locales).map(([locale, content]) => {
+    if (locale === referenceLocale) {
+      return { locale, errors: validateQuizQuestions(questionsOf(content)) };
+    }
+    const errors = validateQuizQuestions(questionsOf(content), { locale: referenceLocale, questions: referenceQuestions });
+    if (!(referenceLocale in locales)) {
+      errors.push(`quiz.questions: not compared, since there is no ${referenceLocale} locale`);
+    }
+    return { locale, errors };
+  });
+}
+
+/**
+ * Checks a hand-written copy of questions, like src/data/quizData.ts, against the reference
+ * locale: each question's id is its place in the pool, and the text and answers must match.
+ */
+export function validateQuizCopy(copy: SingleChoiceQuestion[], referenceQuestions: unknown): string[] {
+  const errors: string[] = [];
+  const reference = Array.isArray(referenceQuestions) ? referenceQuestions : [];
+
+  copy.forEach((question) => {
+    const path = `questions[id ${question.id}]`;
+    const entry = reference[question.id - 1];
+    if (!isObject(entry) || typeOf(entry) !== 'single') {
+      errors.push(`${path}: no single choice question at this place in the pool`);
+      return;
+    }
+    if (question.question !== entry.question) {
+      errors.push(`${path}.question: differs from the locale's wording`);
+    }
+    if (!sameJson(question.options, entry.options)) {
+      errors.push(`${path}.options: differ from the locale's options`);
+    }
+    if (question.correctAnswer !== entry.correctAnswer) {
+      errors.push(`${path}.correctAnswer: ${question.correctAnswer}, but ${JSON.stringify(entry.correctAnswer)} in the locale`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Readable summary of the reports, grouped by locale, e.g. for a terminal.
+ * Locales without problems are left out.
+ */
+export function formatQuizValidationReport(reports: QuizLocaleReport[]): string {
+  const failing = reports.filter(({ errors }) => errors.length > 0);
+  if (failing.length === 0) {
+    return `Quiz questions are consistent across ${reports.length} locale(s).`;
+  }
+
+  const count = failing.reduce((sum, { errors }) => sum + errors.length, 0);
+  return [
+    `Found ${count} quiz problem(s) in ${failing.length} locale(s):`,
+    ...failing.flatMap(({ locale, errors }) => [`\n${locale}:`, ...errors.map((error) => `  - ${error}`)]),
+  ].join('\n');
+}
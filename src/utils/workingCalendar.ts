@@ -0,0 +1,127 @@
+/**
+ * A working calendar: which days are worked, during which hours,
+ * and which dates are public holidays
+ */
+export interface WorkingCalendar {
+  weekendDays: number[]; // Days off, numbered like Date#getDay (Sunday = 0, Saturday = 6)
+  startHour: number; // First working hour, e.g. 9 for 9 AM
+  endHour: number; // Last working hour, inclusive, e.g. 17 for the 5 PM hour
+  holidays: string[]; // "YYYY-MM-DD" for one-off dates, "MM-DD" for dates that recur every year
+}
+
+// Monday to Friday, 9 AM - 5 PM, no holidays
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  weekendDays: [0, 6],
+  startHour: 9,
+  endHour: 17,
+  holidays: [],
+};
+
+// Week info as exposed by Intl.Locale, with days numbered Monday = 1 to Sunday = 7.
+// Newer engines expose it through getWeekInfo(), older ones through the weekInfo getter.
+interface LocaleWeekInfo {
+  firstDay: number;
+  weekend: number[];
+  minimalDays: number;
+}
+
+type LocaleWithWeekInfo = Intl.Locale & {
+  getWeekInfo?: () => LocaleWeekInfo;
+  weekInfo?: LocaleWeekInfo;
+};
+
+/**
+ * Gets the weekend days for a locale, e.g. Saturday and Sunday for "en-US"
+ * or Friday and Saturday for "he-IL". Falls back to the default calendar's
+ * weekend when the locale is invalid or Intl.Locale has no week info.
+ */
+export function getLocaleWeekendDays(locale: string): number[] {
+  try {
+    const intlLocale = new Intl.Locale(locale) as LocaleWithWeekInfo;
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+    if (weekInfo && Array.isArray(weekInfo.weekend)) {
+      return weekInfo.weekend.map((day) => day % 7);
+    }
+  } catch {
+    // Invalid locale tag - use the default weekend
+  }
+  return [...DEFAULT_WORKING_CALENDAR.weekendDays];
+}
+
+// Public holidays on the same date every year, by region, for the regions of the supported languages.
+// Holidays that move with Easter or the lunar calendar are left out.
+const FIXED_DATE_HOLIDAYS: Record<string, string[]> = {
+  // New Year's Day, Juneteenth, Independence Day, Veterans Day, Christmas
+  US: ['01-01', '06-19', '07-04', '11-11', '12-25'],
+  // New Year's Day, Epiphany, Labour Day, Assumption, National Day, All Saints, Constitution Day, Immaculate Conception, Christmas
+  ES: ['01-01', '01-06', '05-01', '08-15', '10-12', '11-01', '12-06', '12-08', '12-25'],
+  // New Year's Day, Labour Day, Victory in Europe Day, Bastille Day, Assumption, All Saints, Armistice Day, Christmas
+  FR: ['01-01', '05-01', '05-08', '07-14', '08-15', '11-01', '11-11', '12-25'],
+  // New Year's Day, Labour Day, German Unity Day, Christmas, Boxing Day
+  DE: ['01-01', '05-01', '10-03', '12-25', '12-26'],
+  // New Year's Day, Independence Movement Day, Children's Day, Memorial Day, Liberation Day,
+  // National Foundation Day, Hangul Day, Christmas
+  KR: ['01-01', '03-01', '05-05', '06-06', '08-15', '10-03', '10-09', '12-25'],
+};
+
+/**
+ * Gets the fixed-date public holidays for a locale's region, e.g. the United States for "en"
+ * or Germany for "de". Returns none for other regions or invalid locales.
+ */
+export function getLocaleHolidays(locale: string): string[] {
+  try {
+    const region = new Intl.Locale(locale).maximize().region;
+    return region ? [...(FIXED_DATE_HOLIDAYS[region] ?? [])] : [];
+  } catch {
+    // Invalid locale tag - no holidays
+    return [];
+  }
+}
+
+/**
+ * Creates a working calendar for a locale, with the weekend taken from the
+ * locale's week info and the fixed-date public holidays of its region.
+ * Hours, holidays or the weekend itself can be overridden.
+ */
+export function createWorkingCalendar(locale: string, overrides: Partial<WorkingCalendar> = {}): WorkingCalendar {
+  return {
+    ...DEFAULT_WORKING_CALENDAR,
+    weekendDays: getLocaleWeekendDays(locale),
+    holidays: getLocaleHolidays(locale),
+    ...overrides,
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Checks if a date is a public holiday in the calendar
+ */
+export function isHoliday(date: Date, calendar: WorkingCalendar): boolean {
+  const monthDay = `${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const fullDate = `${date.getFullYear()}-${monthDay}`;
+  return calendar.holidays.some((holiday) => holiday === fullDate || holiday === monthDay);
+}
+
+/**
+ * Checks if a date falls on one of the calendar's weekend days
+ */
+export function isWeekendDay(date: Date, calendar: WorkingCalendar): boolean {
+  return calendar.weekendDays.includes(date.getDay());
+}
+
+/**
+ * Checks if a date is a working day: neither a weekend day nor a holiday
+ */
+export function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+  return !isWeekendDay(date, calendar) && !isHoliday(date, calendar);
+}
+
+/**
+ * Checks if an instant falls within the calendar's working hours,
+ * including the whole of the last working hour
+ */
+export function isWithinWorkingHours(date: Date, calendar: WorkingCalendar): boolean {
+  const hour = date.getHours();
+  return hour >= calendar.startHour && hour <= calendar.endHour;
+}